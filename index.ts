@@ -1,5 +1,21 @@
-export { decrypt, decryptObject, encrypt, encryptObject, isEqual } from './src/crypt'
-export { Field, getFieldMetadata } from './src/decorators'
+export { decryptMany, decryptObjectAsync, encryptMany, encryptObjectAsync } from './src/bulk'
+export { blindIndex, decrypt, decryptObject, encrypt, encryptObject, hashPassword, isEqual, needsRehash, reencrypt, rotateObject, verifyPassword } from './src/crypt'
+export { decryptInstance, encryptInstance, Field, fromPlain, getFieldMetadata, toPlain } from './src/decorators'
+export { decryptDocument, encryptDocument } from './src/document'
+export { encryptEnvFile, loadEncryptedEnv } from './src/env'
+export { EnvDecryptionError, IntegrityError, InvalidKeyError, MalformedCiphertextError, MalformedTokenError, TokenClaimError, TokenError, TokenExpiredError, TokenNotActiveError, TokenSignatureError, UnsupportedVersionError, ValidationError, ZexsonError } from './src/errors'
 export { cryptExample } from './src/example'
-export { tokenGenerator } from './src/generator'
-export type { CharacterSetType } from './src/types'
+export { inspectCiphertext } from './src/inspect'
+export { createKeyring, isKeyring } from './src/keyring'
+export { deriveKey, importKey, isStrictMode, isZexsonKey, setStrictMode } from './src/keys'
+export { entropyBits, nanoid, tokenGenerator, ulid, uuidv4, uuidv7 } from './src/generator'
+export { setLogger } from './src/logger'
+export { createDtoMiddleware, encryptResponse, sendEncrypted } from './src/middleware'
+export { generateTotpSecret, hotp, otpauthUri, totp, verifyHotp, verifyTotp } from './src/otp'
+export { createEnvKeyProvider, createFileKeyProvider, createMockKms, decryptWithProvider, encryptWithProvider, rewrapKey } from './src/provider'
+export { createWorkerPool } from './src/pool'
+export { redact } from './src/redact'
+export { createDecryptStream, createEncryptStream, decryptFile, encryptFile } from './src/stream'
+export { signToken, verifyToken } from './src/token'
+export { IsEmail, IsIn, Max, MaxLength, Min, MinLength, Pattern, Required, Validate, validate } from './src/validation'
+export type { BlindIndexFieldOptions, BlindIndexOptions, BulkOptions, BulkProgress, CharacterSetType, CipherAlgorithm, CiphertextEncoding, CiphertextFormat, CiphertextInfo, CompressionAlgorithm, CompressionMode, CompressionOptions, DecryptDocumentOptions, DecryptOptions, DeriveKeyOptions, DtoMiddleware, DtoMiddlewareOptions, DtoRequest, EncryptDocumentOptions, Encrypted, EncryptEnvOptions, EncryptionSchema, EncryptOptions, EntropyReport, EnvFileFormat, EnvKeyProviderOptions, FieldMetadata, FieldOptions, FieldSelectionOptions, FieldType, FileKeyProviderOptions, FromPlainOptions, HashPasswordOptions, HotpOptions, KdfParams, KeyInput, KeyProvider, Keyring, KeyringOptions, LoadEncryptedEnvOptions, Logger, MockKms, NextFunction, ObjectCryptOptions, OtpAlgorithm, OtpauthUriOptions, OtpSecret, ProviderEncryptOptions, RedactOptions, ReencryptOptions, RotatableKeyProvider, SecretKey, SendEncryptedOptions, SignTokenOptions, StreamDecryptOptions, StreamEncryptOptions, TokenOptions, TokenPayload, ToPlainOptions, TotpOptions, ValidationIssue, ValidationResult, ValidatorOptions, VerifyHotpOptions, VerifyOtpResult, VerifyTokenOptions, VerifyTokenResult, VerifyTotpOptions, WorkerPool, WorkerPoolOptions, WrappedKey, ZexsonKey } from './src/types'
@@ -0,0 +1,24 @@
+import type { CharacterSetType, TokenOptions } from './types'
+
+export const characterSets: Record<CharacterSetType, string> = {
+    defaultSet: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789',
+    set1: '0123456789',
+    set2: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz',
+}
+
+/**
+ * Characters that are easy to confuse when read or typed, removed by `excludeAmbiguous`.
+ */
+export const ambiguousCharacters: string = '0O1Il'
+
+/**
+ * Resolves the characters a token is drawn from, and the ones allowed in its first position.
+ */
+export const tokenAlphabet = (type_: CharacterSetType | TokenOptions | undefined): { alphabet: string[], first: string[] } => {
+    const options: TokenOptions = typeof type_ === 'object' ? type_ : { charSet: type_ }
+    let alphabet: string[] = [...new Set(Array.from(options.alphabet ?? (characterSets[options.charSet as CharacterSetType] || characterSets.defaultSet)))]
+    if (options.excludeAmbiguous) alphabet = alphabet.filter((char): boolean => !ambiguousCharacters.includes(char))
+    if (alphabet.length < 2) throw new Error('The alphabet must contain at least two distinct characters')
+    const first: string[] = options.noLeadingZero === false ? alphabet : alphabet.filter((char): boolean => char !== '0')
+    return { alphabet, first }
+}
@@ -0,0 +1,208 @@
+import { setMaxListeners } from 'node:events'
+import { setImmediate as nextTurn } from 'node:timers/promises'
+import { completeObject, fieldAad, isLeaf, mapFields, objectSelection, openObject } from './crypt'
+import { DEFAULT_KEY, resolveKey } from './keys'
+import { runTask, submitTask } from './pool'
+import type { BulkTask } from './pool'
+import type { FieldSelection } from './paths'
+import type { BulkOptions, CompressionOptions, DecryptOptions, decryptManyType, decryptObjectAsyncType, Encrypted, EncryptOptions, encryptManyType, encryptObjectAsyncType, KeyInput, ObjectCryptOptions } from './types'
+
+const DEFAULT_BATCH_SIZE: number = 256
+
+/**
+ * Splits `items` into batches and runs them on `options.pool`, or on the main thread with a turn
+ * of the event loop between batches. Resolves with the results in the order of `items`, and
+ * rejects with the signal's reason as soon as `options.signal` aborts.
+ */
+const runBatches = async <I>(items: I[], batchTask: (batch: I[]) => BulkTask, key: KeyInput, options: BulkOptions): Promise<unknown[]> => {
+    const { signal, onProgress, pool } = options,
+        batchSize: number = options.batchSize ?? DEFAULT_BATCH_SIZE
+    if (!Number.isInteger(batchSize) || batchSize < 1) throw new RangeError('batchSize must be a positive integer')
+    if (signal?.aborted) throw signal.reason
+    const tasks: BulkTask[] = []
+    for (let i: number = 0; i < items.length; i += batchSize) tasks.push(batchTask(items.slice(i, i + batchSize)))
+    let done: number = 0
+    const report = (count: number): void => {
+        done += count
+        onProgress?.({ done, total: items.length })
+    }
+
+    if (pool === undefined) {
+        const results: unknown[] = []
+        for (const task of tasks) {
+            if (signal?.aborted) throw signal.reason
+            results.push(...runTask(task, key))
+            report(task.items.length)
+            await nextTurn()
+        }
+        return results
+    }
+
+    // Aborted by the caller's signal, or by the first failed batch: queued batches are dropped
+    const controller: AbortController = new AbortController(),
+        onAbort = (): void => controller.abort(signal?.reason),
+        aborted: Promise<never> = new Promise((_: unknown, reject: (reason: unknown) => void): void =>
+            controller.signal.addEventListener('abort', (): void => reject(controller.signal.reason), { once: true }))
+    aborted.catch((): void => undefined)
+    // Every queued batch listens for the abort
+    setMaxListeners(tasks.length + 1, controller.signal)
+    signal?.addEventListener('abort', onAbort, { once: true })
+    try {
+        const batches: unknown[][] = await Promise.race([
+            Promise.all(tasks.map(async (task: BulkTask): Promise<unknown[]> => {
+                const res: unknown[] = await submitTask(pool, task, key, controller.signal)
+                if (!controller.signal.aborted) report(task.items.length)
+                return res
+            })),
+            aborted,
+        ])
+        return batches.flat()
+    } catch (err) {
+        controller.abort(err)
+        throw err
+    } finally {
+        signal?.removeEventListener('abort', onAbort)
+    }
+}
+
+/**
+ * Promise-returning `encryptObject` that does not block the event loop: the values are encrypted
+ * in batches of `batchSize` with a turn of the event loop in between, or on the worker threads
+ * of `pool` in parallel. The result is the same as `encryptObject`'s.
+ *
+ * `signal` cancels the encryption, and `onProgress` reports the number of values encrypted after
+ * every batch. Object MACs and blind indexes are computed on the main thread at the end.
+ *
+ * @template T - The object type.
+ * @param {T} data - The object containing values to be encrypted.
+ * @param {KeyInput} [key='qwertyuioplkjhgfdsazxcvbnm'] - The encryption key string, key object or keyring to use.
+ * @param {ObjectCryptOptions & BulkOptions} [options] - The `encryptObject` options, and:
+ * @param {AbortSignal} [options.signal] - Cancels the encryption.
+ * @param {(progress: BulkProgress) => void} [options.onProgress] - Called after every batch.
+ * @param {number} [options.batchSize=256] - Values encrypted per batch.
+ * @param {WorkerPool} [options.pool] - Encrypt on the worker threads of a pool from `createWorkerPool`.
+ * @returns {Promise<Encrypted<T>>} A new object with the same shape and encrypted values.
+ * @throws {InvalidKeyError} If the key cannot be used, such as the default key in strict mode.
+ * @throws {RangeError} If `batchSize` is not a positive integer.
+ * @throws {unknown} The signal's reason (an `AbortError` by default) when `signal` aborts.
+ *
+ * @example
+ * const stored = await encryptObjectAsync(catalog, key, { exclude: ['id'], onProgress: ({ done, total }) => bar.update(done / total) })
+ *
+ * @since 1.1.0
+ * @category Bulk
+ * @public
+ */
+export const encryptObjectAsync: encryptObjectAsyncType = (async <T extends Record<string, any>>(data: T, key: KeyInput = DEFAULT_KEY, options: ObjectCryptOptions & BulkOptions = {}): Promise<Encrypted<T>> => {
+    if (data == null) return data as Encrypted<T>
+    const cryptKey: KeyInput = resolveKey(key),
+        selection: FieldSelection = objectSelection(options),
+        compression: CompressionOptions = { compress: options.compress, compressThreshold: options.compressThreshold },
+        leaves: [unknown, Buffer | undefined][] = []
+    mapFields(data, [], selection, (leaf: unknown, path: string[]): unknown => {
+        if (isLeaf(leaf)) leaves.push([leaf, fieldAad(path, options)])
+        return leaf
+    })
+    const results: unknown[] = await runBatches(leaves, (items: [unknown, Buffer | undefined][]): BulkTask => ({ op: 'encryptLeaves', items, compression }), cryptKey, options)
+    let next: number = 0
+    const encryptedData: Record<string, any> = mapFields(data, [], selection, (leaf: unknown): unknown => isLeaf(leaf) ? results[next++] : leaf) as Record<string, any>
+    return completeObject(data, encryptedData, cryptKey, selection, options) as Encrypted<T>
+}) as encryptObjectAsyncType
+
+/**
+ * Promise-returning `decryptObject` that does not block the event loop: the values are decrypted
+ * in batches of `batchSize` with a turn of the event loop in between, or on the worker threads
+ * of `pool` in parallel. With `mac` the whole object is verified first, on the main thread.
+ *
+ * @template T - The type of the original object.
+ * @param {Encrypted<T>} data - The object containing values to be decrypted.
+ * @param {KeyInput} [key='qwertyuioplkjhgfdsazxcvbnm'] - The decryption key string, key object or keyring to use.
+ * @param {ObjectCryptOptions & BulkOptions} [options] - The `decryptObject` options, and:
+ * @param {AbortSignal} [options.signal] - Cancels the decryption.
+ * @param {(progress: BulkProgress) => void} [options.onProgress] - Called after every batch.
+ * @param {number} [options.batchSize=256] - Values decrypted per batch.
+ * @param {WorkerPool} [options.pool] - Decrypt on the worker threads of a pool from `createWorkerPool`.
+ * @returns {Promise<T>} A new object with decrypted values (without the MAC property).
+ * @throws {IntegrityError} If a value does not authenticate, a field was moved, or the object MAC does not match.
+ * @throws {RangeError} If `batchSize` is not a positive integer.
+ * @throws {unknown} The signal's reason (an `AbortError` by default) when `signal` aborts.
+ *
+ * @example
+ * const user = await decryptObjectAsync<User>(stored, keyring, { documentId: stored.id, mac: true, signal: AbortSignal.timeout(5000) })
+ *
+ * @since 1.1.0
+ * @category Bulk
+ * @public
+ */
+export const decryptObjectAsync: decryptObjectAsyncType = (async <T extends Record<string, any>>(data: Record<string, any>, key: KeyInput = DEFAULT_KEY, options: ObjectCryptOptions & BulkOptions = {}): Promise<T> => {
+    if (data == null) return data as T
+    const cryptKey: KeyInput = resolveKey(key),
+        selection: FieldSelection = objectSelection(options),
+        verified: Record<string, any> = options.mac ? openObject(data, cryptKey, selection, options) : data,
+        leaves: [unknown, Buffer | undefined][] = []
+    mapFields(verified, [], selection, (leaf: unknown, path: string[]): unknown => {
+        if (typeof leaf === 'string') leaves.push([leaf, fieldAad(path, options)])
+        return leaf
+    })
+    const results: unknown[] = await runBatches(leaves, (items: [unknown, Buffer | undefined][]): BulkTask => ({ op: 'decryptLeaves', items, allowLegacy: options.allowLegacy }), cryptKey, options)
+    let next: number = 0
+    return mapFields(verified, [], selection, (leaf: unknown): unknown => typeof leaf === 'string' ? results[next++] : leaf) as T
+}) as decryptObjectAsyncType
+
+/**
+ * Encrypts many values with `encrypt`, in batches that do not block the event loop, or on the
+ * worker threads of `pool` in parallel. Useful for migrations and imports: `signal` cancels the
+ * run, and `onProgress` reports the number of values encrypted after every batch.
+ *
+ * @param {(string | Uint8Array)[]} values - The strings or bytes to encrypt.
+ * @param {EncryptOptions & BulkOptions} [options] - The `encrypt` options (key, algorithm, encoding, compression), and:
+ * @param {AbortSignal} [options.signal] - Cancels the encryption.
+ * @param {(progress: BulkProgress) => void} [options.onProgress] - Called after every batch.
+ * @param {number} [options.batchSize=256] - Values encrypted per batch.
+ * @param {WorkerPool} [options.pool] - Encrypt on the worker threads of a pool from `createWorkerPool`.
+ * @returns {Promise<(string | Buffer)[]>} The ciphertexts, in the order of `values`.
+ * @throws {InvalidKeyError} If the key cannot be used, such as the default key in strict mode.
+ * @throws {TypeError} If a value is not a string or bytes.
+ * @throws {unknown} The signal's reason (an `AbortError` by default) when `signal` aborts.
+ *
+ * @example
+ * const controller = new AbortController()
+ * const ciphertexts = await encryptMany(rows.map((row) => row.note), { key: keyring, signal: controller.signal, onProgress: ({ done, total }) => console.log(`${done}/${total}`) })
+ *
+ * @since 1.1.0
+ * @category Bulk
+ * @public
+ */
+export const encryptMany: encryptManyType = (async (values: readonly (string | Uint8Array)[], options: EncryptOptions & BulkOptions = {}): Promise<unknown[]> => {
+    const { key, signal, onProgress, batchSize, pool, ...encryptOptions } = options
+    return runBatches([...values], (items: (string | Uint8Array)[]): BulkTask => ({ op: 'encrypt', items, options: encryptOptions }), resolveKey(key), options)
+}) as encryptManyType
+
+/**
+ * Decrypts many ciphertexts with `decrypt`, in batches that do not block the event loop, or on
+ * the worker threads of `pool` in parallel. The first value that fails to decrypt rejects the
+ * whole run.
+ *
+ * @param {(string | Uint8Array)[]} values - The ciphertexts to decrypt.
+ * @param {DecryptOptions & BulkOptions} [options] - The `decrypt` options (key, encoding), and:
+ * @param {AbortSignal} [options.signal] - Cancels the decryption.
+ * @param {(progress: BulkProgress) => void} [options.onProgress] - Called after every batch.
+ * @param {number} [options.batchSize=256] - Values decrypted per batch.
+ * @param {WorkerPool} [options.pool] - Decrypt on the worker threads of a pool from `createWorkerPool`.
+ * @returns {Promise<(string | Buffer)[]>} The plaintexts, in the order of `values`.
+ * @throws {IntegrityError} If the key is wrong or a ciphertext was tampered with.
+ * @throws {MalformedCiphertextError} If a value is not a ciphertext.
+ * @throws {unknown} The signal's reason (an `AbortError` by default) when `signal` aborts.
+ *
+ * @example
+ * const pool = createWorkerPool()
+ * const notes = await decryptMany(rows.map((row) => row.note), { key: keyring, pool })
+ *
+ * @since 1.1.0
+ * @category Bulk
+ * @public
+ */
+export const decryptMany: decryptManyType = (async (values: readonly (string | Uint8Array)[], options: DecryptOptions & BulkOptions = {}): Promise<unknown[]> => {
+    const { key, signal, onProgress, batchSize, pool, ...decryptOptions } = options
+    return runBatches([...values], (items: (string | Uint8Array)[]): BulkTask => ({ op: 'decrypt', items, options: decryptOptions }), resolveKey(key), options)
+}) as decryptManyType
@@ -0,0 +1,268 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from 'node:fs'
+import { decrypt, decryptObject, encrypt, encryptObject, isEqual } from './crypt'
+import { nanoid, tokenGenerator, ulid, uuidv4, uuidv7 } from './generator'
+import type { CharacterSetType, CipherAlgorithm, CiphertextEncoding, CompressionMode, ObjectCryptOptions } from './types'
+
+/**
+ * Parsed command line: the subcommand, its positional arguments and its flags.
+ * Repeatable flags keep every value, boolean flags are stored as `true`.
+ */
+type CliArgs = {
+    command: string | undefined
+    positionals: string[]
+    flags: Record<string, string[] | true>
+}
+
+/**
+ * Usage error, reported with exit code 2 and a hint to `--help`.
+ */
+class UsageError extends Error { }
+
+const KEY_ENV: string = 'ZEXSON_KEY'
+
+const VALUE_FLAGS: string[] = ['key', 'key-file', 'output', 'algorithm', 'encoding', 'compress', 'include', 'exclude', 'document-id', 'mac-field', 'length', 'count', 'type', 'charset', 'alphabet', 'prefix']
+
+const BOOLEAN_FLAGS: string[] = ['json', 'binary', 'bind', 'mac', 'pretty', 'exclude-ambiguous', 'ignore-case', 'help']
+
+const USAGE: string = `Usage: zexson <command> [input] [options]
+
+Commands:
+  encrypt [file]          Encrypt text (or bytes with --binary) from a file or stdin
+  decrypt [file]          Decrypt a ciphertext from a file or stdin
+  encrypt-json [file]     Encrypt the values of a JSON document
+  decrypt-json [file]     Decrypt the values of a JSON document
+  token                   Generate random tokens
+  compare <a> <b>         Compare two values, either may be encrypted ("-" reads stdin)
+
+Key (never printed), first found wins:
+  --key <key>             Key string (visible in the process list, prefer the others)
+  --key-file <file>       File holding the key
+  ${KEY_ENV}              Environment variable holding the key
+
+Options:
+  --output <file>         Write to a file instead of stdout
+  --json                  Print a JSON result for scripting
+  --binary                encrypt: read raw bytes, decrypt: write raw bytes
+  --algorithm <name>      aes-256-gcm (default) or chacha20-poly1305
+  --encoding <name>       base64url (default), base64 or hex
+  --compress <name>       encrypt/encrypt-json: deflate, brotli or auto, for values of 1 KiB or more
+  --include <path>        encrypt-json/decrypt-json: only these paths (repeatable)
+  --exclude <path>        encrypt-json/decrypt-json: skip these paths (repeatable)
+  --bind, --document-id <id>, --mac, --mac-field <name>
+                          encrypt-json/decrypt-json: path binding and object MAC
+  --pretty                encrypt-json/decrypt-json: indent the output
+  --type <name>           token: token (default), nanoid, uuid, uuidv7 or ulid
+  --length <n>            token: length (default 32, nanoid 21)
+  --count <n>             token: number of tokens (default 1)
+  --charset <name>        token: defaultSet, set1 or set2
+  --alphabet <chars>      token: custom alphabet
+  --prefix <text>         token: prefix such as "sk_"
+  --exclude-ambiguous     token: leave out 0, O, 1, I and l
+  --ignore-case           compare: case-insensitive comparison
+  --help                  Show this help
+
+Exit codes: 0 success, 1 failure (including a failed compare), 2 usage error.
+`
+
+const parseArgs = (argv: readonly string[]): CliArgs => {
+    const args: CliArgs = { command: undefined, positionals: [], flags: {} }
+    for (let i: number = 0; i < argv.length; i++) {
+        const arg: string = argv[i]
+        if (arg === '--') {
+            args.positionals.push(...argv.slice(i + 1))
+            break
+        }
+        if (arg === '-h') {
+            args.flags.help = true
+            continue
+        }
+        if (!arg.startsWith('--')) {
+            if (args.command === undefined) args.command = arg
+            else args.positionals.push(arg)
+            continue
+        }
+        const eq: number = arg.indexOf('='),
+            name: string = arg.slice(2, eq === -1 ? undefined : eq)
+        if (BOOLEAN_FLAGS.includes(name)) {
+            if (eq !== -1) throw new UsageError(`--${name} does not take a value`)
+            args.flags[name] = true
+        } else if (VALUE_FLAGS.includes(name)) {
+            const value: string | undefined = eq === -1 ? argv[++i] : arg.slice(eq + 1)
+            if (value === undefined) throw new UsageError(`--${name} requires a value`)
+            const previous: string[] | true | undefined = args.flags[name]
+            args.flags[name] = Array.isArray(previous) ? [...previous, value] : [value]
+        } else throw new UsageError(`Unknown option: --${name}`)
+    }
+    return args
+}
+
+const flag = (args: CliArgs, name: string): string | undefined => {
+    const value: string[] | true | undefined = args.flags[name]
+    return Array.isArray(value) ? value[value.length - 1] : undefined
+}
+
+const flagList = (args: CliArgs, name: string): string[] | undefined => {
+    const value: string[] | true | undefined = args.flags[name]
+    return Array.isArray(value) ? value : undefined
+}
+
+const intFlag = (args: CliArgs, name: string, fallback: number): number => {
+    const value: string | undefined = flag(args, name)
+    if (value === undefined) return fallback
+    if (!/^\d+$/.test(value)) throw new UsageError(`--${name} must be a non-negative integer`)
+    return Number(value)
+}
+
+const choiceFlag = <T extends string>(args: CliArgs, name: string, choices: readonly T[]): T | undefined => {
+    const value: string | undefined = flag(args, name)
+    if (value !== undefined && !choices.includes(value as T)) throw new UsageError(`--${name} must be one of: ${choices.join(', ')}`)
+    return value as T | undefined
+}
+
+/**
+ * Reads the key from `--key`, `--key-file` or the `ZEXSON_KEY` environment variable.
+ * The key is only ever passed to the crypto functions, never printed.
+ */
+const readKey = (args: CliArgs, required: boolean = true): string | undefined => {
+    const file: string | undefined = flag(args, 'key-file'),
+        key: string | undefined = flag(args, 'key') ?? (file !== undefined ? readFileSync(file, 'utf8').replace(/\r?\n$/, '') : process.env[KEY_ENV])
+    if (key === '') throw new UsageError('The key is empty')
+    if (key === undefined && required) throw new UsageError(`No key given: use --key, --key-file or ${KEY_ENV}`)
+    return key
+}
+
+/**
+ * Reads the input from a file, or from stdin when no file (or `-`) is given.
+ */
+const readInput = async (file: string | undefined): Promise<Buffer> => {
+    if (file !== undefined && file !== '-') return readFileSync(file)
+    if (process.stdin.isTTY) throw new UsageError('No input: pass a file or pipe data to stdin')
+    const chunks: Buffer[] = []
+    for await (const chunk of process.stdin) chunks.push(chunk as Buffer)
+    return Buffer.concat(chunks)
+}
+
+/**
+ * Text input loses one trailing newline, so `echo value | zexson encrypt` encrypts `value`.
+ */
+const inputText = (input: Buffer): string => input.toString('utf8').replace(/\r?\n$/, '')
+
+const writeOutput = (args: CliArgs, data: string | Buffer): void => {
+    const file: string | undefined = flag(args, 'output')
+    if (file === undefined) process.stdout.write(data)
+    else writeFileSync(file, data, { mode: 0o600 })
+}
+
+const writeResult = (args: CliArgs, text: string, json: Record<string, unknown>): void =>
+    writeOutput(args, args.flags.json ? `${JSON.stringify(json)}\n` : `${text}\n`)
+
+const objectOptions = (args: CliArgs): ObjectCryptOptions => ({
+    include: flagList(args, 'include'),
+    exclude: flagList(args, 'exclude'),
+    bind: args.flags.bind === true,
+    documentId: flag(args, 'document-id'),
+    mac: args.flags.mac === true,
+    macField: flag(args, 'mac-field'),
+    compress: choiceFlag<CompressionMode>(args, 'compress', ['deflate', 'brotli', 'auto']),
+})
+
+const parseJson = (input: Buffer): Record<string, any> => {
+    let data: unknown
+    try {
+        data = JSON.parse(input.toString('utf8'))
+    } catch {
+        throw new Error('Input is not valid JSON')
+    }
+    if (typeof data !== 'object' || data === null) throw new Error('Input must be a JSON object or array')
+    return data as Record<string, any>
+}
+
+const commands: Record<string, (args: CliArgs) => Promise<number> | number> = {
+    encrypt: async (args: CliArgs): Promise<number> => {
+        const key: string | undefined = readKey(args),
+            input: Buffer = await readInput(args.positionals[0]),
+            ciphertext = encrypt(args.flags.binary ? input : inputText(input), {
+                key,
+                algorithm: choiceFlag<CipherAlgorithm>(args, 'algorithm', ['aes-256-gcm', 'chacha20-poly1305']),
+                encoding: choiceFlag<Exclude<CiphertextEncoding, 'buffer'>>(args, 'encoding', ['base64url', 'base64', 'hex']),
+                compress: choiceFlag<CompressionMode>(args, 'compress', ['deflate', 'brotli', 'auto']),
+            }) as string
+        writeResult(args, ciphertext, { ciphertext })
+        return 0
+    },
+    decrypt: async (args: CliArgs): Promise<number> => {
+        const key: string | undefined = readKey(args),
+            input: Buffer = await readInput(args.positionals[0])
+        if (args.flags.binary) {
+            writeOutput(args, decrypt(input.toString('utf8'), { key, encoding: 'buffer' }))
+            return 0
+        }
+        const value: string = decrypt(input.toString('utf8'), { key })
+        writeResult(args, value, { value })
+        return 0
+    },
+    'encrypt-json': async (args: CliArgs): Promise<number> => {
+        const key: string | undefined = readKey(args),
+            data: Record<string, any> = parseJson(await readInput(args.positionals[0]))
+        writeOutput(args, `${JSON.stringify(encryptObject(data, key, objectOptions(args)), null, args.flags.pretty ? 2 : undefined)}\n`)
+        return 0
+    },
+    'decrypt-json': async (args: CliArgs): Promise<number> => {
+        const key: string | undefined = readKey(args),
+            data: Record<string, any> = parseJson(await readInput(args.positionals[0]))
+        writeOutput(args, `${JSON.stringify(decryptObject(data, key, objectOptions(args)), null, args.flags.pretty ? 2 : undefined)}\n`)
+        return 0
+    },
+    token: (args: CliArgs): number => {
+        const type: string = choiceFlag(args, 'type', ['token', 'nanoid', 'uuid', 'uuidv7', 'ulid']) ?? 'token',
+            length: number = intFlag(args, 'length', type === 'nanoid' ? 21 : 32),
+            count: number = intFlag(args, 'count', 1),
+            charSet: CharacterSetType | undefined = choiceFlag<CharacterSetType>(args, 'charset', ['defaultSet', 'set1', 'set2']),
+            generate: () => string =
+                type === 'nanoid' ? (): string => nanoid(length, flag(args, 'alphabet')) :
+                    type === 'uuid' ? uuidv4 :
+                        type === 'uuidv7' ? uuidv7 :
+                            type === 'ulid' ? ulid :
+                                (): string => tokenGenerator(length, { charSet, alphabet: flag(args, 'alphabet'), prefix: flag(args, 'prefix'), excludeAmbiguous: args.flags['exclude-ambiguous'] === true }),
+            tokens: string[] = Array.from({ length: count }, generate)
+        writeOutput(args, args.flags.json ? `${JSON.stringify({ tokens })}\n` : tokens.map((token: string): string => `${token}\n`).join(''))
+        return 0
+    },
+    compare: async (args: CliArgs): Promise<number> => {
+        if (args.positionals.length !== 2) throw new UsageError('compare takes exactly two values')
+        if (args.positionals.every((value: string): boolean => value === '-')) throw new UsageError('Only one value can be read from stdin')
+        const key: string | undefined = readKey(args, false),
+            [a, b] = await Promise.all(args.positionals.map(async (value: string): Promise<string> => value === '-' ? inputText(await readInput('-')) : value)),
+            { isEqual: equal, method } = isEqual(a, b, { key, caseSensitive: args.flags['ignore-case'] !== true })
+        writeResult(args, equal ? 'equal' : 'not equal', { isEqual: equal, method })
+        return equal ? 0 : 1
+    },
+}
+
+/**
+ * Runs the `zexson` command line and returns its exit code.
+ */
+const main = async (argv: readonly string[]): Promise<number> => {
+    try {
+        const args: CliArgs = parseArgs(argv)
+        if (args.flags.help || args.command === undefined) {
+            process.stdout.write(USAGE)
+            return args.command === undefined && !args.flags.help ? 2 : 0
+        }
+        // Own properties only, so names such as "toString" are unknown commands too
+        if (!Object.prototype.hasOwnProperty.call(commands, args.command)) throw new UsageError(`Unknown command: ${args.command}`)
+        return await commands[args.command](args)
+    } catch (err) {
+        process.stderr.write(`zexson: ${err instanceof Error ? err.message : err}\n`)
+        if (err instanceof UsageError) {
+            process.stderr.write('Run "zexson --help" for usage.\n')
+            return 2
+        }
+        return 1
+    }
+}
+
+main(process.argv.slice(2)).then((code: number): void => {
+    process.exitCode = code
+})
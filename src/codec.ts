@@ -0,0 +1,385 @@
+import { IntegrityError, MalformedCiphertextError, MalformedTokenError, TokenClaimError, TokenExpiredError, TokenNotActiveError, UnsupportedVersionError } from './errors.js'
+import { encodePath } from './paths.js'
+import type { EnvelopeHeader, EnvelopeValueType, KdfParams, SignTokenOptions, TokenPayload, VerifyTokenOptions } from './types'
+
+/*
+ * Encoding shared by the Node and web builds: envelope framing, Base64 and hex, the legacy (v1)
+ * format, object leaves, field binding, object MACs and token claims. Pure JS on `Uint8Array`,
+ * the cryptography itself stays in each build.
+ *
+ * This module is also compiled as a native ES module with the web build (`tsconfig.esm.json`),
+ * where relative specifiers are resolved literally, so imports of runtime values name the emitted
+ * `.js` file. Type-only imports are erased and keep the plain specifier used across `src/`.
+ */
+
+/**
+ * The built-in key used when no key is passed. Refused in strict mode.
+ */
+export const DEFAULT_KEY: string = 'qwertyuioplkjhgfdsazxcvbnm'
+
+/**
+ * Default property holding the object MAC.
+ */
+export const DEFAULT_MAC_FIELD: string = '_mac'
+
+/**
+ * Magic bytes that prefix every versioned ciphertext ("ZX").
+ */
+export const ENVELOPE_MAGIC_BYTES: Uint8Array = new Uint8Array([0x5a, 0x58])
+
+/**
+ * Current envelope format version. Version 1 is the legacy character shifting format,
+ * which has no magic bytes at all.
+ */
+export const ENVELOPE_VERSION: number = 2
+
+/**
+ * Nonce length of every envelope algorithm.
+ */
+export const ENVELOPE_IV_LENGTH: number = 12
+
+/**
+ * Authentication tag length of every envelope algorithm.
+ */
+export const ENVELOPE_TAG_LENGTH: number = 16
+
+const PREFIX_LENGTH: number = ENVELOPE_MAGIC_BYTES.length + 3
+
+const ENVELOPE_ALGORITHMS: readonly string[] = ['A256GCM', 'C20P']
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 }
+
+const encoder: TextEncoder = new TextEncoder()
+
+const decoder: TextDecoder = new TextDecoder()
+
+export const utf8 = (text: string): Uint8Array => encoder.encode(text)
+
+export const fromUtf8 = (bytes: Uint8Array): string => decoder.decode(bytes)
+
+export const concat = (...parts: Uint8Array[]): Uint8Array => {
+    const res: Uint8Array = new Uint8Array(parts.reduce((length: number, part: Uint8Array): number => length + part.length, 0))
+    let offset: number = 0
+    for (const part of parts) {
+        res.set(part, offset)
+        offset += part.length
+    }
+    return res
+}
+
+export const toBase64 = (bytes: Uint8Array, url: boolean = false): string => {
+    let binary: string = ''
+    for (let i: number = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+    const base64: string = btoa(binary)
+    return url ? base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '') : base64
+}
+
+/**
+ * Decodes Base64 or Base64url, with or without padding. Throws on other characters.
+ */
+export const fromBase64 = (text: string): Uint8Array => {
+    const base64: string = text.replace(/-/g, '+').replace(/_/g, '/').replace(/=+$/, '')
+    return Uint8Array.from(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')), (char: string): number => char.charCodeAt(0))
+}
+
+export const toHex = (bytes: Uint8Array): string =>
+    Array.from(bytes, (byte: number): string => byte.toString(16).padStart(2, '0')).join('')
+
+export const fromHex = (text: string): Uint8Array =>
+    Uint8Array.from(text.match(/../g) ?? [], (byte: string): number => parseInt(byte, 16))
+
+/**
+ * Constant-time comparison of two strings of the same length.
+ */
+export const safeEqual = (a: string, b: string): boolean => {
+    if (a.length !== b.length) return false
+    let diff: number = 0
+    for (let i: number = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+    return diff === 0
+}
+
+/**
+ * Checks whether bytes start with the envelope magic bytes.
+ */
+export const isEnvelope = (data: Uint8Array): boolean =>
+    data.length >= PREFIX_LENGTH && data[0] === ENVELOPE_MAGIC_BYTES[0] && data[1] === ENVELOPE_MAGIC_BYTES[1] && data[2] < 0x20
+
+/**
+ * Decodes a ciphertext (Base64, Base64url, hex or raw bytes) into envelope bytes,
+ * or returns `null` for legacy (v1) input.
+ */
+export const envelopeBytes = (data: string | Uint8Array): Uint8Array | null => {
+    if (typeof data !== 'string') return isEnvelope(data) ? data : null
+    if (!/^[A-Za-z0-9+/_-]+={0,2}$/.test(data)) return null
+    let bytes: Uint8Array | null
+    try {
+        bytes = fromBase64(data)
+    } catch {
+        bytes = null
+    }
+    if (bytes !== null && isEnvelope(bytes)) return bytes
+    const hex: Uint8Array | null = /^(?:[0-9a-fA-F]{2})+$/.test(data) ? fromHex(data) : null
+    return hex !== null && isEnvelope(hex) ? hex : null
+}
+
+/**
+ * Encodes the authenticated envelope prefix: magic, version, header length (uint16 BE) and header JSON.
+ */
+export const envelopePrefix = (header: EnvelopeHeader): Uint8Array => {
+    const headerBytes: Uint8Array = utf8(JSON.stringify(header))
+    return concat(ENVELOPE_MAGIC_BYTES, new Uint8Array([ENVELOPE_VERSION, headerBytes.length >> 8, headerBytes.length & 0xff]), headerBytes)
+}
+
+/**
+ * Reads the envelope prefix from the start of the bytes, or returns `null` if more bytes are needed.
+ *
+ * @throws {MalformedCiphertextError} If the bytes are not an envelope or the header is unreadable.
+ * @throws {UnsupportedVersionError} If the version is unknown.
+ */
+export const readEnvelopeHeader = (data: Uint8Array): { version: number, header: EnvelopeHeader, headerEnd: number } | null => {
+    if (data.length < PREFIX_LENGTH) return null
+    if (!isEnvelope(data)) throw new MalformedCiphertextError('Malformed ciphertext: missing envelope header')
+    const version: number = data[2]
+    if (version !== ENVELOPE_VERSION) throw new UnsupportedVersionError(version)
+    const headerEnd: number = PREFIX_LENGTH + ((data[3] << 8) | data[4])
+    if (data.length < headerEnd) return null
+    let header: EnvelopeHeader
+    try {
+        header = JSON.parse(fromUtf8(data.subarray(PREFIX_LENGTH, headerEnd)))
+    } catch {
+        throw new MalformedCiphertextError('Malformed ciphertext: unreadable header')
+    }
+    if (!ENVELOPE_ALGORITHMS.includes(header?.alg)) throw new MalformedCiphertextError(`Unsupported ciphertext algorithm: ${header?.alg}`)
+    return { version, header, headerEnd }
+}
+
+/**
+ * Reads the header of a complete (not streamed) envelope and the offsets of its parts:
+ * `"ZX" | version | header length | header JSON | IV | tag | ciphertext`.
+ *
+ * @throws {MalformedCiphertextError} If the envelope is truncated, streamed or has an unreadable header.
+ * @throws {UnsupportedVersionError} If the version is unknown.
+ */
+export const envelopeLayout = (data: Uint8Array): { version: number, header: EnvelopeHeader, headerEnd: number, ivEnd: number, tagEnd: number } => {
+    const parsed = readEnvelopeHeader(data)
+    if (parsed === null) throw new MalformedCiphertextError('Malformed ciphertext: truncated header')
+    if (parsed.header.chunk !== undefined) throw new MalformedCiphertextError('Malformed ciphertext: streamed ciphertexts must be decrypted with createDecryptStream')
+    const ivEnd: number = parsed.headerEnd + ENVELOPE_IV_LENGTH,
+        tagEnd: number = ivEnd + ENVELOPE_TAG_LENGTH
+    if (data.length < tagEnd) throw new MalformedCiphertextError('Malformed ciphertext: truncated payload')
+    return { ...parsed, ivEnd, tagEnd }
+}
+
+/**
+ * Rejects a bound ciphertext opened without associated data and the other way around, so
+ * bound fields can't be swapped for other ciphertexts.
+ */
+export const checkBinding = (header: EnvelopeHeader, bound: boolean): void => {
+    if (header.ad === true && !bound)
+        throw new IntegrityError('The ciphertext is bound to a field path and document, decrypt it with decryptObject and the same bind options')
+    if (header.ad !== true && bound) throw new IntegrityError('Authentication failed: the ciphertext is not bound to its field path')
+}
+
+const legacyKeySum = (key: string): number =>
+    key.split('').reduce((acc: number, char: string): number => acc + char.charCodeAt(0), 0)
+
+/**
+ * The custom Base64 encoding of the legacy format: characters shifted by the key, Base64
+ * twice, then shifted by position.
+ */
+export const legacyBase64Encode = (data: string, key: string): string => {
+    const sum: number = legacyKeySum(key),
+        shifted: string = data.split('').map((char: string, index: number): string => String.fromCharCode(char.charCodeAt(0) + (sum + index) % 20)).join(''),
+        step2: string = toBase64(utf8(toBase64(utf8(shifted))))
+    return step2.split('').map((char: string, index: number): string => String.fromCharCode(char.charCodeAt(0) + index % 5)).join('')
+}
+
+/**
+ * Decodes `legacyBase64Encode`.
+ */
+export const legacyBase64Decode = (data: string, key: string): string => {
+    const sum: number = legacyKeySum(key),
+        unmixed: string = data.split('').map((char: string, index: number): string => String.fromCharCode(char.charCodeAt(0) - index % 5)).join(''),
+        step2: string = fromUtf8(fromBase64(fromUtf8(fromBase64(unmixed))))
+    return step2.split('').map((char: string, index: number): string => String.fromCharCode(char.charCodeAt(0) - (sum + index) % 20)).join('')
+}
+
+/**
+ * Decrypts a string in the legacy (v1) character shifting format.
+ */
+export const legacyDecrypt = (data: string, key: string): string => {
+    data = legacyBase64Decode(data.trim(), key).split('').map((char: string): string => String.fromCharCode(char.charCodeAt(0) - 10)).join('')
+    let res: string = ''
+    const firstPart: number = data[0].charCodeAt(0) - 85,
+        secondPart: number = data.slice(-1).charCodeAt(0) - 85
+    for (let i: number = firstPart + 1; i < data.length; i++) {
+        if (data.slice(i, data.length - 1).length !== secondPart) res += String.fromCharCode(data[i].charCodeAt(0) - 10)
+        else break
+    }
+    return res
+}
+
+/**
+ * Serializes a leaf value of `encryptObject` and names its type, or returns `null` for
+ * values that are not leaves (objects, arrays, `null`, `undefined`, functions).
+ */
+export const leafPayload = (value: unknown): { payload: Uint8Array, ty?: EnvelopeValueType } | null => {
+    switch (typeof value) {
+        case 'string': return { payload: utf8(value) }
+        case 'number': return { payload: utf8(Object.is(value, -0) ? '-0' : String(value)), ty: 'n' }
+        case 'boolean': return { payload: utf8(String(value)), ty: 'b' }
+        case 'bigint': return { payload: utf8(value.toString()), ty: 'i' }
+    }
+    if (value instanceof Date) return { payload: utf8(String(value.getTime())), ty: 'd' }
+    if (value instanceof Uint8Array) return { payload: value, ty: 'x' }
+    return null
+}
+
+/**
+ * Restores a leaf value from its decrypted bytes and the type recorded in the envelope header.
+ * Ciphertexts without a type (plain `encrypt` output, older `encryptObject` output) are strings,
+ * byte arrays come back as the given bytes.
+ */
+export const leafValue = (plaintext: Uint8Array, ty: EnvelopeValueType | undefined): unknown => {
+    const text: string = fromUtf8(plaintext)
+    switch (ty) {
+        case undefined: case 's': return text
+        case 'n': return Number(text)
+        case 'b': return text === 'true'
+        case 'i': return BigInt(text)
+        case 'd': return new Date(Number(text))
+        case 'x': return plaintext
+        default: throw new Error(`Unsupported value type: ${ty}`)
+    }
+}
+
+/**
+ * Returns the associated data text binding a field's ciphertext to its concrete path and the
+ * document ID, or `undefined` if binding is not enabled.
+ */
+export const fieldBinding = (path: readonly string[], options: { bind?: boolean, documentId?: string }): string | undefined =>
+    options.bind || options.documentId !== undefined
+        ? JSON.stringify(['zexson:field', options.documentId ?? null, encodePath(path)])
+        : undefined
+
+/**
+ * The header of an object MAC: key ID, salt and the KDF parameters of a derived key.
+ */
+export type MacHeader = { kid?: string, s: string, kdf?: KdfParams }
+
+/**
+ * The MAC entry of a selected field: its path and stored value.
+ */
+export const macEntry = (path: readonly string[], leaf: unknown): string =>
+    JSON.stringify([encodePath(path), typeof leaf === 'string' ? leaf : null])
+
+/**
+ * Encodes the MAC header and returns it with the message to authenticate.
+ */
+export const macMessage = (header: MacHeader, entries: string[], documentId?: string): { encodedHeader: string, message: string } => {
+    const encodedHeader: string = toBase64(utf8(JSON.stringify(header)), true)
+    return { encodedHeader, message: JSON.stringify([encodedHeader, documentId ?? null, [...entries].sort()]) }
+}
+
+/**
+ * Splits the object MAC off an encrypted document and reads its header.
+ *
+ * @throws {IntegrityError} If the MAC is missing or malformed.
+ */
+export const readObjectMac = (data: Record<string, any>, macField: string = DEFAULT_MAC_FIELD): { mac: string, header: MacHeader, rest: Record<string, any> } => {
+    const { [macField]: mac, ...rest } = data
+    if (typeof mac !== 'string') throw new IntegrityError('Integrity check failed: the object MAC is missing')
+    let header: MacHeader
+    try {
+        header = JSON.parse(fromUtf8(fromBase64(mac.split('.')[0])))
+    } catch {
+        throw new IntegrityError('Integrity check failed: malformed object MAC')
+    }
+    if (typeof header?.s !== 'string') throw new IntegrityError('Integrity check failed: malformed object MAC')
+    return { mac, header, rest }
+}
+
+/**
+ * Compares the stored object MAC with the recomputed one in constant time.
+ *
+ * @throws {IntegrityError} If they differ.
+ */
+export const checkObjectMac = (mac: string, expected: string): void => {
+    if (!safeEqual(mac, expected))
+        throw new IntegrityError('Integrity check failed: fields were swapped, removed, added or modified, or the key or document ID is wrong')
+}
+
+/**
+ * Converts a duration (seconds, or a string such as `'15m'`, `'2h'`, `'7d'`) into seconds.
+ */
+export const toSeconds = (duration: number | string): number => {
+    if (typeof duration === 'number' && Number.isFinite(duration)) return Math.floor(duration)
+    const match: RegExpMatchArray | null = String(duration).trim().match(/^(\d+)\s*([smhdw])?$/)
+    if (match === null) throw new Error(`Invalid duration: ${duration}`)
+    return Number(match[1]) * DURATION_UNITS[match[2] || 's']
+}
+
+/**
+ * Builds the signing input of an HS256 token, `base64url(header).base64url(claims)`, from the
+ * payload and the standard claims of the options.
+ *
+ * @throws {Error} If the payload is not an object or a duration is invalid.
+ */
+export const tokenSigningInput = (payload: Record<string, any>, options: SignTokenOptions, kid?: string): string => {
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) throw new Error('Token payload must be a plain object')
+    const iat: number = Math.floor((options.timestamp ?? Date.now()) / 1000),
+        claims: TokenPayload = { ...payload, iat }
+    if (options.expiresIn !== undefined) claims.exp = iat + toSeconds(options.expiresIn)
+    if (options.notBefore !== undefined) claims.nbf = iat + toSeconds(options.notBefore)
+    if (options.audience !== undefined) claims.aud = options.audience
+    if (options.issuer !== undefined) claims.iss = options.issuer
+    if (options.subject !== undefined) claims.sub = options.subject
+    if (options.jwtId !== undefined) claims.jti = options.jwtId
+    const header: Record<string, string> = kid === undefined ? { alg: 'HS256', typ: 'JWT' } : { alg: 'HS256', typ: 'JWT', kid }
+    return `${toBase64(utf8(JSON.stringify(header)), true)}.${toBase64(utf8(JSON.stringify(claims)), true)}`
+}
+
+const toJson = (segment: string): any => {
+    if (!/^[A-Za-z0-9_-]+$/.test(segment)) throw new MalformedTokenError()
+    try {
+        return JSON.parse(fromUtf8(fromBase64(segment)))
+    } catch {
+        throw new MalformedTokenError()
+    }
+}
+
+/**
+ * Splits an HS256 token into its header, payload, signing input and signature segment.
+ *
+ * @throws {MalformedTokenError} If the token is not a well-formed HS256 token.
+ */
+export const parseToken = (token: string): { header: Record<string, any>, payload: TokenPayload, input: string, signature: string } => {
+    const parts: string[] = typeof token === 'string' ? token.split('.') : []
+    if (parts.length !== 3) throw new MalformedTokenError()
+    const header = toJson(parts[0]),
+        payload = toJson(parts[1])
+    if (header?.alg !== 'HS256') throw new MalformedTokenError(`Unsupported token algorithm: ${header?.alg}`)
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) throw new MalformedTokenError()
+    if (['exp', 'nbf'].some((claim: string): boolean => payload[claim] !== undefined && typeof payload[claim] !== 'number'))
+        throw new MalformedTokenError('Token time claims must be numbers')
+    return { header, payload, input: `${parts[0]}.${parts[1]}`, signature: parts[2] }
+}
+
+const matchesClaim = (actual: unknown, expected: string | string[]): boolean => {
+    const accepted: string[] = Array.isArray(expected) ? expected : [expected]
+    return (Array.isArray(actual) ? actual : [actual]).some((value): boolean => accepted.includes(value as string))
+}
+
+/**
+ * Checks `exp`, `nbf` and the requested `aud` and `iss` of a token whose signature is valid.
+ *
+ * @throws {TokenExpiredError | TokenNotActiveError | TokenClaimError} If a claim is not satisfied.
+ */
+export const checkTokenClaims = (payload: TokenPayload, options: VerifyTokenOptions): void => {
+    const now: number = Math.floor((options.timestamp ?? Date.now()) / 1000),
+        tolerance: number = options.clockTolerance ?? 0
+    if (payload.exp !== undefined && now >= payload.exp + tolerance) throw new TokenExpiredError(new Date(payload.exp * 1000))
+    if (payload.nbf !== undefined && now + tolerance < payload.nbf) throw new TokenNotActiveError(new Date(payload.nbf * 1000))
+    if (options.audience !== undefined && !matchesClaim(payload.aud, options.audience)) throw new TokenClaimError('aud')
+    if (options.issuer !== undefined && !matchesClaim(payload.iss, options.issuer)) throw new TokenClaimError('iss')
+}
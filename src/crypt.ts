@@ -1,102 +1,207 @@
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
+import { checkBinding, checkObjectMac, DEFAULT_MAC_FIELD, envelopeBytes as decodeEnvelope, fieldBinding, leafPayload, leafValue, legacyBase64Decode, legacyBase64Encode, legacyDecrypt as decodeLegacy, macEntry, macMessage, readObjectMac } from './codec';
+import type { MacHeader } from './codec';
+import { compressionAlgorithm, compressPayload, decompressPayload } from './compression';
+import { algorithmIds, openEnvelope, sealEnvelope, unpackEnvelope } from './envelope';
+import { IntegrityError, InvalidKeyError, MalformedCiphertextError } from './errors';
 import { tokenGenerator } from './generator';
-import type { base64DecodeType, cryptObject, decryptType, encryptType, IsEqualOptions, isEqualType } from './types';
+import { decryptionKey, encryptionKey } from './keyring';
+import { DEFAULT_KEY, kdfParams, legacyKeyString, masterKey, messageKey, resolveKey } from './keys';
+import { logger } from './logger';
+import { fieldSelection, parsePath } from './paths';
+import type { FieldSelection } from './paths';
+import type { base64DecodeType, BlindIndexFieldOptions, BlindIndexOptions, blindIndexType, CipherAlgorithm, CompressionOptions, DecryptOptions, decryptObjectType, decryptType, Encrypted, encryptObjectType, EncryptOptions, encryptType, EnvelopeHeader, EnvelopeParts, EnvelopeValueType, HashPasswordOptions, hashPasswordType, IsEqualOptions, isEqualType, KeyInput, Keyring, needsRehashType, ObjectCryptOptions, ReencryptOptions, reencryptType, rotateObjectType, SecretKey, verifyPasswordType } from './types';
 import { base64EncodeType, CharacterSetType } from './types';
 
+const toBuffer = (bytes: Uint8Array): Buffer => Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+/**
+ * Returns the cipher key of a v2 envelope: the master key (re-derived from the header's
+ * KDF parameters for passphrases), expanded with the per-message salt.
+ */
+const envelopeKey: (key: SecretKey, header: EnvelopeHeader) => Buffer = (key: SecretKey, header: EnvelopeHeader): Buffer => {
+    const master: Buffer = masterKey(key, header.kdf)
+    return header.s === undefined ? master : messageKey(master, Buffer.from(header.s, 'base64url'), `v2:${header.alg}`)
+}
+
+/**
+ * Decodes a ciphertext (Base64, Base64url, hex or raw bytes) into envelope bytes,
+ * or returns `null` for legacy (v1) input.
+ */
+export const envelopeBytes: (data: string | Uint8Array) => Buffer | null = (data: string | Uint8Array): Buffer | null => {
+    const bytes: Uint8Array | null = decodeEnvelope(data)
+    return bytes === null ? null : toBuffer(bytes)
+}
+
+/**
+ * Encrypts bytes into a v2 envelope with the active key of `key`.
+ * `ty` records the JS type of an `encryptObject` value, see `EnvelopeValueType`,
+ * `aad` binds the ciphertext to a field path and document, see `fieldAad`, and
+ * `compression` compresses the payload first, recording the algorithm as `zip`.
+ */
+export const sealPayload: (payload: Buffer, key: KeyInput | undefined, algorithm?: CipherAlgorithm, ty?: EnvelopeValueType, aad?: Buffer, compression?: CompressionOptions) => Buffer = (payload: Buffer, key: KeyInput | undefined, algorithm: CipherAlgorithm = 'aes-256-gcm', ty?: EnvelopeValueType, aad?: Buffer, compression?: CompressionOptions): Buffer => {
+    const { key: secret, kid } = encryptionKey(resolveKey(key))
+    if (!algorithmIds[algorithm]) throw new Error(`Unsupported algorithm: ${algorithm}`)
+    const header: EnvelopeHeader = { alg: algorithmIds[algorithm], kid, s: randomBytes(16).toString('base64url'), kdf: kdfParams(secret) },
+        { payload: body, zip } = compressPayload(payload, compression)
+    if (ty !== undefined) header.ty = ty
+    if (aad !== undefined) header.ad = true
+    if (zip !== undefined) header.zip = zip
+    return sealEnvelope(body, envelopeKey(secret, header), header, aad)
+}
+
+/**
+ * Authenticates and decrypts v2 envelope bytes, returning the header alongside the plaintext
+ * (inflated if it was compressed). A ciphertext bound to associated data only opens with that
+ * data, and an unbound one is rejected when associated data is expected, so bound fields can't
+ * be swapped for other ciphertexts.
+ */
+export const openPayload: (bytes: Buffer, key: KeyInput | undefined, aad?: Buffer) => { header: EnvelopeHeader, plaintext: Buffer } = (bytes: Buffer, key: KeyInput | undefined, aad?: Buffer): { header: EnvelopeHeader, plaintext: Buffer } => {
+    const envelope: EnvelopeParts = unpackEnvelope(bytes)
+    checkBinding(envelope.header, aad !== undefined)
+    const plaintext: Buffer = openEnvelope(envelope, envelopeKey(decryptionKey(resolveKey(key), envelope.header.kid), envelope.header), aad)
+    return { header: envelope.header, plaintext: decompressPayload(plaintext, envelope.header.zip) }
+}
+
 /**
- * Encrypts a string using custom logic with random padding and Base64 encoding.
+ * Encrypts a string or binary payload with an authenticated cipher (AES-256-GCM by default).
+ *
+ * The result is a versioned envelope whose header records the algorithm, so `decrypt`
+ * can detect a wrong key or a tampered ciphertext. Strings are encrypted as their exact
+ * UTF-8 bytes (no trimming), so any string, including emoji, round trips unchanged.
+ * Pass `version: 1` to produce the legacy character shifting format, and `compress` to
+ * compress large text and JSON payloads first, `decrypt` inflates them transparently.
+ * Compression leaks through the ciphertext length (see `CompressionOptions`), so never
+ * compress a payload that combines a secret with attacker-controlled input.
  * 
- * @param {string} data - The string to encrypt.
- * @param {Object} [options] - Encryption options.
- * @param {CharacterSetType} [options.firstRandomCharSet] - Character set for the first random padding.
- * @param {CharacterSetType} [options.secondRandomCharSet] - Character set for the second random padding.
- * @param {string} [options.key] - Encryption key for additional security.
- * @returns {Promise<string | undefined>} The encrypted string or `undefined` if encryption fails.
- * @throws {Error} Throws if the encryption process encounters an issue.
+ * @param {string | Uint8Array} data - The string or bytes to encrypt.
+ * @param {EncryptOptions} [options] - Encryption options.
+ * @param {CharacterSetType} [options.firstRandomCharSet] - Character set for the first random padding (legacy v1 only).
+ * @param {CharacterSetType} [options.secondRandomCharSet] - Character set for the second random padding (legacy v1 only).
+ * @param {KeyInput} [options.key] - Encryption key string, a key object from `deriveKey` or a keyring.
+ * @param {CipherAlgorithm} [options.algorithm='aes-256-gcm'] - Authenticated cipher to use.
+ * @param {1 | 2} [options.version=2] - Ciphertext format version.
+ * @param {CiphertextEncoding} [options.encoding='base64url'] - Ciphertext encoding, `'buffer'` returns raw bytes.
+ * @param {CompressionMode} [options.compress] - Compress the payload before encryption: `'deflate'`, `'brotli'` or `'auto'` for the smaller.
+ * @param {number} [options.compressThreshold=1024] - Payloads smaller than this many bytes are not compressed.
+ * @returns {string | Buffer | undefined} The encrypted string (or Buffer) or `undefined` if encryption fails.
+ * @throws {InvalidKeyError} If the key cannot be used, such as the default key in strict mode.
+ * @throws {TypeError} If `data` is not a string, bytes or an object.
  * 
  * @example
- * const encrypted = await encrypt("hello");
- * const customEncrypted = await encrypt("hello", { key: "myCustomKey" });
+ * const encrypted = encrypt("hello");
+ * const customEncrypted = encrypt("hello", { key: "myCustomKey" });
+ * const chacha = encrypt("hello", { key: "myCustomKey", algorithm: 'chacha20-poly1305' });
+ * const raw = encrypt(fs.readFileSync('photo.png'), { key: "myCustomKey", encoding: 'buffer' });
+ * const compact = encrypt(JSON.stringify(report), { key: "myCustomKey", compress: 'auto' });
  * 
  * @since 1.0.0
  * @category Encryption
  */
-export const encrypt: encryptType = (data: string, options: { firstRandomCharSet?: CharacterSetType, secondRandomCharSet?: CharacterSetType, key?: string } | undefined = undefined): string | undefined => {
-    try {
-        if (options === undefined)
-            options = {
-                firstRandomCharSet: 'defaultSet',
-                secondRandomCharSet: 'defaultSet',
-                key: 'qwertyuioplkjhgfdsazxcvbnm'
-            }
-        if (typeof data === 'object') return encryptObject(data, options.key)
-        data = data.trim()
-        let res: string = ''
-        const randomChars0: string = tokenGenerator(Math.floor(Math.random() * (5 + 15) + 1), options?.firstRandomCharSet as CharacterSetType),
-            randomChars1: string = tokenGenerator(Math.floor(Math.random() * (5 + 15) + 1), options?.secondRandomCharSet as CharacterSetType),
-            firsPart: string = String.fromCharCode(randomChars0.length + 85),
-            secondPart: string = String.fromCharCode(randomChars1.length + 85)
-        for (let i: number = 0; i < data.length; i++) {
-            const charCode: number = data[i].charCodeAt(0)
-            res += String.fromCharCode((charCode + 80) - 70)
-        }
-        let encrypted: string = firsPart + randomChars0 + res + randomChars1 + secondPart
-        encrypted = base64Encode(encrypted.split('').map(char => {
-            const DataCharCode: number = char.charCodeAt(0)
-            return String.fromCharCode((DataCharCode + 80) - 70)
-        }).join(''), options.key)
-        if (decrypt(encrypted, { key: options.key }) === data/*  && !/^(?:[^\\]*\\[^\\]*|[^\\]*\\\\[^\\]*)$/.test(encrypted) */) return encrypted
-        else {
-            encrypt(data, options)
+export const encrypt: encryptType = ((data: string | Uint8Array, options: EncryptOptions | undefined = undefined): string | Buffer | undefined => {
+    if (options === undefined)
+        options = {
+            firstRandomCharSet: 'defaultSet',
+            secondRandomCharSet: 'defaultSet',
+            key: DEFAULT_KEY
         }
-    } catch (err) {
-        throw new Error(`Error occurred during encoding: ${err}`)
+    if (typeof data === 'object' && !(data instanceof Uint8Array)) return encryptObject(data, options.key)
+    if (typeof data !== 'string' && !(data instanceof Uint8Array)) throw new TypeError(`Cannot encrypt a value of type ${typeof data}, pass a string, bytes or an object`)
+    if (options.version === 1) {
+        if (typeof data !== 'string') throw new TypeError('The legacy (v1) format only supports strings')
+        return legacyEncrypt(data, { ...options, key: encryptionKey(resolveKey(options.key)).key })
     }
+    const payload: Buffer = typeof data === 'string' ? Buffer.from(data, 'utf8') : Buffer.from(data.buffer, data.byteOffset, data.byteLength),
+        envelope: Buffer = sealPayload(payload, options.key, options.algorithm, undefined, undefined, options)
+    return options.encoding === 'buffer' ? envelope : envelope.toString(options.encoding || 'base64url')
+}) as encryptType
+
+/**
+ * Encrypts a string with the legacy (v1) character shifting format.
+ */
+const legacyEncrypt: (data: string, options: EncryptOptions) => string | undefined = (data: string, options: EncryptOptions): string | undefined => {
+    data = data.trim()
+    let res: string = ''
+    const randomChars0: string = tokenGenerator(Math.floor(Math.random() * (5 + 15) + 1), options?.firstRandomCharSet as CharacterSetType),
+        randomChars1: string = tokenGenerator(Math.floor(Math.random() * (5 + 15) + 1), options?.secondRandomCharSet as CharacterSetType),
+        firsPart: string = String.fromCharCode(randomChars0.length + 85),
+        secondPart: string = String.fromCharCode(randomChars1.length + 85)
+    for (let i: number = 0; i < data.length; i++) {
+        const charCode: number = data[i].charCodeAt(0)
+        res += String.fromCharCode((charCode + 80) - 70)
+    }
+    let encrypted: string = firsPart + randomChars0 + res + randomChars1 + secondPart
+    encrypted = base64Encode(encrypted.split('').map(char => {
+        const DataCharCode: number = char.charCodeAt(0)
+        return String.fromCharCode((DataCharCode + 80) - 70)
+    }).join(''), options.key)
+    if (legacyDecrypt(encrypted, options.key as SecretKey) === data/*  && !/^(?:[^\\]*\\[^\\]*|[^\\]*\\\\[^\\]*)$/.test(encrypted) */) return encrypted
+    else return legacyEncrypt(data, options)
 }
 
 /**
- * Decrypts a string that was encrypted using the `encrypt` function.
+ * Decrypts a ciphertext produced by `encrypt`.
+ *
+ * Versioned (v2) ciphertexts are authenticated, so a wrong key or any modification
+ * throws instead of returning garbage. They are accepted as Base64, Base64url, hex or
+ * raw bytes, and compressed payloads are inflated. Any other string is decoded as legacy (v1)
+ * data, unless `allowLegacy` is `false`: the legacy format is not authenticated and can be
+ * forged without the key.
  * 
- * @param {string} data - The encrypted string to decrypt.
- * @param {Object} [options] - Decryption options.
- * @param {string} [options.key] - Encryption key used during encryption.
- * @returns {Promise<string>} The decrypted original string.
- * @throws {Error} Throws if the decryption process encounters an issue.
+ * @param {string | Uint8Array} data - The encrypted string or raw ciphertext bytes.
+ * @param {DecryptOptions} [options] - Decryption options.
+ * @param {KeyInput} [options.key] - Encryption key string, key object or keyring used during encryption.
+ * @param {boolean} [options.allowLegacy=true] - Decode strings without an envelope as legacy (v1) data.
+ * @param {'utf8' | 'buffer'} [options.encoding='utf8'] - Return the plaintext as a string or as a Buffer.
+ * @returns {string | Buffer} The decrypted original string, or its bytes with `encoding: 'buffer'`.
+ * @throws {IntegrityError} If the key is wrong or the ciphertext was tampered with.
+ * @throws {MalformedCiphertextError} If the input is not a ciphertext, or is truncated, or is not
+ * an envelope and `allowLegacy` is `false`.
+ * @throws {UnsupportedVersionError} If the ciphertext was written in a newer format version.
+ * @throws {InvalidKeyError} If the key cannot be used, such as a key ID missing from the keyring.
+ * @throws {TypeError} If `data` is not a string or bytes.
  * 
  * @example
- * const decrypted = await decrypt(encryptedString);
- * const customDecrypted = await decrypt(encryptedString, { key: "myCustomKey" });
+ * const decrypted = decrypt(encryptedString);
+ * const customDecrypted = decrypt(encryptedString, { key: "myCustomKey" });
+ * const untrusted = decrypt(requestValue, { key: "myCustomKey", allowLegacy: false });
+ * const bytes = decrypt(rawCiphertext, { key: "myCustomKey", encoding: 'buffer' });
  * 
  * @since 1.0.0
  * @category Decryption
  */
-export const decrypt: decryptType = (data: string, options: { key?: string } | undefined = undefined): string => {
-    try {
-        if (typeof data === 'undefined') return data
-        if (options === undefined) options = { key: 'qwertyuioplkjhgfdsazxcvbnm' }
-        data = base64Decode(data?.trim(), options.hasOwnProperty('key') ? options.key as string : 'secretKey')?.split('')?.map(char => {
-            const DataCharCode: number = char.charCodeAt(0)
-            return String.fromCharCode((DataCharCode - 80) + 70)
-        }).join('')
-        let res: string = ''
-        const firsPart: number = data[0].charCodeAt(0) - 85,
-            secondPart: number = data.slice(-1).charCodeAt(0) - 85
-        for (let i: number = firsPart + 1; i < data.length; i++) {
-            const charCode: number = data[i].charCodeAt(0),
-                length: number = data.slice(i, data.length - 1).length
-            if (length !== secondPart) res += String.fromCharCode((charCode - 80) + 70)
-            else break
+export const decrypt: decryptType = ((data: string | Uint8Array, options: DecryptOptions | undefined = undefined): string | Buffer => {
+    if (typeof data === 'undefined') return data
+    if (typeof data !== 'string' && !(data instanceof Uint8Array)) throw new TypeError(`Cannot decrypt a value of type ${data === null ? 'null' : typeof data}, pass a string or bytes`)
+    if (options === undefined) options = { key: DEFAULT_KEY }
+    const bytes: Buffer | null = envelopeBytes(typeof data === 'string' ? data.trim() : data)
+    if (bytes === null) {
+        if (typeof data !== 'string') throw new MalformedCiphertextError('Malformed ciphertext: missing envelope header')
+        if (options.allowLegacy === false) throw new MalformedCiphertextError('Malformed ciphertext: missing envelope header, legacy (v1) decoding is disabled')
+        const key: SecretKey = decryptionKey(resolveKey(options.key, options.hasOwnProperty('key') ? DEFAULT_KEY : 'secretKey'))
+        let res: string
+        try {
+            res = legacyDecrypt(data, key)
+        } catch {
+            throw new MalformedCiphertextError('Malformed ciphertext: neither a versioned nor a legacy ciphertext')
         }
-        return res
-    } catch (err) {
-        throw new Error(`Error occurred during decoding: ${err}`)
+        return options.encoding === 'buffer' ? Buffer.from(res, 'utf8') : res
     }
-}
+    const { plaintext } = openPayload(bytes, options.key)
+    return options.encoding === 'buffer' ? plaintext : plaintext.toString('utf8')
+}) as decryptType
+
+/**
+ * Decrypts a string in the legacy (v1) character shifting format.
+ */
+const legacyDecrypt: (data: string, key: SecretKey) => string = (data: string, key: SecretKey): string =>
+    decodeLegacy(data, legacyKeyString(key))
 
 /**
  * Encodes a string using a custom Base64 algorithm with added character shifting.
  * 
  * @param {string} data - The string to encode.
- * @param {string} [key='qwertyuioplkjhgfdsazxcvbnm'] - Key for influencing the encoding process.
+ * @param {KeyInput} [key='qwertyuioplkjhgfdsazxcvbnm'] - Key string or key object influencing the encoding process.
  * @returns {string} The encoded string.
  * @throws {Error} Throws if encoding fails.
  * 
@@ -107,30 +212,14 @@ export const decrypt: decryptType = (data: string, options: { key?: string } | u
  * @since 1.0.5
  * @category Encoding
  */
-export const base64Encode: base64EncodeType = (data: string, key: string = 'qwertyuioplkjhgfdsazxcvbnm'): string => {
-    const shiftChar: (char: string, shift: number) => string = (char: string, shift: number): string => {
-        const code: number = char.charCodeAt(0)
-        return String.fromCharCode(code + shift)
-    },
-        keySum: number = key.split('').reduce((acc, char): number => acc + char.charCodeAt(0), 0),
-        shifted: string = data
-            .split('')
-            .map((char, index): string => shiftChar(char, (keySum + index) % 20))
-            .join(''),
-        step1: string = Buffer.from(shifted).toString('base64'),
-        step2: string = Buffer.from(step1).toString('base64'),
-        finalMix: string = step2
-            .split('')
-            .map((char, index): string => shiftChar(char, index % 5))
-            .join('')
-    return finalMix
-}
+export const base64Encode: base64EncodeType = (data: string, key: KeyInput = DEFAULT_KEY): string =>
+    legacyBase64Encode(data, legacyKeyString(encryptionKey(resolveKey(key)).key))
 
 /**
  * Decodes a string encoded by `base64Encode` back to its original form.
  * 
  * @param {string} encryptedData - The string to decode.
- * @param {string} [key='qwertyuioplkjhgfdsazxcvbnm'] - The key used during encoding.
+ * @param {KeyInput} [key='qwertyuioplkjhgfdsazxcvbnm'] - The key string or key object used during encoding.
  * @returns {string} The decoded string.
  * @throws {Error} Throws if decoding fails.
  * 
@@ -141,33 +230,24 @@ export const base64Encode: base64EncodeType = (data: string, key: string = 'qwer
  * @since 1.0.5
  * @category Decoding
  */
-export const base64Decode: base64DecodeType = (encryptedData: string, key: string | undefined = 'qwertyuioplkjhgfdsazxcvbnm'): string => {
-    if (key === undefined) key = 'qwertyuioplkjhgfdsazxcvbnm'
-    const unshiftChar: (char: string, shift: number) => string = (char: string, shift: number): string => {
-        const code: number = char.charCodeAt(0)
-        return String.fromCharCode(code - shift)
-    },
-        keySum: number = key.split('').reduce((acc, char): number => acc + char.charCodeAt(0), 0),
-        unmixed: string = encryptedData
-            .split('')
-            .map((char, index): string => unshiftChar(char, index % 5))
-            .join(''),
-        step1: string = Buffer.from(unmixed, 'base64').toString(),
-        step2: string = Buffer.from(step1, 'base64').toString(),
-        final: string = step2
-            .split('')
-            .map((char, index): string => unshiftChar(char, (keySum + index) % 20))
-            .join('')
-    return final
-}
+export const base64Decode: base64DecodeType = (encryptedData: string, key: KeyInput | undefined = DEFAULT_KEY): string =>
+    legacyBase64Decode(encryptedData, legacyKeyString(decryptionKey(resolveKey(key))))
 
 /**
  * Compares a plain text string with an encrypted string for equality.
+ *
+ * Not meant for passwords: encrypted values can be reversed with the key.
+ * Store passwords with `hashPassword` and check them with `verifyPassword`.
  * 
  * @param {string} text - The plain text string.
  * @param {string} encrypted - The encrypted string to compare.
  * @param {IsEqualOptions} [options] - Comparison options (e.g., case sensitivity).
  * @returns {Promise<{ isEqual: boolean; method?: string }>} Indicates if the strings match and the method used.
+ * Values that are not ciphertexts are compared as they are.
+ * @throws {InvalidKeyError} In strict mode if no key is given, or if the key cannot be used.
+ * @throws {IntegrityError} If a value is a ciphertext that the key does not open: a wrong key
+ * no longer looks like a mismatch.
+ * @throws {TypeError} If a value is not a string.
  * 
  * @example
  * const match = await isEqual("hello", encryptedString);
@@ -177,148 +257,486 @@ export const base64Decode: base64DecodeType = (encryptedData: string, key: strin
  * @category Comparison
  */
 export const isEqual: isEqualType = (text: string, text1: string, options?: IsEqualOptions | undefined): { isEqual: boolean; method?: string } => {
-    try {
-        if (typeof text === 'undefined') return { isEqual: false, method: "Undefined" }
-        if (typeof text1 === 'undefined') return { isEqual: false, method: "Undefined" }
-        let Text: string = text,
-            Text1: string = text1,
-            logMessage: string = ''
-        options = options || { caseSensitive: true }
-
-        const key: string | undefined = options.key || undefined,
-            isCaseSensitive: "toLowerCase" | "toString" = !options.caseSensitive ? "toLowerCase" : "toString",
-            logMatch: (method: string, details: any) => void = (method: string, details: any): void => options?.log ? console.log(`✅ Eşleşme bulundu ${method}:`, details) : undefined
-
-        if (Text === Text1 || Text[isCaseSensitive]() === Text1 || Text === Text1[isCaseSensitive]() || Text[isCaseSensitive]() === Text1[isCaseSensitive]()) {
-            logMessage = "Direct comparison"
-            logMatch(logMessage, { Text: Text[isCaseSensitive](), Text1 })
-            return { isEqual: true, method: logMessage }
+    resolveKey(options?.key)
+    if (typeof text === 'undefined') return { isEqual: false, method: "Undefined" }
+    if (typeof text1 === 'undefined') return { isEqual: false, method: "Undefined" }
+    if (typeof text !== 'string' || typeof text1 !== 'string') throw new TypeError('isEqual compares strings')
+    let Text: string = text,
+        Text1: string = text1,
+        logMessage: string = ''
+    options = options || { caseSensitive: true }
+
+    const key: KeyInput | undefined = options.key || undefined,
+        isCaseSensitive: "toLowerCase" | "toString" = !options.caseSensitive ? "toLowerCase" : "toString",
+        logMatch: (method: string) => void = (method: string): void => options?.log ? logger().debug(`isEqual: match found (${method})`) : undefined,
+        decryptOrKeep: (value: string) => string = (value: string): string => {
+            try {
+                return decrypt(value, { key })
+            } catch (err) {
+                if (err instanceof MalformedCiphertextError) return value
+                throw err
+            }
         }
 
-        let decryptedText: string | null = null,
-            decryptedText1: string | null = null
+    if (Text === Text1 || Text[isCaseSensitive]() === Text1 || Text === Text1[isCaseSensitive]() || Text[isCaseSensitive]() === Text1[isCaseSensitive]()) {
+        logMessage = "Direct comparison"
+        logMatch(logMessage)
+        return { isEqual: true, method: logMessage }
+    }
 
-        try {
-            decryptedText = decrypt(Text, { key })
-        } catch (error) {
-            decryptedText = Text
-        }
+    const decryptedText: string = decryptOrKeep(Text),
+        decryptedText1: string = decryptOrKeep(Text1)
+    if (decryptedText1 === Text || decryptedText1[isCaseSensitive]() === Text || decryptedText1 === Text[isCaseSensitive]() || decryptedText1[isCaseSensitive]() === Text[isCaseSensitive]()) {
+        logMessage = 'Decrypted Text1 matched Text'
+        logMatch(logMessage)
+        return { isEqual: true, method: logMessage }
+    }
 
-        try {
-            decryptedText1 = decrypt(Text1, { key })
-        } catch (error) {
-            decryptedText1 = Text1
-        }
-        if (decryptedText1 === Text || decryptedText1[isCaseSensitive]() === Text || decryptedText1 === Text[isCaseSensitive]() || decryptedText1[isCaseSensitive]() === Text[isCaseSensitive]()) {
-            logMessage = 'Decrypted Text1 matched Text'
-            logMatch(logMessage, { decryptedText1, Text })
-            return { isEqual: true, method: logMessage }
-        }
+    if (decryptedText === Text1 || decryptedText[isCaseSensitive]() === Text1) {
+        logMessage = "Decrypted Text matches Text1"
+        logMatch(logMessage)
+        return { isEqual: true, method: logMessage }
+    }
 
-        if (decryptedText === Text1 || decryptedText[isCaseSensitive]() === Text1) {
-            logMessage = "Decrypted Text matches Text1"
-            logMatch(logMessage, { decryptedText, Text1 })
-            return { isEqual: true, method: logMessage }
-        }
+    if (decryptedText1 === decryptedText || decryptedText1[isCaseSensitive]() === decryptedText || decryptedText1 === decryptedText[isCaseSensitive]()) {
+        logMessage = "Both decrypted values ​​match"
+        logMatch(logMessage)
+        return { isEqual: true, method: logMessage }
+    }
 
-        if (decryptedText1 === decryptedText || decryptedText1[isCaseSensitive]() === decryptedText || decryptedText1 === decryptedText[isCaseSensitive]()) {
-            logMessage = "Both decrypted values ​​match"
-            logMatch(logMessage, { decryptedText1, decryptedText })
-            return { isEqual: true, method: logMessage }
-        }
+    if (options.log) logger().debug('isEqual: no match found')
+    return { isEqual: false }
+}
+
+const PASSWORD_HASH_DEFAULTS: Required<HashPasswordOptions> = { cost: 2 ** 15, blockSize: 8, parallelization: 1, saltLength: 16, keyLength: 32 }
+
+const MIN_PASSWORD_SALT_LENGTH: number = 8,
+    MIN_PASSWORD_KEY_LENGTH: number = 16
+
+/**
+ * Parses a `$scrypt$ln=..,r=..,p=..$salt$hash` string, or returns `null` if it is not one.
+ * Degenerate hashes are refused too: a zero-length derived key would match every password,
+ * so salt and hash must have a minimum length and the cost stays within `hashPassword`'s limits.
+ */
+const parsePasswordHash = (hash: string): { ln: number, r: number, p: number, salt: Buffer, derived: Buffer } | null => {
+    const match: RegExpMatchArray | null = typeof hash === 'string' ? hash.match(/^\$scrypt\$ln=(\d{1,2}),r=(\d{1,3}),p=(\d{1,3})\$([A-Za-z0-9+/]+)\$([A-Za-z0-9+/]+)$/) : null
+    if (match === null) return null
+    const parsed = { ln: Number(match[1]), r: Number(match[2]), p: Number(match[3]), salt: Buffer.from(match[4], 'base64'), derived: Buffer.from(match[5], 'base64') }
+    if (parsed.ln < 1 || parsed.ln > 31 || parsed.r < 1 || parsed.p < 1) return null
+    if (parsed.salt.length < MIN_PASSWORD_SALT_LENGTH || parsed.derived.length < MIN_PASSWORD_KEY_LENGTH) return null
+    return parsed
+}
+
+/**
+ * Hashes a password with scrypt for storage.
+ *
+ * Unlike `encrypt`, the result cannot be reversed, even with the key. The salt and the cost
+ * parameters are encoded into the result in a PHC-style string, for example
+ * `$scrypt$ln=15,r=8,p=1$<salt>$<hash>`, so `verifyPassword` and `needsRehash` need nothing else.
+ *
+ * @param {string} password - The password to hash.
+ * @param {HashPasswordOptions} [options] - scrypt cost parameters and salt / hash lengths.
+ * @returns {string} The encoded password hash.
+ * @throws {Error} If the password is not a string or the cost is not a power of two.
+ *
+ * @example
+ * const stored = hashPassword('correct horse battery staple')
+ * verifyPassword('correct horse battery staple', stored) // true
+ *
+ * @since 1.1.0
+ * @category Password
+ * @public
+ */
+export const hashPassword: hashPasswordType = (password: string, options: HashPasswordOptions = {}): string => {
+    if (typeof password !== 'string') throw new Error('Password must be a string')
+    const { cost, blockSize, parallelization, saltLength, keyLength } = { ...PASSWORD_HASH_DEFAULTS, ...options },
+        ln: number = Math.log2(cost)
+    if (!Number.isInteger(ln) || ln < 1 || ln > 31) throw new Error('Cost must be a power of two')
+    const salt: Buffer = randomBytes(saltLength),
+        derived: Buffer = scryptSync(password.normalize('NFC'), salt, keyLength, { N: cost, r: blockSize, p: parallelization, maxmem: 256 * cost * blockSize })
+    return `$scrypt$ln=${ln},r=${blockSize},p=${parallelization}$${salt.toString('base64').replace(/=+$/, '')}$${derived.toString('base64').replace(/=+$/, '')}`
+}
+
+/**
+ * Checks a password against a hash produced by `hashPassword`.
+ * The derived hashes are compared in constant time with `timingSafeEqual`.
+ *
+ * @param {string} password - The password to check.
+ * @param {string} hash - The stored password hash.
+ * @returns {boolean} `true` if the password matches.
+ * @throws {Error} If the stored hash is not a valid scrypt password hash.
+ *
+ * @example
+ * if (!verifyPassword(req.body.password, user.passwordHash)) throw new Error('Invalid credentials')
+ *
+ * @since 1.1.0
+ * @category Password
+ * @public
+ */
+export const verifyPassword: verifyPasswordType = (password: string, hash: string): boolean => {
+    const parsed = parsePasswordHash(hash)
+    if (parsed === null) throw new Error('Malformed password hash')
+    if (typeof password !== 'string') return false
+    const N: number = 2 ** parsed.ln,
+        derived: Buffer = scryptSync(password.normalize('NFC'), parsed.salt, parsed.derived.length, { N, r: parsed.r, p: parsed.p, maxmem: 256 * N * parsed.r })
+    return timingSafeEqual(derived, parsed.derived)
+}
+
+/**
+ * Reports whether a stored password hash was created with other parameters than the given
+ * (or default) ones, so it should be replaced by a fresh `hashPassword` after the next successful login.
+ *
+ * @param {string} hash - The stored password hash.
+ * @param {HashPasswordOptions} [options] - The current cost parameters.
+ * @returns {boolean} `true` if the hash should be recomputed.
+ *
+ * @example
+ * if (verifyPassword(password, user.passwordHash) && needsRehash(user.passwordHash, { cost: 2 ** 16 }))
+ *     user.passwordHash = hashPassword(password, { cost: 2 ** 16 })
+ *
+ * @since 1.1.0
+ * @category Password
+ * @public
+ */
+export const needsRehash: needsRehashType = (hash: string, options: HashPasswordOptions = {}): boolean => {
+    const parsed = parsePasswordHash(hash),
+        target: Required<HashPasswordOptions> = { ...PASSWORD_HASH_DEFAULTS, ...options }
+    if (parsed === null) return true
+    return 2 ** parsed.ln !== target.cost || parsed.r !== target.blockSize || parsed.p !== target.parallelization ||
+        parsed.salt.length !== target.saltLength || parsed.derived.length !== target.keyLength
+}
+
+/**
+ * Computes a blind index of a value: a keyed HMAC-SHA256 that is the same for equal values,
+ * so encrypted fields can be searched by exact match (`WHERE email_bidx = ?`) without storing
+ * or revealing the plaintext.
+ *
+ * The HMAC key is derived from `indexKey` for blind indexes only (and per `context`), so the
+ * encryption key can be reused, although a separate index key is recommended. With a keyring
+ * the active key is used, and rotating it requires recomputing the stored indexes. A blind index
+ * reveals which records share a value: use `length` to truncate it (more false positives to
+ * filter after decryption, less linkability) and `context` to keep indexes of different fields apart.
+ *
+ * @param {string | number | bigint | boolean | Date} value - The value to index.
+ * @param {KeyInput} indexKey - Index key string, key object or keyring.
+ * @param {BlindIndexOptions} [options] - Normalization, context and length.
+ * @param {boolean | ((value: string) => string)} [options.normalize=false] - `true` trims, lower-cases and NFKC-normalizes the value, or pass a function.
+ * @param {string} [options.context=''] - Domain separation, such as the column name.
+ * @param {number} [options.length=32] - HMAC bytes to keep, between 8 and 32.
+ * @returns {string} The Base64URL-encoded index.
+ * @throws {Error} If the value is `null`/`undefined` or the length is invalid.
+ *
+ * @example
+ * const emailIndex = blindIndex(user.email, process.env.INDEX_KEY as string, { normalize: true, context: 'email' })
+ * db.query('SELECT * FROM users WHERE email_bidx = ?', [emailIndex])
+ *
+ * @since 1.1.0
+ * @category Encryption
+ * @public
+ */
+export const blindIndex: blindIndexType = (value: string | number | bigint | boolean | Date, indexKey: KeyInput, options: BlindIndexOptions = {}): string => {
+    if (value === null || value === undefined) throw new Error('Cannot compute a blind index of an empty value')
+    const length: number = options.length ?? 32
+    if (!Number.isInteger(length) || length < 8 || length > 32) throw new Error('Blind index length must be between 8 and 32 bytes')
+    let text: string = value instanceof Date ? value.toISOString() : String(value)
+    if (options.normalize === true) text = text.normalize('NFKC').trim().toLowerCase()
+    else if (typeof options.normalize === 'function') text = options.normalize(text)
+    const { key } = encryptionKey(resolveKey(indexKey)),
+        hmacKey: Buffer = messageKey(masterKey(key), Buffer.alloc(0), `blind-index:${options.context ?? ''}`)
+    return createHmac('sha256', hmacKey).update(text, 'utf8').digest().subarray(0, length).toString('base64url')
+}
+
+const DEFAULT_BLIND_INDEX_SUFFIX: string = '_bidx'
+
+export const encryptLeaf = (value: unknown, key: KeyInput, aad?: Buffer, compression?: CompressionOptions): unknown => {
+    const leaf = leafPayload(value)
+    return leaf === null ? value : sealPayload(Buffer.from(leaf.payload), key, undefined, leaf.ty, aad, compression).toString('base64url')
+}
+
+export const decryptLeaf = (value: unknown, key: KeyInput, aad?: Buffer, allowLegacy?: boolean): unknown => {
+    if (typeof value !== 'string') return value
+    const bytes: Buffer | null = envelopeBytes(value.trim())
+    if (bytes === null) {
+        if (aad !== undefined) throw new IntegrityError('Authentication failed: the ciphertext is not bound to its field path')
+        return decrypt(value, { key, allowLegacy })
+    }
+    const { header, plaintext } = openPayload(bytes, key, aad)
+    return leafValue(plaintext, header.ty)
+}
 
-        if (options.log) console.log("❌ No matches found:", { Text, Text1, decryptedText1, decryptedText })
-        return { isEqual: false }
+/**
+ * Checks whether a value is a plain object (an object literal or `Object.create(null)`),
+ * as opposed to arrays and class instances.
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+    if (typeof value !== 'object' || value === null) return false
+    const proto: unknown = Object.getPrototypeOf(value)
+    return proto === Object.prototype || proto === null
+}
 
-    } catch (err) {
-        console.error("isEqual function error:", err)
-        return { isEqual: false }
+/**
+ * Rebuilds a document, applying `apply` to every selected leaf. Arrays and plain objects on the
+ * way to selected fields are copied; class instances (such as database IDs) and other values are
+ * neither rebuilt nor encrypted, they are passed through as the same instance.
+ */
+export const mapFields = (value: unknown, path: string[], selection: FieldSelection, apply: (leaf: unknown, path: string[]) => unknown): unknown => {
+    if (!selection.reaches(path)) return value
+    if (Array.isArray(value)) return value.map((item: unknown, i: number): unknown => mapFields(item, [...path, `[${i}]`], selection, apply))
+    if (isPlainObject(value)) {
+        const res: Record<string, unknown> = {}
+        for (const [k, v] of Object.entries(value))
+            res[k] = mapFields(v, [...path, k], selection, apply)
+        return res
     }
+    if (typeof value === 'object' && value !== null && leafPayload(value) === null) return value
+    return selection.selects(path) ? apply(value, path) : value
+}
+
+/**
+ * Paths of the blind index companions of `options.blindIndex.fields`.
+ */
+const blindIndexPaths = (options: BlindIndexFieldOptions): string[] =>
+    options.fields.map((field: string): string => {
+        if (parsePath(field).pop()?.startsWith('[')) throw new Error(`Blind indexes can only be added to object properties: "${field}"`)
+        return `${field}${options.suffix ?? DEFAULT_BLIND_INDEX_SUFFIX}`
+    })
+
+/**
+ * Builds the field selection of an object function. The companions of `options.blindIndex.fields`
+ * are never encrypted, decrypted or covered by the MAC; other properties ending with the suffix
+ * are ordinary fields.
+ */
+export const objectSelection = (options: ObjectCryptOptions): FieldSelection =>
+    fieldSelection(options.blindIndex === undefined ? options : { ...options, exclude: [...(options.exclude ?? []), ...blindIndexPaths(options.blindIndex)] })
+
+const isIndexable = (value: unknown): value is string | number | bigint | boolean | Date =>
+    ['string', 'number', 'bigint', 'boolean'].includes(typeof value) || value instanceof Date
+
+/**
+ * Whether `encryptObject` encrypts a value (see `leafPayload`), other values are kept as they are.
+ */
+export const isLeaf = (value: unknown): boolean => isIndexable(value) || value instanceof Uint8Array
+
+/**
+ * Adds a `<field>_bidx` blind index next to every selected value of the plaintext document
+ * to its encrypted copy.
+ */
+const addBlindIndexes = (plain: unknown, encrypted: unknown, path: string[], selection: FieldSelection, options: BlindIndexFieldOptions): unknown => {
+    if (!selection.reaches(path)) return encrypted
+    if (Array.isArray(plain) && Array.isArray(encrypted))
+        return plain.map((item: unknown, i: number): unknown => addBlindIndexes(item, encrypted[i], [...path, `[${i}]`], selection, options))
+    if (!isPlainObject(plain) || !isPlainObject(encrypted)) return encrypted
+    const res: Record<string, unknown> = { ...encrypted }
+    for (const [k, v] of Object.entries(plain)) {
+        res[k] = addBlindIndexes(v, encrypted[k], [...path, k], selection, options)
+        if (selection.selects([...path, k]) && isIndexable(v)) res[`${k}${options.suffix ?? DEFAULT_BLIND_INDEX_SUFFIX}`] = blindIndex(v, options.key, options)
+    }
+    return res
+}
+
+/**
+ * Returns the associated data binding a field's ciphertext to its concrete path (such as
+ * `cards[1].number`) and the document ID, or `undefined` if binding is not enabled.
+ */
+export const fieldAad = (path: string[], options: ObjectCryptOptions): Buffer | undefined => {
+    const binding: string | undefined = fieldBinding(path, options)
+    return binding === undefined ? undefined : Buffer.from(binding, 'utf8')
+}
+
+/**
+ * Computes the object MAC: an HMAC-SHA256 over the document ID and every selected field
+ * (path and stored value), so swapped, removed or added fields change it.
+ */
+const objectMac = (data: Record<string, any>, selection: FieldSelection, key: SecretKey, header: MacHeader, documentId?: string): string => {
+    const entries: string[] = []
+    mapFields(data, [], selection, (leaf: unknown, path: string[]): unknown => {
+        entries.push(macEntry(path, leaf))
+        return leaf
+    })
+    const { encodedHeader, message } = macMessage(header, entries, documentId),
+        macKey: Buffer = messageKey(masterKey(key, header.kdf), Buffer.from(header.s, 'base64url'), 'mac:HS256'),
+        tag: Buffer = createHmac('sha256', macKey).update(message).digest()
+    return `${encodedHeader}.${tag.toString('base64url')}`
+}
+
+/**
+ * Adds the object MAC of an encrypted document under `options.macField`.
+ */
+const sealObject = (data: Record<string, any>, key: KeyInput, selection: FieldSelection, options: ObjectCryptOptions): Record<string, any> => {
+    const { key: secret, kid } = encryptionKey(resolveKey(key))
+    return { ...data, [options.macField ?? DEFAULT_MAC_FIELD]: objectMac(data, selection, secret, { kid, s: randomBytes(16).toString('base64url'), kdf: kdfParams(secret) }, options.documentId) }
 }
 
 /**
- * Encrypts all values in an object.
+ * Verifies and strips the object MAC of an encrypted document.
+ */
+export const openObject = (data: Record<string, any>, key: KeyInput, selection: FieldSelection, options: ObjectCryptOptions): Record<string, any> => {
+    const { mac, header, rest } = readObjectMac(data, options.macField)
+    checkObjectMac(mac, objectMac(rest, selection, decryptionKey(resolveKey(key), header.kid), header, options.documentId))
+    return rest
+}
+
+/**
+ * Encrypts the values of an object, including values in nested objects and arrays.
+ *
+ * Strings, numbers, booleans, bigints, Dates and byte arrays are each encrypted separately and
+ * their JS type is recorded in the (authenticated) envelope header, so `decryptObject` restores
+ * them exactly. `null` and `undefined` carry no data and are kept as they are.
+ *
+ * By default every value is encrypted. Pass `include` paths (or a `schema`) to encrypt only
+ * those fields, and `exclude` paths to keep fields readable, so IDs, timestamps and foreign
+ * keys stay queryable. Paths use dots for keys and `[*]` (or `[0]`) for array elements;
+ * `*` matches any key. A selected object or array is encrypted as a whole.
  *
- * @template T - An object type where keys are strings, and values are strings.
+ * Each value is a separate ciphertext, so by default one could be moved to another field or
+ * document. `bind` (or a `documentId`) binds every ciphertext to its concrete path and the
+ * document ID as associated data, and `mac` adds a MAC over all selected fields under `macField`,
+ * so swapped, removed or added fields make `decryptObject` throw. `compress` compresses large
+ * values (such as long text or byte arrays) before encryption; to encrypt a whole document as
+ * one compact ciphertext, use `encryptDocument`. Each value is compressed on its own, so the
+ * length of one value only depends on that value, see `CompressionOptions` for what that leaks.
+ *
+ * @template T - The object type.
  * @param {T} data - The object containing values to be encrypted.
- * @param {string} [key='qwertyuioplkjhgfdsazxcvbnm'] - The encryption key to use.
- * @returns {T} A new object with encrypted values.
- * @throws {Error} If encryption fails for any value.
+ * @param {KeyInput} [key='qwertyuioplkjhgfdsazxcvbnm'] - The encryption key string, key object or keyring to use.
+ * @param {ObjectCryptOptions} [options] - Which fields to encrypt and how to bind them.
+ * @param {string[]} [options.include] - Paths of the fields to encrypt, all fields if omitted.
+ * @param {string[]} [options.exclude] - Paths of the fields to leave untouched.
+ * @param {EncryptionSchema} [options.schema] - Fields to encrypt, as an object marking them `true`.
+ * @param {boolean} [options.bind=false] - Bind each ciphertext to its field path.
+ * @param {string} [options.documentId] - Bind each ciphertext (and the MAC) to this document ID, implies `bind`.
+ * @param {boolean} [options.mac=false] - Add a MAC covering every selected field.
+ * @param {string} [options.macField='_mac'] - Property the MAC is stored in.
+ * @param {CompressionMode} [options.compress] - Compress values before encryption: `'deflate'`, `'brotli'` or `'auto'`.
+ * @param {number} [options.compressThreshold=1024] - Values smaller than this many bytes are not compressed.
+ * @returns {Encrypted<T>} A new object with the same shape and encrypted values.
+ * @throws {Error} If encryption fails for any value or a path is invalid.
  *
  * @example
- * const data = { username: 'JohnDoe', password: '12345' };
- * const encryptedData = encryptObject(data, 'my-secret-key');
+ * const data = { username: 'JohnDoe', age: 30, admin: true, createdAt: new Date() };
+ * const encryptedData = encryptObject(data, 'my-secret-key'); // every value is now a string
+ * const partial = encryptObject(order, key, { include: ['user.ssn', 'cards[*].number'] });
+ * const sameThing = encryptObject(order, key, { schema: { user: { ssn: true }, cards: [{ number: true }] } });
+ * const bound = encryptObject(user, key, { documentId: user.id, mac: true });
  *
  * @since 1.0.7
  * @category Encryption
  * @public
  */
-export const encryptObject: cryptObject = <T extends Record<string, any>>(data: T, key: string = 'qwertyuioplkjhgfdsazxcvbnm'): T => {
-    const encryptedData: T = {} as T
-    if (data == null) return data
-    for (const [k, v] of Object.entries(data == null ? {} : data)) {
-        if (typeof v == 'string' || typeof v == 'number' || typeof v == 'boolean' || typeof v == 'undefined')
-            (encryptedData[k] as keyof T) = encrypt(String(v).toString().trim(), { key }) as string
-        else if (Array.isArray(v)) {
-            const encryptedArray: any[] = v.map(item => {
-                console.log(item)
-                if (typeof item === 'string' || typeof item == 'number') return encrypt(String(item), { key })
-                if (Array.isArray(item)) return item.map(subItem =>
-                    typeof subItem === 'string' || typeof subItem === 'number' ? encrypt(String(subItem), { key }) :
-                        Array.isArray(subItem) ? encryptObject({ arr: subItem }, key).arr :
-                            typeof subItem === 'object' ? encryptObject(subItem, key) : subItem
-                )
-                if (typeof item === 'object' && item !== null) return encryptObject(item, key)
-                return item
-            })
-                ; (encryptedData[k] as keyof T) = encryptedArray as any
-        }
-        else if (typeof v == 'object')
-            (encryptedData[k] as keyof T) = encryptObject(v, key)
-        else (encryptedData[k] as keyof T) = v
-    }
-    return encryptedData
+export const encryptObject: encryptObjectType = (<T extends Record<string, any>>(data: T, key: KeyInput = DEFAULT_KEY, options: ObjectCryptOptions = {}): Encrypted<T> => {
+    if (data == null) return data as Encrypted<T>
+    const selection: FieldSelection = objectSelection(options),
+        encryptedData: Record<string, any> = mapFields(data, [], selection, (leaf: unknown, path: string[]): unknown => encryptLeaf(leaf, key, fieldAad(path, options), options)) as Record<string, any>
+    return completeObject(data, encryptedData, key, selection, options) as Encrypted<T>
+}) as encryptObjectType
+
+/**
+ * Adds the object MAC and the blind indexes requested by `options` to the encrypted copy of `data`.
+ */
+export const completeObject = (data: Record<string, any>, encryptedData: Record<string, any>, key: KeyInput, selection: FieldSelection, options: ObjectCryptOptions): Record<string, any> => {
+    const sealed: Record<string, any> = options.mac ? sealObject(encryptedData, key, selection, options) : encryptedData
+    return (options.blindIndex ? addBlindIndexes(data, sealed, [], fieldSelection({ include: options.blindIndex.fields }), options.blindIndex) : sealed) as Record<string, any>
 }
 
 /**
- * Decrypts all values in an object.
+ * Decrypts the values of an object produced by `encryptObject`, restoring their original types.
+ *
+ * Pass the same `include`/`exclude`/`schema` options that were used for encryption, so
+ * fields that were left readable are not decrypted, and the same `bind`, `documentId`, `mac`
+ * and `macField` options. With `mac` the whole object is verified before anything is decrypted. Values encrypted by earlier versions
+ * (or with `encrypt`) carry no type and are returned as strings.
  *
- * @template T - An object type where keys are strings, and values are encrypted strings.
- * @param {T} data - The object containing values to be decrypted.
- * @param {string} [key='qwertyuioplkjhgfdsazxcvbnm'] - The decryption key to use.
- * @returns {T} A new object with decrypted values.
- * @throws {Error} If decryption fails for any value.
+ * @template T - The type of the original object.
+ * @param {Encrypted<T>} data - The object containing values to be decrypted.
+ * @param {KeyInput} [key='qwertyuioplkjhgfdsazxcvbnm'] - The decryption key string, key object or keyring to use.
+ * @param {ObjectCryptOptions} [options] - Which fields were encrypted and how they are bound.
+ * @param {boolean} [options.allowLegacy=true] - Decrypt unbound values without an envelope as legacy (v1) data.
+ * @returns {T} A new object with decrypted values (without the MAC property).
+ * @throws {IntegrityError} If a value does not authenticate, a field was moved to another path
+ * or document, or the object MAC does not match.
+ * @throws {MalformedCiphertextError} If `allowLegacy` is `false` and an unbound value is not an envelope.
+ * @throws {Error} If a path is invalid.
  *
  * @example
- * const encryptedData = { username: 'abc123', password: 'def456' };
- * const decryptedData = decryptObject(encryptedData, 'my-secret-key');
+ * const decryptedData = decryptObject<User>(encryptedData, 'my-secret-key');
+ * decryptedData.age // 30, a number again
+ * const order = decryptObject<Order>(partial, key, { include: ['user.ssn', 'cards[*].number'] });
  *
  * @since 1.0.7
  * @category Decryption
  * @public
  */
-export const decryptObject: cryptObject = <T extends Record<string, any>>(data: T, key: string = 'qwertyuioplkjhgfdsazxcvbnm'): T => {
-    const decryptedData = {} as T
-    if (data == null) return data
-    for (const [k, v] of Object.entries(data == null ? {} : data)) {
-        if (typeof v == 'string')
-            (decryptedData[k] as keyof T) = decrypt(String(v).toString().trim(), { key }) as string
-        else if (Array.isArray(v)) {
-            const decryptedArray: any[] = v.map(item => {
-                if (typeof item === 'string') return decrypt(item, { key })
-                if (Array.isArray(item)) return item.map(subItem =>
-                    typeof subItem === 'string' ? decrypt(subItem, { key }) :
-                        Array.isArray(subItem) ? decryptObject({ arr: subItem }, key).arr :
-                            typeof subItem === 'object' ? decryptObject(subItem, key) : subItem
-                )
-                if (typeof item === 'object') return decryptObject(item, key)
-                return item
-            })
-                ; (decryptedData[k] as keyof T) = decryptedArray as any
-        }
-        else if (typeof v == 'object')
-            (decryptedData[k] as keyof T) = decryptObject(v, key)
-        else (decryptedData[k] as keyof T) = v
+export const decryptObject: decryptObjectType = (<T extends Record<string, any>>(data: Record<string, any>, key: KeyInput = DEFAULT_KEY, options: ObjectCryptOptions = {}): T => {
+    if (data == null) return data as T
+    const selection: FieldSelection = objectSelection(options)
+    if (options.mac) data = openObject(data, key, selection, options)
+    return mapFields(data, [], selection, (leaf: unknown, path: string[]): unknown => decryptLeaf(leaf, key, fieldAad(path, options), options.allowLegacy)) as T
+}) as decryptObjectType
+
+/**
+ * Upgrades a ciphertext to the active key of a keyring.
+ *
+ * The value is decrypted with the key named by its embedded key ID (or the keyring's
+ * legacy key) and encrypted again with the active key. Values that already use the
+ * active key are returned unchanged unless `force` is set. The value type recorded by
+ * `encryptObject` and the compression are kept.
+ *
+ * @param {string} data - The ciphertext to upgrade.
+ * @param {Keyring} keyring - The keyring holding the old and the active key.
+ * @param {ReencryptOptions} [options] - Re-encryption options.
+ * @returns {string} The ciphertext under the active key.
+ * @throws {Error} If the value cannot be decrypted with the keyring.
+ *
+ * @example
+ * keyring.add('2025', process.env.NEW_KEY as string, { active: true })
+ * const upgraded = reencrypt(storedValue, keyring)
+ *
+ * @since 1.1.0
+ * @category Encryption
+ * @public
+ */
+export const reencrypt: reencryptType = (data: string, keyring: Keyring, options: ReencryptOptions = {}): string =>
+    reencryptValue(data, keyring, options)
+
+const reencryptValue = (data: string, keyring: Keyring, options: ReencryptOptions, aad?: Buffer): string => {
+    const bytes: Buffer | null = envelopeBytes(data.trim())
+    if (bytes === null) {
+        if (aad !== undefined) throw new IntegrityError('Authentication failed: the ciphertext is not bound to its field path')
+        return encrypt(decrypt(data, { key: keyring, encoding: 'buffer' }), { key: keyring, algorithm: options.algorithm }) as string
+    }
+    if (!options.force) {
+        const header: EnvelopeHeader = unpackEnvelope(bytes).header
+        if (header.kid === keyring.activeKeyId && header.alg === algorithmIds[options.algorithm || 'aes-256-gcm'] && (header.ad === true) === (aad !== undefined)) return data
     }
-    return decryptedData
-}
\ No newline at end of file
+    const { header, plaintext } = openPayload(bytes, keyring, aad)
+    return sealPayload(plaintext, keyring, options.algorithm, header.ty, aad, header.zip === undefined ? undefined : { compress: compressionAlgorithm(header.zip), compressThreshold: 0 }).toString('base64url')
+}
+
+/**
+ * Upgrades every encrypted value of an object produced by `encryptObject` to the active key
+ * of a keyring, including values in nested objects and arrays.
+ *
+ * @template T - The object type.
+ * @param {T} data - The encrypted object.
+ * @param {Keyring} keyring - The keyring holding the old and the active key.
+ * @param {ReencryptOptions & ObjectCryptOptions} [options] - Re-encryption options, and the
+ * field selection and binding options the object was encrypted with. With `mac` the MAC is
+ * verified first and recomputed with the active key.
+ * @returns {T} A new object with every encrypted value under the active key.
+ * @throws {Error} If a value cannot be decrypted with the keyring.
+ *
+ * @example
+ * const rotated = rotateObject(storedDocument, keyring)
+ *
+ * @since 1.1.0
+ * @category Encryption
+ * @public
+ */
+export const rotateObject: rotateObjectType = <T extends Record<string, any>>(data: T, keyring: Keyring, options: ReencryptOptions & ObjectCryptOptions = {}): T => {
+    if (data == null) return data
+    const selection: FieldSelection = objectSelection(options),
+        verified: Record<string, any> = options.mac ? openObject(data, keyring, selection, options) : data,
+        rotatedData: Record<string, any> = mapFields(verified, [], selection, (leaf: unknown, path: string[]): unknown =>
+            typeof leaf === 'string' ? reencryptValue(leaf, keyring, options, fieldAad(path, options)) : leaf) as Record<string, any>
+    return (options.mac ? sealObject(rotatedData, keyring, selection, options) : rotatedData) as T
+}
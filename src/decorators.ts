@@ -1,55 +1,360 @@
 import 'reflect-metadata'
-import { FieldDecoratorType, getFieldMetadataType } from './types'
+import { decryptObject, encryptObject } from './crypt'
+import { ValidationError } from './errors'
+import { formatPath } from './paths'
+import type { decryptInstanceType, encryptInstanceType, FieldDecoratorType, FieldMetadata, FieldOptions, FieldType, FromPlainOptions, fromPlainType, getFieldMetadataType, KeyInput, ObjectCryptOptions, toPlainType, ToPlainOptions, ValidationIssue } from './types'
+
+/**
+ * Declared type of a field: the type name, the class of a nested DTO and the element type of an array.
+ */
+type FieldTypeInfo = {
+    type?: string
+    ctor?: Function
+    item?: FieldTypeInfo
+}
+
+const MAX_NESTING: number = 16
 
 /**
  * Decorator that marks class properties for metadata storage and reflection.
  * Used to annotate properties that require special handling or processing,
  * particularly useful in scenarios like HTTP request body validation,
  * serialization, or data transformation.
- * 
+ *
+ * The options are stored in the reflect metadata of the property. Without `type`, the
+ * type emitted by TypeScript (`design:type`, requires `emitDecoratorMetadata`) is used.
+ * Nested DTO classes are declared with a type function, `@Field(() => AddressDTO)`, which
+ * names the element class for array properties (`addresses: AddressDTO[]`) and is resolved
+ * lazily, so classes may reference each other.
+ *
  * @decorator
+ * @param {() => FieldType | FieldType[]} [type] - Type function of a nested class (or `[Class]` for arrays).
+ * @param {FieldOptions} [options] - Field options.
+ * @param {FieldType} [options.type] - Declared type: `'string'`, `'number'`, `'boolean'`, `'bigint'`, `'date'`, `'array'`, `'object'` or a constructor.
+ * @param {boolean} [options.encrypted=false] - Encrypt the field with `encryptInstance`.
+ * @param {boolean} [options.sensitive=false] - Leave the field out of `toPlain` output.
+ * @param {string} [options.name] - Property name used in serialized output.
  * @returns {PropertyDecorator} A decorator function that adds metadata to the property
- * 
+ *
  * @example
  * class UserDTO {
  *   @Field()
  *   username: string = '' // default value
- * 
- *   @Field()
+ *
+ *   @Field({ encrypted: true, sensitive: true })
  *   email: string = '' // default value
- * 
- *   @Field()
- *   age: number = 18 // default value
+ *
+ *   @Field({ type: 'date', name: 'created_at' })
+ *   createdAt: Date = new Date()
+ *
+ *   @Field(() => AddressDTO)
+ *   addresses: AddressDTO[] = []
  * }
- * 
+ *
  * @since 1.0.9
  * @category Decorators
  */
-export const Field: FieldDecoratorType = (): PropertyDecorator => {
+export const Field: FieldDecoratorType = (typeOrOptions?: (() => FieldType | FieldType[]) | FieldOptions, options: FieldOptions = {}): PropertyDecorator => {
+    const typeFunction = typeof typeOrOptions === 'function' ? typeOrOptions : undefined
+    if (typeof typeOrOptions === 'object') options = typeOrOptions
     return (target: object, propertyKey: string | symbol): void => {
         const existingFields = Reflect.getMetadata('fields', target) || []
         Reflect.defineMetadata('fields', [...existingFields, propertyKey], target)
+        Reflect.defineMetadata('field', options, target, propertyKey)
+        if (typeFunction !== undefined) Reflect.defineMetadata('field:type', typeFunction, target, propertyKey)
+    }
+}
+
+/**
+ * Normalizes a declared type (an option or a `design:type` constructor) to a type name,
+ * or returns `undefined` when nothing useful is declared (`Object`, unions, `any`).
+ */
+const typeName = (type: FieldType | undefined): string | undefined => {
+    if (typeof type === 'string') return type
+    switch (type) {
+        case undefined: case Object: return undefined
+        case String: return 'string'
+        case Number: return 'number'
+        case Boolean: return 'boolean'
+        case BigInt: return 'bigint'
+        case Date: return 'date'
+        case Array: return 'array'
+        default: return 'object'
     }
 }
 
+const typeInfo = (type: FieldType | FieldType[] | undefined): FieldTypeInfo =>
+    Array.isArray(type) ? { type: 'array', item: typeInfo(type[0]) } :
+        { type: typeName(type), ctor: typeof type === 'function' && typeName(type) === 'object' ? type : undefined }
+
+/**
+ * Resolves the declared type of a field from its type function, `type` option and `design:type`.
+ */
+export const fieldTypeInfo = (target: object, field: string | symbol): FieldTypeInfo => {
+    const declared: FieldType | undefined = (Reflect.getMetadata('field', target, field) || {}).type ?? Reflect.getMetadata('design:type', target, field),
+        typeFunction: (() => FieldType | FieldType[]) | undefined = Reflect.getMetadata('field:type', target, field)
+    if (typeFunction === undefined) return typeInfo(declared)
+    const resolved: FieldType | FieldType[] = typeFunction()
+    return typeName(declared) === 'array' && !Array.isArray(resolved) ? { type: 'array', item: typeInfo(resolved) } : typeInfo(resolved)
+}
+
+/**
+ * Returns the declared type name of a decorated field, `undefined` if only `Object` (or nothing) was declared.
+ */
+export const declaredType = (target: object, field: string | symbol): string | undefined =>
+    fieldTypeInfo(target, field).type
+
+const inferredType = (value: unknown): string =>
+    value instanceof Date ? 'date' : typeof value != 'object' ? typeof value : Array.isArray(value) ? 'array' : 'object'
+
+/**
+ * Returns the declared type and options of every decorated field of a class instance or prototype.
+ */
+const fieldMetadata = (target: Record<string, any>): FieldMetadata[] => {
+    const fields: (string | symbol)[] = Reflect.getMetadata('fields', target) || []
+    return fields.map((field: string | symbol): FieldMetadata => {
+        const options: FieldOptions = Reflect.getMetadata('field', target, field) || {}
+        return {
+            field,
+            type: declaredType(target, field) ?? inferredType(target[field as string]),
+            name: options.name ?? String(field),
+            encrypted: options.encrypted === true,
+            sensitive: options.sensitive === true,
+        }
+    })
+}
+
 /**
  * Retrieves metadata for all properties decorated with @Field from a class instance
  * or constructor. Useful for reflection-based operations like validation,
  * serialization, or dynamic property processing.
- * 
+ *
+ * The type is the declared one (`type` option or the TypeScript property type) and is only
+ * inferred from the current value when nothing more specific than `Object` was declared.
+ *
  * @param {object} target - The class instance or constructor to inspect
- * @returns {(string | symbol)[]} Array of property keys that were decorated with @Field
+ * @returns {FieldMetadata[]} The decorated properties with their type and options
  * @throws {Error} If metadata reflection fails
- * 
+ *
  * @example
  * const user = new UserDTO()
- * const fields = getFieldMetadata(user) // [ { field: 'username', type: 'string' }, { field: 'password', type: 'string' }, { field: 'age', type: 'number' } ]
+ * const fields = getFieldMetadata(user) // [ { field: 'username', type: 'string', name: 'username', encrypted: false, sensitive: false }, ... ]
+ *
  *
- * 
  * @since 1.0.9
  * @category Reflection
  */
-export const getFieldMetadata: getFieldMetadataType = <T>(target: Record<string, any>): { field: T, type: string }[] => {
-    const fieldds: T = Reflect.getMetadata('fields', target) || []
-    return (fieldds as T[]).map((f): { field: T, type: any } => ({ field: f, type: typeof target[f as string] != 'object' ? typeof target[f as string] : Array.isArray(target[f as string]) ? 'array' : 'object' }))
-}
\ No newline at end of file
+export const getFieldMetadata: getFieldMetadataType = (target: Record<string, any>): FieldMetadata[] =>
+    fieldMetadata(typeof target === 'function' ? (target as Function).prototype : target)
+
+/**
+ * Copies the result of an object function onto a new object with the instance's prototype,
+ * so the class metadata (and methods) stay available.
+ */
+const withPrototype = <T extends object>(instance: T, data: Record<string, any>): T =>
+    Object.assign(Object.create(Object.getPrototypeOf(instance)), data)
+
+/**
+ * Lists the paths of the fields matching `marked`, including those of nested DTO classes,
+ * built from the property keys or from the serialized names (`by: 'name'`).
+ */
+export const markedPaths = (target: object, marked: (meta: FieldMetadata) => boolean, by: 'field' | 'name' = 'field', prefix: string = '', depth: number = 0): string[] =>
+    depth > MAX_NESTING ? [] : fieldMetadata(target).flatMap((meta: FieldMetadata): string[] => {
+        const path: string = prefix + (by === 'name' ? meta.name : String(meta.field))
+        if (marked(meta)) return [path]
+        const info: FieldTypeInfo = fieldTypeInfo(target, meta.field),
+            nested: FieldTypeInfo | undefined = info.type === 'array' ? info.item : info
+        if (nested?.ctor === undefined) return []
+        return markedPaths(nested.ctor.prototype, marked, by, info.type === 'array' ? `${path}[*].` : `${path}.`, depth + 1)
+    })
+
+const isEncrypted = (meta: FieldMetadata): boolean => meta.encrypted
+
+/**
+ * Encrypts the fields of a class instance marked `@Field({ encrypted: true })`, including
+ * those of nested DTOs declared with a type function, leaving the other fields readable.
+ * Values keep their types through `decryptInstance`.
+ *
+ * @template T - The class type.
+ * @param {T} instance - The instance to encrypt.
+ * @param {KeyInput} key - Encryption key string, key object or keyring.
+ * @param {Omit<ObjectCryptOptions, 'include' | 'exclude' | 'schema'>} [options] - Binding and MAC options, see `encryptObject`.
+ * @returns {T} A new instance of the same class with the marked fields encrypted.
+ * @throws {Error} If encryption fails.
+ *
+ * @example
+ * const stored = encryptInstance(user, process.env.DATA_KEY as string, { documentId: user.id })
+ *
+ * @since 1.1.0
+ * @category Decorators
+ * @public
+ */
+export const encryptInstance: encryptInstanceType = <T extends object>(instance: T, key: KeyInput, options: Omit<ObjectCryptOptions, 'include' | 'exclude' | 'schema'> = {}): T =>
+    withPrototype(instance, encryptObject({ ...instance } as Record<string, any>, key, { ...options, include: markedPaths(instance, isEncrypted) }))
+
+/**
+ * Decrypts the fields of a class instance encrypted with `encryptInstance`.
+ * To decrypt a plain object (for example a database row), assign it to an instance first.
+ *
+ * @template T - The class type.
+ * @param {T} instance - The instance with encrypted fields.
+ * @param {KeyInput} key - Key string, key object or keyring used for encryption.
+ * @param {Omit<ObjectCryptOptions, 'include' | 'exclude' | 'schema'>} [options] - The binding and MAC options used for encryption.
+ * @returns {T} A new instance of the same class with the marked fields decrypted.
+ * @throws {Error} If decryption or the integrity check fails.
+ *
+ * @example
+ * const user = decryptInstance(Object.assign(new UserDTO(), row), process.env.DATA_KEY as string, { documentId: row.id })
+ *
+ * @since 1.1.0
+ * @category Decorators
+ * @public
+ */
+export const decryptInstance: decryptInstanceType = <T extends object>(instance: T, key: KeyInput, options: Omit<ObjectCryptOptions, 'include' | 'exclude' | 'schema'> = {}): T =>
+    withPrototype(instance, decryptObject({ ...instance } as Record<string, any>, key, { ...options, include: markedPaths(instance, isEncrypted) }))
+
+const plainValue = (value: unknown, info: FieldTypeInfo | undefined, options: ToPlainOptions): unknown => {
+    if (value === null || value === undefined) return value
+    if (Array.isArray(value)) return value.map((item: unknown): unknown => plainValue(item, info?.item, options))
+    switch (info?.type === 'array' ? undefined : info?.type ?? inferredType(value)) {
+        case 'date': {
+            const date: Date = value instanceof Date ? value : new Date(value as string | number)
+            return isNaN(date.getTime()) ? null : date.toISOString()
+        }
+        case 'bigint': return String(value)
+        case 'number': return Number(value)
+        case 'string': return String(value)
+        case 'boolean': return Boolean(value)
+        case 'object': {
+            if (value instanceof Uint8Array) return Buffer.from(value).toString('base64')
+            if ((Reflect.getMetadata('fields', value as object) || []).length > 0) return toPlain(value as object, options)
+            const res: Record<string, unknown> = {}
+            for (const [k, v] of Object.entries(value as object))
+                res[k] = plainValue(v, undefined, options)
+            return res
+        }
+        default: return value
+    }
+}
+
+/**
+ * Serializes a class instance into a JSON-safe plain object using its `@Field` declarations:
+ * only decorated fields are written, under their `name`, and values are converted by their
+ * declared type (not guessed from the runtime value): dates become ISO strings, bigints strings,
+ * and nested decorated instances are serialized the same way. `sensitive` fields are left out.
+ *
+ * @param {object} instance - The instance to serialize.
+ * @param {ToPlainOptions} [options] - Serialization options.
+ * @param {boolean} [options.includeSensitive=false] - Also write fields marked `sensitive`.
+ * @returns {Record<string, unknown>} The plain object.
+ *
+ * @example
+ * class UserDTO {
+ *   @Field() username: string = ''
+ *   @Field({ sensitive: true }) password: string = ''
+ *   @Field({ name: 'created_at' }) createdAt: Date = new Date()
+ *   toJSON() { return toPlain(this) }
+ * }
+ * JSON.stringify(user) // '{"username":"john","created_at":"2025-01-01T00:00:00.000Z"}'
+ *
+ * @since 1.1.0
+ * @category Decorators
+ * @public
+ */
+export const toPlain: toPlainType = (instance: object, options: ToPlainOptions = {}): Record<string, unknown> => {
+    const res: Record<string, unknown> = {}
+    for (const meta of fieldMetadata(instance)) {
+        if (meta.sensitive && !options.includeSensitive) continue
+        const value: unknown = (instance as Record<string | symbol, unknown>)[meta.field]
+        if (value !== undefined) res[meta.name] = plainValue(value, fieldTypeInfo(instance, meta.field), options)
+    }
+    return res
+}
+
+const TRUE_STRINGS: string[] = ['true', '1', 'yes', 'on']
+const FALSE_STRINGS: string[] = ['false', '0', 'no', 'off']
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Converts a plain (JSON or query string) value to the declared type. Values that can't be
+ * converted are kept as they are, so `validate` reports them as type errors.
+ */
+const coerceValue = (value: unknown, info: FieldTypeInfo, options: FromPlainOptions, path: string[], issues: ValidationIssue[], depth: number): unknown => {
+    if (value === null || value === undefined) return value
+    switch (info.type) {
+        case 'string':
+            return typeof value === 'number' || typeof value === 'boolean' || typeof value === 'bigint' ? String(value) : value
+        case 'number': {
+            const number: number = typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN
+            return Number.isNaN(number) ? value : number
+        }
+        case 'boolean': {
+            const text: string = String(value).trim().toLowerCase()
+            return typeof value === 'boolean' ? value : TRUE_STRINGS.includes(text) ? true : FALSE_STRINGS.includes(text) ? false : value
+        }
+        case 'bigint':
+            return (typeof value === 'string' && /^-?\d+$/.test(value.trim())) || Number.isSafeInteger(value) ? BigInt(String(value).trim()) : value
+        case 'date': {
+            if (typeof value !== 'string' && typeof value !== 'number') return value
+            const date: Date = new Date(value)
+            return Number.isNaN(date.getTime()) ? value : date
+        }
+        case 'array':
+            return Array.isArray(value) ? value.map((item: unknown, i: number): unknown => coerceValue(item, info.item ?? {}, options, [...path, `[${i}]`], issues, depth)) : value
+        case 'object':
+            return info.ctor !== undefined && isRecord(value) && depth < MAX_NESTING ? hydrate(info.ctor, value, options, path, issues, depth + 1) : value
+        default:
+            return value
+    }
+}
+
+const hydrate = (type: Function, plain: Record<string, unknown>, options: FromPlainOptions, path: string[], issues: ValidationIssue[], depth: number): any => {
+    const instance = new (type as new () => any)(),
+        fields: FieldMetadata[] = fieldMetadata(instance)
+    if (options.strict) {
+        const known: Set<string> = new Set(fields.map((meta: FieldMetadata): string => meta.name))
+        for (const key of Object.keys(plain))
+            if (!known.has(key)) issues.push({ path: formatPath([...path, key]), rule: 'unknown', message: `${formatPath([...path, key])} is not allowed` })
+    }
+    for (const meta of fields) {
+        const value: unknown = Object.prototype.hasOwnProperty.call(plain, meta.name) ? plain[meta.name] : undefined
+        if (value !== undefined) instance[meta.field] = coerceValue(value, fieldTypeInfo(instance, meta.field), options, [...path, String(meta.field)], issues, depth)
+    }
+    return instance
+}
+
+/**
+ * Creates a DTO instance from a plain object such as a parsed request body.
+ *
+ * Only fields declared with `@Field` are copied (read from their serialized `name`), fields
+ * missing from the input keep the class defaults, and values are coerced to the declared
+ * types: strings to numbers, booleans (`'true'`, `'1'`, `'on'`, ...), bigints and Dates.
+ * Nested DTOs and arrays of DTOs declared with `@Field(() => Class)` are created the same way.
+ * Unknown properties are dropped, or rejected with `strict: true`. Values that can't be coerced
+ * are kept, so run `validate` on the result.
+ *
+ * @template T - The DTO class type.
+ * @param {new () => T} type - The DTO class, its constructor must work without arguments.
+ * @param {unknown} plain - The plain input object.
+ * @param {FromPlainOptions} [options] - Hydration options.
+ * @param {boolean} [options.strict=false] - Reject properties that are not declared fields.
+ * @returns {T} The new instance.
+ * @throws {ValidationError} If the input is not an object, or has unknown properties in strict mode.
+ *
+ * @example
+ * const dto = fromPlain(UserDTO, req.body, { strict: true })
+ * const { valid, errors } = validate(dto)
+ *
+ * @since 1.1.0
+ * @category Decorators
+ * @public
+ */
+export const fromPlain: fromPlainType = <T extends object>(type: new () => T, plain: unknown, options: FromPlainOptions = {}): T => {
+    if (!isRecord(plain)) throw new ValidationError([{ path: '', rule: 'type', message: `Expected an object for ${type.name}` }])
+    const issues: ValidationIssue[] = [],
+        instance: T = hydrate(type, plain, options, [], issues, 0)
+    if (issues.length > 0) throw new ValidationError(issues)
+    return instance
+}
@@ -0,0 +1,139 @@
+import { envelopeBytes, openPayload, sealPayload } from './crypt'
+import { unpackEnvelope } from './envelope'
+import { IntegrityError, MalformedCiphertextError } from './errors'
+import { DEFAULT_KEY } from './keys'
+import type { DecryptDocumentOptions, decryptDocumentType, EncryptDocumentOptions, encryptDocumentType, KeyInput } from './types'
+
+/**
+ * Property marking a value JSON can't represent: `{ "$zx": tag, "v": value }`. The tags are
+ * `n` (non-finite numbers and `-0`), `i` (bigint), `d` (Date), `x` (bytes, Base64) and `o`
+ * (an object that has a `$zx` property itself).
+ */
+const TYPE_KEY: string = '$zx'
+
+type DocumentTag = 'n' | 'i' | 'd' | 'x' | 'o'
+
+const tagged = (tag: DocumentTag, value: unknown): Record<string, unknown> => ({ [TYPE_KEY]: tag, v: value })
+
+/**
+ * Converts a document to JSON values, tagging the values JSON would lose. Like `JSON.stringify`,
+ * `toJSON` is honored, and `undefined`, functions and symbols are dropped (`null` in arrays).
+ * Objects are rebuilt with `Object.fromEntries`, so an own `__proto__` key stays a property.
+ */
+const encodeValue = (value: any, ancestors: object[]): unknown => {
+    switch (typeof value) {
+        case 'number': return Number.isFinite(value) && !Object.is(value, -0) ? value : tagged('n', Object.is(value, -0) ? '-0' : String(value))
+        case 'bigint': return tagged('i', value.toString())
+        case 'undefined': case 'function': case 'symbol': return undefined
+        case 'object': break
+        default: return value
+    }
+    if (value === null) return null
+    if (value instanceof Date) return tagged('d', String(value.getTime()))
+    if (value instanceof Uint8Array) return tagged('x', Buffer.from(value.buffer, value.byteOffset, value.byteLength).toString('base64'))
+    if (ancestors.includes(value)) throw new TypeError('Cannot encrypt a document with circular references')
+    if (typeof value.toJSON === 'function') return encodeValue(value.toJSON(), ancestors)
+    const path: object[] = [...ancestors, value]
+    if (Array.isArray(value)) return value.map((item: any): unknown => encodeValue(item, path) ?? null)
+    const res: Record<string, unknown> = Object.fromEntries(Object.entries(value)
+        .map(([k, v]: [string, any]): [string, unknown] => [k, encodeValue(v, path)])
+        .filter(([, encoded]: [string, unknown]): boolean => encoded !== undefined))
+    return Object.prototype.hasOwnProperty.call(value, TYPE_KEY) ? tagged('o', res) : res
+}
+
+/**
+ * Restores a document from the JSON values written by `encodeValue`. A `__proto__` key in the
+ * decrypted JSON becomes an own property, it never replaces the prototype of the result.
+ */
+const decodeValue = (value: any): any => {
+    if (typeof value !== 'object' || value === null) return value
+    if (Array.isArray(value)) return value.map(decodeValue)
+    switch (value[TYPE_KEY]) {
+        case 'n': return Number(value.v)
+        case 'i': return BigInt(value.v)
+        case 'd': return new Date(Number(value.v))
+        case 'x': return Buffer.from(value.v, 'base64')
+        case 'o': value = value.v
+    }
+    return Object.fromEntries(Object.entries(value).map(([k, v]: [string, any]): [string, any] => [k, decodeValue(v)]))
+}
+
+/**
+ * Returns the associated data binding a document ciphertext to its document ID.
+ */
+const documentAad = (documentId: string | undefined): Buffer | undefined =>
+    documentId === undefined ? undefined : Buffer.from(JSON.stringify(['zexson:document', documentId]), 'utf8')
+
+/**
+ * Encrypts a whole object or array as one ciphertext, instead of a ciphertext per value as
+ * `encryptObject` does. The result is much smaller for large documents (one envelope header,
+ * and with `compress` the serialized document is compressed first), but nothing in it can be
+ * queried or decrypted separately.
+ *
+ * Numbers, booleans, bigints, Dates, byte arrays and nested objects keep their type through
+ * `decryptDocument`. Like `JSON.stringify`, `toJSON` methods are used and `undefined` values
+ * are dropped. `documentId` binds the ciphertext to a record, so it can't be copied to another one.
+ *
+ * With `compress`, all fields are compressed together, so the ciphertext length depends on how
+ * much they have in common. Don't compress documents that hold secrets next to fields an attacker
+ * can set (a CRIME/BREACH style length leak, see `CompressionOptions`), or encrypt those secrets
+ * separately with `encryptObject`.
+ *
+ * @template T - The document type.
+ * @param {T} data - The object or array to encrypt.
+ * @param {KeyInput} [key='qwertyuioplkjhgfdsazxcvbnm'] - The encryption key string, key object or keyring.
+ * @param {EncryptDocumentOptions} [options] - Cipher, encoding, binding and compression options.
+ * @param {CipherAlgorithm} [options.algorithm='aes-256-gcm'] - Authenticated cipher to use.
+ * @param {CiphertextEncoding} [options.encoding='base64url'] - Ciphertext encoding, `'buffer'` returns raw bytes.
+ * @param {string} [options.documentId] - Bind the ciphertext to this document ID.
+ * @param {CompressionMode} [options.compress] - Compress the serialized document: `'deflate'`, `'brotli'` or `'auto'` for the smaller.
+ * @param {number} [options.compressThreshold=1024] - Documents smaller than this many bytes are not compressed.
+ * @returns {string | Buffer} The ciphertext, or a Buffer with `encoding: 'buffer'`.
+ * @throws {TypeError} If `data` is not an object, or has circular references.
+ * @throws {InvalidKeyError} If the key cannot be used, such as the default key in strict mode.
+ *
+ * @example
+ * const blob = encryptDocument(report, process.env.ENCRYPTION_KEY as string, { compress: 'auto', documentId: report.id })
+ * const restored = decryptDocument<Report>(blob, process.env.ENCRYPTION_KEY as string, { documentId: report.id })
+ *
+ * @since 1.1.0
+ * @category Encryption
+ * @public
+ */
+export const encryptDocument: encryptDocumentType = (<T extends object>(data: T, key: KeyInput = DEFAULT_KEY, options: EncryptDocumentOptions = {}): string | Buffer => {
+    if (typeof data !== 'object' || data === null) throw new TypeError('encryptDocument encrypts objects and arrays, use encrypt for other values')
+    const payload: Buffer = Buffer.from(JSON.stringify(encodeValue(data, [])), 'utf8'),
+        envelope: Buffer = sealPayload(payload, key, options.algorithm, 'j', documentAad(options.documentId), options)
+    return options.encoding === 'buffer' ? envelope : envelope.toString(options.encoding || 'base64url')
+}) as encryptDocumentType
+
+/**
+ * Decrypts a document encrypted by `encryptDocument`, restoring its value types.
+ * Compressed documents are inflated transparently.
+ *
+ * @template T - The document type.
+ * @param {string | Uint8Array} data - The ciphertext, in any encoding or as raw bytes.
+ * @param {KeyInput} [key='qwertyuioplkjhgfdsazxcvbnm'] - The decryption key string, key object or keyring.
+ * @param {DecryptDocumentOptions} [options] - Binding options.
+ * @param {string} [options.documentId] - The document ID the ciphertext was bound to.
+ * @returns {T} The document.
+ * @throws {IntegrityError} If the key or document ID is wrong, or the ciphertext was tampered with.
+ * @throws {MalformedCiphertextError} If the input is not a ciphertext of `encryptDocument`.
+ *
+ * @example
+ * const settings = decryptDocument<Settings>(row.settings, keyring, { documentId: row.id })
+ *
+ * @since 1.1.0
+ * @category Decryption
+ * @public
+ */
+export const decryptDocument: decryptDocumentType = <T extends object = Record<string, any>>(data: string | Uint8Array, key: KeyInput = DEFAULT_KEY, options: DecryptDocumentOptions = {}): T => {
+    if (typeof data !== 'string' && !(data instanceof Uint8Array)) throw new TypeError(`Cannot decrypt a value of type ${data === null ? 'null' : typeof data}, pass a string or bytes`)
+    const bytes: Buffer | null = envelopeBytes(typeof data === 'string' ? data.trim() : data)
+    if (bytes === null) throw new MalformedCiphertextError('Malformed ciphertext: not an encrypted document')
+    if (unpackEnvelope(bytes).header.ad === true && options.documentId === undefined)
+        throw new IntegrityError('The document is bound to a document ID, decrypt it with the same documentId option')
+    const { header, plaintext } = openPayload(bytes, key, documentAad(options.documentId))
+    if (header.ty !== 'j') throw new MalformedCiphertextError('Malformed ciphertext: not an encrypted document')
+    return decodeValue(JSON.parse(plaintext.toString('utf8')))
+}
@@ -0,0 +1,188 @@
+import { readFileSync, statSync, writeFileSync } from 'node:fs'
+import { extname } from 'node:path'
+import { decryptLeaf, encryptLeaf, fieldAad, mapFields } from './crypt'
+import { EnvDecryptionError } from './errors'
+import { resolveKey } from './keys'
+import { fieldSelection, formatPath } from './paths'
+import type { FieldSelection } from './paths'
+import type { EncryptEnvOptions, encryptEnvFileType, EnvFileFormat, KeyInput, LoadEncryptedEnvOptions, loadEncryptedEnvType } from './types'
+
+const ENC_MARKER: RegExp = /^ENC\[([A-Za-z0-9+/=_-]+)\]$/
+
+/**
+ * A `NAME=value` line of a `.env` file. `head` is everything up to the value
+ * (`export `, the name and `=`), `tail` the whitespace and comment after it.
+ */
+type EnvLine = {
+    head: string
+    name: string
+    value: string
+    tail: string
+}
+
+const ENV_LINE: RegExp = /^(\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*)(.*)$/
+
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', '"': '"', '\\': '\\' }
+
+/**
+ * Parses a `.env` line: unquoted values end at a ` #` comment, single-quoted values are literal
+ * and double-quoted values support `\n`, `\r`, `\t`, `\"` and `\\` escapes. Quoted values must
+ * close on the same line, multi-line values would otherwise be read (and encrypted) as several
+ * broken entries.
+ */
+const parseEnvLine = (line: string, lineNumber: number): EnvLine | null => {
+    const match: RegExpMatchArray | null = line.match(ENV_LINE)
+    if (match === null) return null
+    const [, head, name, rest] = match
+    const quote: string = rest[0]
+    if (quote === '"' || quote === "'") {
+        let end: number = 1
+        while (end < rest.length && rest[end] !== quote) end += quote === '"' && rest[end] === '\\' ? 2 : 1
+        if (end < rest.length) {
+            const raw: string = rest.slice(1, end)
+            return {
+                head, name, tail: rest.slice(end + 1),
+                value: quote === '"' ? raw.replace(/\\(.)/g, (escape: string, char: string): string => DOUBLE_QUOTE_ESCAPES[char] ?? escape) : raw,
+            }
+        }
+        throw new Error(`Unterminated quoted value for ${name} on line ${lineNumber}: multi-line values are not supported, use \\n escapes in double quotes`)
+    }
+    const comment: number = rest.search(/\s+#/)
+    return comment === -1
+        ? { head, name, value: rest.trimEnd(), tail: rest.slice(rest.trimEnd().length) }
+        : { head, name, value: rest.slice(0, comment), tail: rest.slice(comment) }
+}
+
+const fileFormat = (path: string, format?: EnvFileFormat): EnvFileFormat =>
+    format ?? (extname(path).toLowerCase() === '.json' ? 'json' : 'env')
+
+const markerValue = (value: unknown): string | null => {
+    const match: RegExpMatchArray | null = typeof value === 'string' ? value.match(ENC_MARKER) : null
+    return match === null ? null : match[1]
+}
+
+/**
+ * Encrypts the plaintext values of a `.env` or JSON config file in place (or into `output`).
+ *
+ * Every value becomes `ENC[<ciphertext>]`, values that are already marked, empty values, `null`s,
+ * comments and formatting are kept, so plaintext and encrypted entries can be mixed, new secrets
+ * can be added in plaintext and encrypted by running it again, and diffs only show the changed
+ * entries. JSON values keep their type (numbers, booleans) through encryption. `include` and
+ * `exclude` select the names (or JSON paths, such as `'db.password'`) to encrypt, and `bind`
+ * binds each value to its name so encrypted values cannot be moved between entries.
+ *
+ * @param {string} path - The `.env` or `.json` file.
+ * @param {KeyInput} key - Encryption key string, key object or keyring.
+ * @param {EncryptEnvOptions} [options] - Selection, binding, format and output options.
+ * @param {string[]} [options.include] - Names or JSON paths to encrypt, all values if omitted.
+ * @param {string[]} [options.exclude] - Names or JSON paths to keep in plaintext.
+ * @param {boolean} [options.bind=false] - Bind each value to its name (or JSON path).
+ * @param {EnvFileFormat} [options.format] - `'env'` or `'json'`, by default from the file extension.
+ * @param {string} [options.output] - Write to this file instead of overwriting `path`.
+ * @returns {string[]} The names (or JSON paths) encrypted by this call.
+ * @throws {Error} If the file cannot be read or written, the JSON is invalid, a quoted `.env` value spans several lines or the key is invalid.
+ *
+ * @example
+ * // .env.production: DB_PASSWORD=hunter2  →  DB_PASSWORD=ENC[WlgCAC57ImFsZyI6...]
+ * encryptEnvFile('.env.production', process.env.CONFIG_KEY as string, { exclude: ['NODE_ENV', 'PORT'] })
+ *
+ * @since 1.1.0
+ * @category Config
+ * @public
+ */
+export const encryptEnvFile: encryptEnvFileType = (path: string, key: KeyInput, options: EncryptEnvOptions = {}): string[] => {
+    const encryptionKey: KeyInput = resolveKey(key),
+        selection: FieldSelection = fieldSelection(options),
+        content: string = readFileSync(path, 'utf8'),
+        encrypted: string[] = []
+    const encryptValue = (value: unknown, fieldPath: string[]): unknown => {
+        if (value === '' || markerValue(value) !== null) return value
+        const ciphertext: unknown = encryptLeaf(value, encryptionKey, fieldAad(fieldPath, options))
+        if (ciphertext === value) return value
+        encrypted.push(formatPath(fieldPath))
+        return `ENC[${ciphertext}]`
+    }
+
+    let output: string
+    if (fileFormat(path, options.format) === 'json') {
+        const indent: string = content.match(/^[ \t]+(?=")/m)?.[0] ?? '  '
+        output = JSON.stringify(mapFields(JSON.parse(content), [], selection, encryptValue), null, indent) + (content.endsWith('\n') ? '\n' : '')
+    } else {
+        const eol: string = content.includes('\r\n') ? '\r\n' : '\n'
+        output = content.split(/\r?\n/).map((line: string, i: number): string => {
+            const entry: EnvLine | null = parseEnvLine(line, i + 1)
+            if (entry === null || !selection.selects([entry.name])) return line
+            const value: unknown = encryptValue(entry.value, [entry.name])
+            return value === entry.value ? line : `${entry.head}${value}${entry.tail}`
+        }).join(eol)
+    }
+    if (encrypted.length > 0 || options.output !== undefined)
+        writeFileSync(options.output ?? path, output, { mode: statSync(path).mode & 0o777 })
+    return encrypted
+}
+
+/**
+ * Loads a `.env` or JSON config file and decrypts its `ENC[...]` values, plaintext values are
+ * used as they are.
+ *
+ * `.env` entries are also written to `process.env` (or `target`), without replacing variables
+ * that are already set unless `override` is set. JSON configs are returned as a typed object,
+ * with numbers, booleans, bigints and Dates restored. If any value fails to decrypt, nothing is
+ * written and an `EnvDecryptionError` listing every failed name (or JSON path) is thrown.
+ *
+ * @template T - The config type.
+ * @param {string} path - The `.env` or `.json` file.
+ * @param {KeyInput} key - Decryption key string, key object or keyring.
+ * @param {LoadEncryptedEnvOptions} [options] - Binding, format and target options.
+ * @param {boolean} [options.bind=false] - The values were bound to their names on encryption.
+ * @param {EnvFileFormat} [options.format] - `'env'` or `'json'`, by default from the file extension.
+ * @param {Record<string, string | undefined> | false} [options.target=process.env] - Where `.env` entries are assigned, `false` to only return them.
+ * @param {boolean} [options.override=false] - Replace variables that are already set in `target`.
+ * @returns {T} The decrypted entries (`.env`) or config object (JSON).
+ * @throws {EnvDecryptionError} If some values could not be decrypted.
+ * @throws {Error} If the file cannot be read, the JSON is invalid or a quoted `.env` value spans several lines.
+ *
+ * @example
+ * loadEncryptedEnv('.env.production', process.env.CONFIG_KEY as string)
+ * process.env.DB_PASSWORD // 'hunter2'
+ *
+ * type Config = { db: { host: string, password: string, port: number } }
+ * const config = loadEncryptedEnv<Config>('config.json', process.env.CONFIG_KEY as string)
+ *
+ * @since 1.1.0
+ * @category Config
+ * @public
+ */
+export const loadEncryptedEnv: loadEncryptedEnvType = <T = Record<string, string>>(path: string, key: KeyInput, options: LoadEncryptedEnvOptions = {}): T => {
+    const decryptionKey: KeyInput = resolveKey(key),
+        content: string = readFileSync(path, 'utf8'),
+        failed: string[] = []
+    const decryptValue = (value: unknown, fieldPath: string[]): unknown => {
+        const ciphertext: string | null = markerValue(value)
+        if (ciphertext === null) return value
+        try {
+            return decryptLeaf(ciphertext, decryptionKey, fieldAad(fieldPath, options))
+        } catch {
+            failed.push(formatPath(fieldPath))
+            return value
+        }
+    }
+
+    if (fileFormat(path, options.format) === 'json') {
+        const config: T = mapFields(JSON.parse(content), [], fieldSelection(), decryptValue) as T
+        if (failed.length > 0) throw new EnvDecryptionError(failed)
+        return config
+    }
+
+    const entries: Record<string, string> = {}
+    for (const [i, line] of content.split(/\r?\n/).entries()) {
+        const entry: EnvLine | null = parseEnvLine(line, i + 1)
+        if (entry !== null) entries[entry.name] = String(decryptValue(entry.value, [entry.name]))
+    }
+    if (failed.length > 0) throw new EnvDecryptionError(failed)
+    const target: Record<string, string | undefined> | false = options.target ?? process.env
+    if (target !== false)
+        for (const [name, value] of Object.entries(entries))
+            if (options.override || target[name] === undefined) target[name] = value
+    return entries as unknown as T
+}
@@ -0,0 +1,159 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto'
+import type { CipherCCM, CipherGCM, DecipherCCM, DecipherGCM } from 'node:crypto'
+import { ENVELOPE_IV_LENGTH, ENVELOPE_MAGIC_BYTES, ENVELOPE_TAG_LENGTH, ENVELOPE_VERSION, envelopeLayout, envelopePrefix, isEnvelope, readEnvelopeHeader } from './codec'
+import { IntegrityError, MalformedCiphertextError } from './errors'
+import type { CipherAlgorithm, EnvelopeAlgorithm, EnvelopeHeader, EnvelopeParts } from './types'
+
+/**
+ * Magic bytes that prefix every versioned ciphertext ("ZX").
+ *
+ * @since 1.1.0
+ * @category Envelope
+ */
+export const ENVELOPE_MAGIC: Buffer = Buffer.from(ENVELOPE_MAGIC_BYTES)
+
+export { ENVELOPE_VERSION, isEnvelope, readEnvelopeHeader }
+
+type AeadCipherName = 'aes-256-gcm' | 'chacha20-poly1305'
+
+/**
+ * Maps envelope algorithm identifiers to their `node:crypto` cipher names.
+ *
+ * @since 1.1.0
+ * @category Envelope
+ */
+export const envelopeCiphers: Record<EnvelopeAlgorithm, { cipher: AeadCipherName, ivLength: number, tagLength: number }> = {
+    A256GCM: { cipher: 'aes-256-gcm', ivLength: ENVELOPE_IV_LENGTH, tagLength: ENVELOPE_TAG_LENGTH },
+    C20P: { cipher: 'chacha20-poly1305', ivLength: ENVELOPE_IV_LENGTH, tagLength: ENVELOPE_TAG_LENGTH },
+}
+
+/**
+ * Maps cipher names to the algorithm identifiers written into envelope headers.
+ *
+ * @since 1.1.0
+ * @category Envelope
+ */
+export const algorithmIds: Record<CipherAlgorithm, EnvelopeAlgorithm> = {
+    'aes-256-gcm': 'A256GCM',
+    'chacha20-poly1305': 'C20P',
+}
+
+/**
+ * Creates an authenticated cipher with a fixed tag length. `@types/node` types ChaCha20-Poly1305
+ * with the CCM ciphers, whose `setAAD` requires the plaintext length.
+ *
+ * @param {'aes-256-gcm' | 'chacha20-poly1305'} cipher - The cipher name.
+ * @param {Buffer} key - The 32 byte cipher key.
+ * @param {Buffer} iv - The 12 byte nonce.
+ * @param {number} authTagLength - The tag length in bytes.
+ * @returns {CipherGCM | CipherCCM} The cipher.
+ *
+ * @since 1.1.0
+ * @category Envelope
+ */
+export const createAeadCipher: (cipher: AeadCipherName, key: Buffer, iv: Buffer, authTagLength: number) => CipherGCM | CipherCCM = (cipher: AeadCipherName, key: Buffer, iv: Buffer, authTagLength: number): CipherGCM | CipherCCM =>
+    cipher === 'aes-256-gcm' ? createCipheriv(cipher, key, iv, { authTagLength }) : createCipheriv(cipher, key, iv, { authTagLength })
+
+/**
+ * Creates the decipher of `createAeadCipher`.
+ *
+ * @param {'aes-256-gcm' | 'chacha20-poly1305'} cipher - The cipher name.
+ * @param {Buffer} key - The 32 byte cipher key.
+ * @param {Buffer} iv - The 12 byte nonce.
+ * @param {number} authTagLength - The tag length in bytes.
+ * @returns {DecipherGCM | DecipherCCM} The decipher.
+ *
+ * @since 1.1.0
+ * @category Envelope
+ */
+export const createAeadDecipher: (cipher: AeadCipherName, key: Buffer, iv: Buffer, authTagLength: number) => DecipherGCM | DecipherCCM = (cipher: AeadCipherName, key: Buffer, iv: Buffer, authTagLength: number): DecipherGCM | DecipherCCM =>
+    cipher === 'aes-256-gcm' ? createDecipheriv(cipher, key, iv, { authTagLength }) : createDecipheriv(cipher, key, iv, { authTagLength })
+
+/**
+ * Encodes the authenticated envelope prefix: magic, version, header length and header JSON.
+ *
+ * @param {EnvelopeHeader} header - The header to embed.
+ * @returns {Buffer} The envelope prefix.
+ *
+ * @since 1.1.0
+ * @category Envelope
+ */
+export const encodeEnvelopeHeader: (header: EnvelopeHeader) => Buffer = (header: EnvelopeHeader): Buffer => {
+    const prefix: Uint8Array = envelopePrefix(header)
+    return Buffer.from(prefix.buffer, prefix.byteOffset, prefix.byteLength)
+}
+
+/**
+ * Splits a binary envelope into its header, authenticated prefix, IV, tag and ciphertext.
+ *
+ * Layout: `"ZX" | version (1 byte) | header length (uint16 BE) | header JSON | IV | tag | ciphertext`.
+ *
+ * @param {Buffer} data - The binary envelope.
+ * @returns {EnvelopeParts} The parsed envelope parts.
+ * @throws {MalformedCiphertextError} If the envelope is truncated or has an unreadable header.
+ * @throws {UnsupportedVersionError} If the version is unknown.
+ *
+ * @since 1.1.0
+ * @category Envelope
+ */
+export const unpackEnvelope: (data: Buffer) => EnvelopeParts = (data: Buffer): EnvelopeParts => {
+    const { version, header, headerEnd, ivEnd, tagEnd } = envelopeLayout(data)
+    return {
+        version,
+        header,
+        aad: data.subarray(0, headerEnd),
+        iv: data.subarray(headerEnd, ivEnd),
+        tag: data.subarray(ivEnd, tagEnd),
+        ciphertext: data.subarray(tagEnd),
+    }
+}
+
+/**
+ * Encrypts a payload with an authenticated cipher and wraps it in a versioned envelope.
+ * The whole prefix (magic, version and header) is authenticated as associated data,
+ * followed by `aad` if given. External associated data is not stored in the envelope,
+ * the same bytes must be passed to `openEnvelope`.
+ *
+ * @param {Buffer} plaintext - The bytes to encrypt.
+ * @param {Buffer} key - A 32 byte cipher key.
+ * @param {EnvelopeHeader} header - The header to embed, `alg` selects the cipher.
+ * @param {Buffer} [aad] - External associated data the ciphertext is bound to.
+ * @returns {Buffer} The binary envelope.
+ *
+ * @since 1.1.0
+ * @category Envelope
+ */
+export const sealEnvelope: (plaintext: Buffer, key: Buffer, header: EnvelopeHeader, aad?: Buffer) => Buffer = (plaintext: Buffer, key: Buffer, header: EnvelopeHeader, aad?: Buffer): Buffer => {
+    const spec = envelopeCiphers[header.alg]
+    if (!spec) throw new MalformedCiphertextError(`Unsupported ciphertext algorithm: ${header.alg}`)
+    const prefix: Buffer = encodeEnvelopeHeader(header),
+        iv: Buffer = randomBytes(spec.ivLength),
+        cipher: CipherGCM | CipherCCM = createAeadCipher(spec.cipher, key, iv, spec.tagLength)
+    cipher.setAAD(aad === undefined ? prefix : Buffer.concat([prefix, aad]), { plaintextLength: plaintext.length })
+    const ciphertext: Buffer = Buffer.concat([cipher.update(plaintext), cipher.final()])
+    return Buffer.concat([prefix, iv, cipher.getAuthTag(), ciphertext])
+}
+
+/**
+ * Decrypts a binary envelope produced by `sealEnvelope`.
+ *
+ * @param {EnvelopeParts} parts - The parsed envelope, see `unpackEnvelope`.
+ * @param {Buffer} key - The 32 byte cipher key.
+ * @param {Buffer} [aad] - The external associated data passed to `sealEnvelope`.
+ * @returns {Buffer} The decrypted payload.
+ * @throws {IntegrityError} If the key or associated data is wrong or the envelope was tampered with.
+ *
+ * @since 1.1.0
+ * @category Envelope
+ */
+export const openEnvelope: (parts: EnvelopeParts, key: Buffer, aad?: Buffer) => Buffer = (parts: EnvelopeParts, key: Buffer, aad?: Buffer): Buffer => {
+    const spec = envelopeCiphers[parts.header.alg],
+        decipher: DecipherGCM | DecipherCCM = createAeadDecipher(spec.cipher, key, parts.iv, spec.tagLength)
+    decipher.setAAD(aad === undefined ? parts.aad : Buffer.concat([parts.aad, aad]), { plaintextLength: parts.ciphertext.length })
+    decipher.setAuthTag(parts.tag)
+    try {
+        return Buffer.concat([decipher.update(parts.ciphertext), decipher.final()])
+    } catch {
+        throw new IntegrityError()
+    }
+}
@@ -0,0 +1,193 @@
+import type { ValidationIssue } from './types'
+
+/**
+ * Base class of all errors thrown or returned by the library.
+ * `code` is stable across releases and meant for programmatic checks, unlike `message`.
+ *
+ * @since 1.1.0
+ * @category Errors
+ * @public
+ */
+export class ZexsonError extends Error {
+    readonly code: string
+
+    constructor(message: string, code: string) {
+        super(message)
+        this.name = new.target.name
+        this.code = code
+    }
+}
+
+/**
+ * Base class of the errors returned by `verifyToken`.
+ *
+ * @since 1.1.0
+ * @category Errors
+ * @public
+ */
+export class TokenError extends ZexsonError { }
+
+/**
+ * The token is not a well-formed compact JWT, or uses an algorithm other than HS256.
+ *
+ * @since 1.1.0
+ * @category Errors
+ * @public
+ */
+export class MalformedTokenError extends TokenError {
+    constructor(message: string = 'Malformed token') {
+        super(message, 'ERR_TOKEN_MALFORMED')
+    }
+}
+
+/**
+ * The token signature does not match: wrong key or modified token.
+ *
+ * @since 1.1.0
+ * @category Errors
+ * @public
+ */
+export class TokenSignatureError extends TokenError {
+    constructor(message: string = 'Invalid token signature') {
+        super(message, 'ERR_TOKEN_SIGNATURE')
+    }
+}
+
+/**
+ * The token's `exp` claim is in the past.
+ *
+ * @since 1.1.0
+ * @category Errors
+ * @public
+ */
+export class TokenExpiredError extends TokenError {
+    readonly expiredAt: Date
+
+    constructor(expiredAt: Date) {
+        super(`Token expired at ${expiredAt.toISOString()}`, 'ERR_TOKEN_EXPIRED')
+        this.expiredAt = expiredAt
+    }
+}
+
+/**
+ * The token's `nbf` claim is in the future.
+ *
+ * @since 1.1.0
+ * @category Errors
+ * @public
+ */
+export class TokenNotActiveError extends TokenError {
+    readonly notBefore: Date
+
+    constructor(notBefore: Date) {
+        super(`Token is not valid before ${notBefore.toISOString()}`, 'ERR_TOKEN_NOT_ACTIVE')
+        this.notBefore = notBefore
+    }
+}
+
+/**
+ * A claim such as `aud` or `iss` does not have the expected value.
+ *
+ * @since 1.1.0
+ * @category Errors
+ * @public
+ */
+export class TokenClaimError extends TokenError {
+    readonly claim: string
+
+    constructor(claim: string, message: string = `Unexpected "${claim}" claim`) {
+        super(message, 'ERR_TOKEN_CLAIM')
+        this.claim = claim
+    }
+}
+
+/**
+ * Input rejected by `fromPlain`: not an object, or unknown properties in strict mode.
+ * `errors` lists each problem with its path, rule and message, like `validate`.
+ *
+ * @since 1.1.0
+ * @category Errors
+ * @public
+ */
+export class ValidationError extends ZexsonError {
+    readonly errors: ValidationIssue[]
+
+    constructor(errors: ValidationIssue[], message: string = `Validation failed: ${errors.map((issue: ValidationIssue): string => issue.message).join(', ')}`) {
+        super(message, 'ERR_VALIDATION')
+        this.errors = errors
+    }
+}
+
+/**
+ * `ENC[...]` values of a config file that could not be decrypted: wrong key, modified value or
+ * a value bound to another name. `keys` lists the failed names (or JSON paths).
+ *
+ * @since 1.1.0
+ * @category Errors
+ * @public
+ */
+export class EnvDecryptionError extends ZexsonError {
+    readonly keys: string[]
+
+    constructor(keys: string[], message: string = `Failed to decrypt config values: ${keys.join(', ')}`) {
+        super(message, 'ERR_ENV_DECRYPT')
+        this.keys = keys
+    }
+}
+
+/**
+ * The key cannot be used: wrong length or empty passphrase, a key ID missing from the keyring,
+ * a key object derived with other parameters than the ciphertext, or the default key in strict mode.
+ *
+ * @since 1.1.0
+ * @category Errors
+ * @public
+ */
+export class InvalidKeyError extends ZexsonError {
+    constructor(message: string = 'Invalid key') {
+        super(message, 'ERR_INVALID_KEY')
+    }
+}
+
+/**
+ * The input is not a ciphertext of this library, or is truncated or unreadable.
+ *
+ * @since 1.1.0
+ * @category Errors
+ * @public
+ */
+export class MalformedCiphertextError extends ZexsonError {
+    constructor(message: string = 'Malformed ciphertext') {
+        super(message, 'ERR_MALFORMED_CIPHERTEXT')
+    }
+}
+
+/**
+ * Authentication failed: the key is wrong, or the ciphertext, its field binding or an object MAC
+ * was tampered with. Authenticated ciphers cannot tell these cases apart.
+ *
+ * @since 1.1.0
+ * @category Errors
+ * @public
+ */
+export class IntegrityError extends ZexsonError {
+    constructor(message: string = 'Authentication failed: wrong key or tampered ciphertext') {
+        super(message, 'ERR_INTEGRITY')
+    }
+}
+
+/**
+ * The ciphertext has a format version this release cannot read, usually written by a newer release.
+ *
+ * @since 1.1.0
+ * @category Errors
+ * @public
+ */
+export class UnsupportedVersionError extends ZexsonError {
+    readonly version: number
+
+    constructor(version: number, message: string = `Unsupported ciphertext version: ${version}`) {
+        super(message, 'ERR_UNSUPPORTED_VERSION')
+        this.version = version
+    }
+}
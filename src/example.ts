@@ -1,5 +1,6 @@
 import { cyan, green, magenta, red, yellow } from 'chalk';
-import { base64Decode, base64Encode, decrypt, decryptObject, encrypt, encryptObject, isEqual } from './crypt';
+import { decryptObjectAsync, encryptObjectAsync } from './bulk';
+import { base64Decode, base64Encode, decrypt, encrypt, isEqual } from './crypt';
 
 export const cryptExample: (v: string, key: string) => Promise<void> = async (v: string, key: string): Promise<void> => {
     const printHeader = (title: string) => {
@@ -52,8 +53,8 @@ export const cryptExample: (v: string, key: string) => Promise<void> = async (v:
     };
 
     const secretKey = 'my-secret-key-2023';
-    const encryptedData = await encryptObject(originalData, secretKey);
-    const decryptedData = await decryptObject(encryptedData, secretKey);
+    const encryptedData = await encryptObjectAsync(originalData, secretKey);
+    const decryptedData = await decryptObjectAsync(encryptedData, secretKey);
 
     printSection('Original Object');
     logObject('Original Data', originalData);
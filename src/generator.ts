@@ -1,40 +1,132 @@
-import type { CharacterSetType } from './types'
+import { randomBytes, randomInt, randomUUID } from 'node:crypto'
+import { tokenAlphabet } from './alphabet'
+import type { CharacterSetType, entropyBitsType, EntropyReport, TokenOptions, tokenGeneratorType } from './types'
 
-export const characterSets: Record<CharacterSetType, string> = {
-    defaultSet: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789',
-    set1: '0123456789',
-    set2: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz',
-}
+export { ambiguousCharacters, characterSets } from './alphabet'
+
+const URL_ALPHABET: string = 'useandom-26T198340PX75pxJACKVERYMINDBUSHWOLF_GQZbfghjklqvwyzrict'
+const CROCKFORD_BASE32: string = '0123456789ABCDEFGHJKMNPQRSTVWXYZ'
 
 /**
  * Generates a random token string of specified length using the given character set
- * 
- * @param {number} length - The desired length of the generated token
- * @param {CharacterSetType} type_ - The character set to use for generation
+ * or a custom alphabet.
+ *
+ * Characters are picked with `crypto.randomInt`, which uses rejection sampling, so every
+ * character of the alphabet is equally likely (no modulo bias). As in earlier versions the
+ * token never starts with '0' unless `noLeadingZero: false` is passed.
+ *
+ * @param {number} length - The desired length of the generated token (without `prefix`)
+ * @param {CharacterSetType | TokenOptions} [type_='defaultSet'] - The character set to use, or token options
+ * @param {CharacterSetType} [type_.charSet='defaultSet'] - Predefined character set
+ * @param {string} [type_.alphabet] - Custom alphabet, overrides `charSet`
+ * @param {boolean} [type_.noLeadingZero=true] - Never start the token with '0'
+ * @param {boolean} [type_.excludeAmbiguous=false] - Remove look-alike characters such as 0/O and 1/l/I
+ * @param {string} [type_.prefix] - Fixed prefix prepended to the token, for example `'sk_'`
  * @returns {string} A random token string
- * @throws {Error} If token generation fails
- * 
+ * @throws {Error} If the length is invalid or the alphabet has fewer than two characters
+ *
  * @example
  * tokenGenerator(8, 'defaultSet') // Returns something like "Kj9mP2nX"
- * 
+ * tokenGenerator(24, { alphabet: 'abcdef0123456789', prefix: 'sk_' }) // "sk_3fa9..."
+ * tokenGenerator(6, { charSet: 'defaultSet', excludeAmbiguous: true })
+ *
  * @since 1.0.0
  * @category Generator
  * @public
  */
-export const tokenGenerator: (length: number, type_: CharacterSetType) => string = (length: number, type_: CharacterSetType): string => {
+export const tokenGenerator: tokenGeneratorType = (length: number, type_: CharacterSetType | TokenOptions = 'defaultSet'): string => {
+    if (!Number.isInteger(length) || length < 0) throw new Error('Token length must be a non-negative integer')
+    const { alphabet, first } = tokenAlphabet(type_),
+        prefix: string = typeof type_ === 'object' ? type_.prefix ?? '' : ''
+    if (first.length === 0) throw new Error('The alphabet has no characters allowed in the first position')
     let token: string = ''
-    const characterSet: any = characterSets[type_] || characterSets.defaultSet
     for (let i: number = 0; i < length; i++) {
-        token += characterSet.charAt(Math.floor(Math.random() * characterSet.length))
+        const set: string[] = i === 0 ? first : alphabet
+        token += set[randomInt(set.length)]
     }
-    do {
-        var _token_: any = token.split('')
-        if (_token_[0] === '0') {
-            _token_[0] = characterSet.charAt(Math.floor(Math.random() * characterSet.length))
-        }
-        if (token.length < length) {
-            token += characterSet.charAt(Math.floor(Math.random() * characterSet.length))
-        }
-    } while (_token_[0] === '0' || token.length !== length)
-    return _token_.join('')
-}
\ No newline at end of file
+    return prefix + token
+}
+
+/**
+ * Reports the entropy of random tokens of a given length and alphabet, as generated by `tokenGenerator`.
+ *
+ * @param {number} length - The token length (without prefix).
+ * @param {CharacterSetType | TokenOptions} [type_='defaultSet'] - The character set, or token options.
+ * @returns {EntropyReport} The alphabet size and the entropy in bits.
+ *
+ * @example
+ * entropyBits(21, { alphabet: 'abcdef0123456789', noLeadingZero: false }) // { length: 21, alphabetSize: 16, bits: 84 }
+ *
+ * @since 1.1.0
+ * @category Generator
+ * @public
+ */
+export const entropyBits: entropyBitsType = (length: number, type_: CharacterSetType | TokenOptions = 'defaultSet'): EntropyReport => {
+    const { alphabet, first } = tokenAlphabet(type_),
+        bits: number = length > 0 ? Math.log2(first.length) + (length - 1) * Math.log2(alphabet.length) : 0
+    return { length, alphabetSize: alphabet.length, bits: Math.round(bits * 100) / 100 }
+}
+
+/**
+ * Generates a random (version 4) UUID.
+ *
+ * @returns {string} A UUID such as `"9b2e4c1a-5f3d-4e8a-b6c7-0d1e2f3a4b5c"`.
+ *
+ * @since 1.1.0
+ * @category Generator
+ * @public
+ */
+export const uuidv4: () => string = (): string => randomUUID()
+
+/**
+ * Generates a time-ordered (version 7, RFC 9562) UUID: a 48 bit millisecond timestamp
+ * followed by 74 random bits, so IDs sort by creation time.
+ *
+ * @returns {string} A UUID such as `"01890a5d-ac96-774b-bcce-b302099a8057"`.
+ *
+ * @since 1.1.0
+ * @category Generator
+ * @public
+ */
+export const uuidv7: () => string = (): string => {
+    const bytes: Buffer = randomBytes(16)
+    bytes.writeUIntBE(Date.now(), 0, 6)
+    bytes[6] = 0x70 | (bytes[6] & 0x0f)
+    bytes[8] = 0x80 | (bytes[8] & 0x3f)
+    const hex: string = bytes.toString('hex')
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+}
+
+/**
+ * Generates a ULID: a 48 bit millisecond timestamp and 80 random bits in Crockford Base32,
+ * 26 characters that sort by creation time.
+ *
+ * @returns {string} A ULID such as `"01ARZ3NDEKTSV4RRFFQ69G5FAV"`.
+ *
+ * @since 1.1.0
+ * @category Generator
+ * @public
+ */
+export const ulid: () => string = (): string => {
+    let time: number = Date.now(),
+        timePart: string = ''
+    for (let i: number = 0; i < 10; i++) {
+        timePart = CROCKFORD_BASE32[time % 32] + timePart
+        time = Math.floor(time / 32)
+    }
+    return timePart + tokenGenerator(16, { alphabet: CROCKFORD_BASE32, noLeadingZero: false })
+}
+
+/**
+ * Generates a nanoid-style URL-safe ID.
+ *
+ * @param {number} [size=21] - The ID length, 21 characters give about 126 bits of entropy.
+ * @param {string} [alphabet] - Custom alphabet, URL-safe `A-Za-z0-9_-` by default.
+ * @returns {string} A random ID such as `"V1StGXR8_Z5jdHi6B-myT"`.
+ *
+ * @since 1.1.0
+ * @category Generator
+ * @public
+ */
+export const nanoid: (size?: number, alphabet?: string) => string = (size: number = 21, alphabet: string = URL_ALPHABET): string =>
+    tokenGenerator(size, { alphabet, noLeadingZero: false })
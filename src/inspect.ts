@@ -0,0 +1,112 @@
+import { compressionAlgorithm } from './compression'
+import { algorithmIds, ENVELOPE_MAGIC, ENVELOPE_VERSION, envelopeCiphers, readEnvelopeHeader } from './envelope'
+import { MalformedCiphertextError } from './errors'
+import { PROVIDER_MAGIC, PROVIDER_VERSION } from './provider'
+import type { CipherAlgorithm, CiphertextInfo, EnvelopeHeader, inspectCiphertextType } from './types'
+
+const hasMagic = (bytes: Buffer): boolean =>
+    bytes.length >= 3 && bytes[2] < 0x20 && (bytes.subarray(0, 2).equals(ENVELOPE_MAGIC) || bytes.subarray(0, 2).equals(PROVIDER_MAGIC))
+
+/**
+ * Decodes a Base64, Base64url or hex ciphertext, or returns `null` if it does not start with
+ * the envelope or key provider magic bytes.
+ */
+const magicBytes = (data: string | Uint8Array): Buffer | null => {
+    if (typeof data !== 'string') {
+        const bytes: Buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+        return hasMagic(bytes) ? bytes : null
+    }
+    if (!/^[A-Za-z0-9+/_-]+={0,2}$/.test(data)) return null
+    const bytes: Buffer = Buffer.from(data, 'base64')
+    if (hasMagic(bytes)) return bytes
+    const hex: Buffer | null = /^(?:[0-9a-fA-F]{2})+$/.test(data) ? Buffer.from(data, 'hex') : null
+    return hex !== null && hasMagic(hex) ? hex : null
+}
+
+const algorithmName = (header: EnvelopeHeader): CipherAlgorithm =>
+    (Object.keys(algorithmIds) as CipherAlgorithm[]).find((name: CipherAlgorithm): boolean => algorithmIds[name] === header.alg) as CipherAlgorithm
+
+/**
+ * Describes the v2 envelope at the start of `bytes`.
+ */
+const envelopeInfo = (bytes: Buffer): CiphertextInfo => {
+    if (bytes[2] !== ENVELOPE_VERSION) return { format: 'envelope', version: bytes[2], supported: false, length: bytes.length }
+    const parsed = readEnvelopeHeader(bytes)
+    if (parsed === null) throw new MalformedCiphertextError('Malformed ciphertext: truncated header')
+    const { header, headerEnd } = parsed,
+        { ivLength, tagLength } = envelopeCiphers[header.alg]
+    return {
+        format: header.chunk === undefined ? 'envelope' : 'stream',
+        version: parsed.version,
+        supported: true,
+        algorithm: algorithmName(header),
+        ...(header.kid !== undefined && { keyId: header.kid }),
+        ...(header.kdf !== undefined && { kdf: header.kdf.name }),
+        ...(header.ty !== undefined && { valueType: header.ty }),
+        bound: header.ad === true,
+        ...(header.chunk !== undefined && { chunkSize: header.chunk }),
+        ...(header.zip !== undefined && { compression: compressionAlgorithm(header.zip) }),
+        length: bytes.length,
+        ...(header.chunk === undefined && header.zip === undefined && { plaintextLength: Math.max(bytes.length - headerEnd - ivLength - tagLength, 0) }),
+    }
+}
+
+/**
+ * Describes a key provider ciphertext: the master key ID from the wrapped key record, and the
+ * algorithm and plaintext length from the envelope after it.
+ */
+const providerInfo = (bytes: Buffer): CiphertextInfo => {
+    if (bytes[2] !== PROVIDER_VERSION) return { format: 'provider', version: bytes[2], supported: false, length: bytes.length }
+    if (bytes.length < 5) throw new MalformedCiphertextError('Malformed ciphertext: truncated wrapped key record')
+    const end: number = 5 + bytes.readUInt16BE(3)
+    let record: any
+    try {
+        record = JSON.parse(bytes.subarray(5, end).toString('utf8'))
+    } catch {
+        throw new MalformedCiphertextError('Malformed ciphertext: invalid wrapped key record')
+    }
+    if (typeof record?.kid !== 'string' || end >= bytes.length) throw new MalformedCiphertextError('Malformed ciphertext: invalid wrapped key record')
+    const envelope: CiphertextInfo = envelopeInfo(bytes.subarray(end))
+    return {
+        format: 'provider',
+        version: bytes[2],
+        supported: envelope.supported,
+        algorithm: envelope.algorithm,
+        keyId: record.kid,
+        ...(envelope.compression !== undefined && { compression: envelope.compression }),
+        length: bytes.length,
+        plaintextLength: envelope.plaintextLength,
+    }
+}
+
+/**
+ * Describes a ciphertext without decrypting it and without a key: its format and version,
+ * the algorithm, the key ID it was encrypted with, its compression and its length. Useful to find values that
+ * still use an old key or the legacy format, or to tell why a value does not decrypt.
+ *
+ * Versioned ciphertexts are recognized in every encoding (Base64, Base64url, hex or raw bytes),
+ * including streamed files (pass the first bytes) and key provider ciphertexts, whose `keyId` is
+ * the master key ID. The legacy (v1) format has no header, so any other string is reported as
+ * `'legacy'`, as it would be decrypted, and other bytes as `'unknown'`. A version written by a
+ * newer release is reported with `supported: false`.
+ *
+ * @param {string | Uint8Array} data - The ciphertext.
+ * @returns {CiphertextInfo} What the ciphertext header tells.
+ * @throws {MalformedCiphertextError} If the data starts like a versioned ciphertext but its header is truncated or unreadable.
+ *
+ * @example
+ * inspectCiphertext(user.ssn)
+ * // { format: 'envelope', version: 2, supported: true, algorithm: 'aes-256-gcm', keyId: '2024', bound: false, length: 103, plaintextLength: 11 }
+ * const stale = rows.filter((row) => inspectCiphertext(row.secret).keyId !== keyring.activeKeyId)
+ *
+ * @since 1.1.0
+ * @category Encryption
+ * @public
+ */
+export const inspectCiphertext: inspectCiphertextType = (data: string | Uint8Array): CiphertextInfo => {
+    if (typeof data !== 'string' && !(data instanceof Uint8Array)) throw new TypeError('Ciphertexts are strings or bytes')
+    const bytes: Buffer | null = magicBytes(typeof data === 'string' ? data.trim() : data)
+    if (bytes !== null) return bytes.subarray(0, 2).equals(PROVIDER_MAGIC) ? providerInfo(bytes) : envelopeInfo(bytes)
+    if (typeof data !== 'string' || data.trim() === '') return { format: 'unknown', supported: false, length: data.length }
+    return { format: 'legacy', version: 1, supported: true, length: data.trim().length }
+}
@@ -0,0 +1,34 @@
+import type { KdfParams } from './types'
+
+/**
+ * Default scrypt cost of `deriveKey`, and the highest cost a ciphertext header can ask a
+ * passphrase string for.
+ */
+export const SCRYPT_DEFAULTS: { N: number, r: number, p: number } = { N: 2 ** 15, r: 8, p: 1 }
+
+/**
+ * Default PBKDF2 iteration count of `deriveKey`, and the highest count a ciphertext header
+ * can ask a passphrase string for.
+ */
+export const PBKDF2_DEFAULT_ITERATIONS: number = 600000
+
+const isCost = (value: unknown, max: number): boolean =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= max
+
+/**
+ * Whether a passphrase string may be derived with key derivation parameters read from a
+ * ciphertext header. Anyone can write a header, so only the costs of `deriveKey`'s defaults
+ * (or lower) are accepted; ciphertexts of costlier keys decrypt with the key object itself.
+ *
+ * @param {KdfParams} params - The parameters from the header.
+ * @returns {boolean} `true` if the derivation is within the limits.
+ */
+export const isHeaderKdfAllowed = (params: KdfParams): boolean => {
+    if (typeof params?.salt !== 'string') return false
+    if (params.name === 'scrypt')
+        return isCost(params.N, SCRYPT_DEFAULTS.N) && params.N > 1 && (params.N & (params.N - 1)) === 0 &&
+            isCost(params.r, SCRYPT_DEFAULTS.r) && isCost(params.p, SCRYPT_DEFAULTS.p)
+    if (params.name === 'pbkdf2')
+        return isCost(params.iterations, PBKDF2_DEFAULT_ITERATIONS) && (params.hash === 'sha256' || params.hash === 'sha512')
+    return false
+}
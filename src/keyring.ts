@@ -0,0 +1,117 @@
+import { InvalidKeyError } from './errors'
+import type { createKeyringType, KeyInput, Keyring, KeyringOptions, SecretKey } from './types'
+
+type KeyringState = {
+    keys: Map<string, SecretKey>
+    active: string
+    legacyKeyId?: string
+}
+
+const keyringStates: WeakMap<Keyring, KeyringState> = new WeakMap()
+
+const assertKeyId = (id: string): void => {
+    if (typeof id !== 'string' || id.length === 0) throw new Error('Key IDs must be non-empty strings')
+}
+
+/**
+ * Creates a keyring: a set of named keys with one active key.
+ *
+ * A keyring can be passed as `key` to every function in the library. New ciphertexts use
+ * the active key and embed its ID, and `decrypt`/`decryptObject` pick the right key by that ID,
+ * so old data keeps decrypting after the active key changes. Ciphertexts without a key ID
+ * (legacy v1 or pre-keyring v2) use `legacyKeyId`, or the active key if it is not set.
+ *
+ * @param {KeyringOptions} options - The keys by ID and the active key ID.
+ * @returns {Keyring} The keyring.
+ * @throws {Error} If the active or legacy key ID is not in the ring.
+ *
+ * @example
+ * const keyring = createKeyring({ keys: { '2024': process.env.OLD_KEY, '2025': process.env.NEW_KEY }, active: '2025' })
+ * const encrypted = encrypt('hello', { key: keyring }) // embeds key ID "2025"
+ * decrypt(encrypted, { key: keyring })
+ *
+ * @since 1.1.0
+ * @category Keys
+ * @public
+ */
+export const createKeyring: createKeyringType = (options: KeyringOptions): Keyring => {
+    const state: KeyringState = { keys: new Map(), active: options.active, legacyKeyId: options.legacyKeyId }
+    for (const [id, key] of Object.entries(options.keys || {})) {
+        assertKeyId(id)
+        state.keys.set(id, key)
+    }
+    if (!state.keys.has(state.active)) throw new Error(`Active key ID "${state.active}" is not in the keyring`)
+    if (state.legacyKeyId !== undefined && !state.keys.has(state.legacyKeyId))
+        throw new Error(`Legacy key ID "${state.legacyKeyId}" is not in the keyring`)
+
+    const keyring: Keyring = {
+        get activeKeyId(): string {
+            return state.active
+        },
+        get keyIds(): string[] {
+            return [...state.keys.keys()]
+        },
+        has: (id: string): boolean => state.keys.has(id),
+        add: (id: string, key: SecretKey, addOptions?: { active?: boolean }): Keyring => {
+            assertKeyId(id)
+            state.keys.set(id, key)
+            if (addOptions?.active) state.active = id
+            return keyring
+        },
+        remove: (id: string): Keyring => {
+            if (id === state.active) throw new Error(`Cannot remove the active key "${id}"`)
+            if (id === state.legacyKeyId) state.legacyKeyId = undefined
+            state.keys.delete(id)
+            return keyring
+        },
+        setActive: (id: string): Keyring => {
+            if (!state.keys.has(id)) throw new Error(`Key ID "${id}" is not in the keyring`)
+            state.active = id
+            return keyring
+        },
+    }
+    keyringStates.set(keyring, state)
+    return keyring
+}
+
+/**
+ * Checks whether a value is a keyring created by `createKeyring`.
+ *
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} `true` if the value is a `Keyring`.
+ *
+ * @since 1.1.0
+ * @category Keys
+ * @public
+ */
+export const isKeyring: (value: unknown) => value is Keyring = (value: unknown): value is Keyring =>
+    typeof value === 'object' && value !== null && keyringStates.has(value as Keyring)
+
+/**
+ * Returns the key to encrypt with, and the key ID to embed when the input is a keyring.
+ */
+export const encryptionKey = (key: KeyInput): { key: SecretKey, kid?: string } => {
+    const state: KeyringState | undefined = isKeyring(key) ? keyringStates.get(key) : undefined
+    if (!state) return { key: key as SecretKey }
+    return { key: state.keys.get(state.active) as SecretKey, kid: state.active }
+}
+
+/**
+ * Returns the key to decrypt with, chosen by the ciphertext's key ID when the input is a keyring.
+ */
+export const decryptionKey = (key: KeyInput, kid?: string): SecretKey => {
+    const state: KeyringState | undefined = isKeyring(key) ? keyringStates.get(key) : undefined
+    if (!state) return key as SecretKey
+    const id: string = kid ?? state.legacyKeyId ?? state.active,
+        found: SecretKey | undefined = state.keys.get(id)
+    if (found === undefined) throw new InvalidKeyError(`Unknown key ID "${id}"`)
+    return found
+}
+
+/**
+ * Returns the keys and key IDs of a keyring as `createKeyring` options, to recreate it in a worker thread.
+ */
+export const keyringOptions = (keyring: Keyring): KeyringOptions => {
+    const state: KeyringState = keyringStates.get(keyring) as KeyringState
+    return { keys: Object.fromEntries(state.keys), active: state.active, legacyKeyId: state.legacyKeyId }
+}
@@ -0,0 +1,190 @@
+import { createHash, hkdfSync, pbkdf2Sync, randomBytes, scryptSync } from 'node:crypto'
+import { DEFAULT_KEY } from './codec'
+import { InvalidKeyError } from './errors'
+import { isHeaderKdfAllowed, PBKDF2_DEFAULT_ITERATIONS, SCRYPT_DEFAULTS } from './kdf'
+import type { deriveKeyType, importKeyType, KdfParams, KeyInput, SecretKey, ZexsonKey } from './types'
+
+export { DEFAULT_KEY }
+
+const keyMaterials: WeakMap<ZexsonKey, Buffer> = new WeakMap()
+
+let strictMode: boolean = typeof process !== 'undefined' && process.env?.ZEXSON_STRICT_KEYS === '1'
+
+/**
+ * Enables or disables strict key mode. In strict mode every function refuses to run
+ * with the built-in default key, instead of silently falling back to it.
+ * Strict mode can also be enabled with the `ZEXSON_STRICT_KEYS=1` environment variable.
+ *
+ * @param {boolean} enabled - Whether strict mode should be enabled.
+ * @returns {void}
+ *
+ * @example
+ * setStrictMode(true)
+ * encrypt('hello') // throws, no key given
+ *
+ * @since 1.1.0
+ * @category Keys
+ * @public
+ */
+export const setStrictMode: (enabled: boolean) => void = (enabled: boolean): void => {
+    strictMode = enabled
+}
+
+/**
+ * Reports whether strict key mode is enabled.
+ *
+ * @returns {boolean} `true` if the built-in default key is refused.
+ *
+ * @since 1.1.0
+ * @category Keys
+ * @public
+ */
+export const isStrictMode: () => boolean = (): boolean => strictMode
+
+/**
+ * Checks whether a value is a key object created by `deriveKey` or `importKey`.
+ *
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} `true` if the value is a `ZexsonKey`.
+ *
+ * @since 1.1.0
+ * @category Keys
+ * @public
+ */
+export const isZexsonKey: (value: unknown) => value is ZexsonKey = (value: unknown): value is ZexsonKey =>
+    typeof value === 'object' && value !== null && keyMaterials.has(value as ZexsonKey)
+
+const createKey = (algorithm: ZexsonKey['algorithm'], material: Buffer): ZexsonKey => {
+    const key: ZexsonKey = Object.freeze({
+        type: 'secret',
+        extractable: false,
+        algorithm: Object.freeze(algorithm),
+        usages: Object.freeze(['encrypt', 'decrypt']) as ZexsonKey['usages'],
+    })
+    keyMaterials.set(key, material)
+    return key
+}
+
+const runKdf = (passphrase: string, params: KdfParams): Buffer => {
+    const salt: Buffer = Buffer.from(params.salt, 'base64url')
+    if (params.name === 'scrypt')
+        return scryptSync(passphrase.normalize('NFC'), salt, 32, { N: params.N, r: params.r, p: params.p, maxmem: 256 * params.N * params.r })
+    if (params.name === 'pbkdf2')
+        return pbkdf2Sync(passphrase.normalize('NFC'), salt, params.iterations, 32, params.hash)
+    throw new Error(`Unsupported key derivation function: ${(params as KdfParams).name}`)
+}
+
+/**
+ * Derives a key object from a passphrase with scrypt (default) or PBKDF2.
+ *
+ * The returned object can be passed as `key` to every function in the library.
+ * Its derivation parameters are recorded in each ciphertext header, and every message
+ * additionally gets its own random salt, so no two messages share a cipher key.
+ *
+ * @param {string} passphrase - The passphrase to derive the key from.
+ * @param {DeriveKeyOptions} [options] - KDF selection, salt and cost parameters.
+ * @returns {ZexsonKey} The derived key object.
+ * @throws {Error} If the passphrase is empty or the parameters are invalid.
+ *
+ * @example
+ * const key = deriveKey(process.env.PASSPHRASE as string)
+ * const fast = deriveKey('passphrase', { kdf: 'pbkdf2', iterations: 310000 })
+ * const encrypted = encrypt('hello', { key })
+ *
+ * @since 1.1.0
+ * @category Keys
+ * @public
+ */
+export const deriveKey: deriveKeyType = (passphrase, options = {}): ZexsonKey => {
+    if (typeof passphrase !== 'string' || passphrase.length === 0) throw new InvalidKeyError('A non-empty passphrase is required')
+    const salt: string = (options.salt === undefined ? randomBytes(16) : Buffer.from(options.salt)).toString('base64url'),
+        params: KdfParams = (options.kdf || 'scrypt') === 'scrypt'
+            ? { name: 'scrypt', salt, N: options.cost ?? SCRYPT_DEFAULTS.N, r: options.blockSize ?? SCRYPT_DEFAULTS.r, p: options.parallelization ?? SCRYPT_DEFAULTS.p }
+            : { name: 'pbkdf2', salt, iterations: options.iterations ?? PBKDF2_DEFAULT_ITERATIONS, hash: options.hash ?? 'sha256' }
+    return createKey(params, runKdf(passphrase, params))
+}
+
+/**
+ * Wraps 32 bytes of raw key material (for example from a key file) into a key object.
+ *
+ * @param {Uint8Array | string} raw - 32 raw bytes, or their hex / Base64 encoding.
+ * @returns {ZexsonKey} The key object.
+ * @throws {InvalidKeyError} If the material is not exactly 32 bytes long.
+ *
+ * @example
+ * const key = importKey(crypto.randomBytes(32))
+ *
+ * @since 1.1.0
+ * @category Keys
+ * @public
+ */
+export const importKey: importKeyType = (raw): ZexsonKey => {
+    const material: Buffer = typeof raw === 'string'
+        ? Buffer.from(raw, /^[0-9a-f]{64}$/i.test(raw) ? 'hex' : 'base64')
+        : Buffer.from(raw)
+    if (material.length !== 32) throw new InvalidKeyError('Raw keys must be exactly 32 bytes long')
+    return createKey({ name: 'raw' }, material)
+}
+
+/**
+ * Applies the default key and enforces strict mode.
+ */
+export const resolveKey = (key: KeyInput | undefined, fallback: string = DEFAULT_KEY): KeyInput => {
+    if (strictMode && (key === undefined || key === DEFAULT_KEY))
+        throw new InvalidKeyError('Strict mode: refusing to use the built-in default key, pass a key explicitly')
+    return key ?? fallback
+}
+
+/**
+ * Returns the KDF parameters to record in a ciphertext header for the given key.
+ */
+export const kdfParams = (key: SecretKey): KdfParams | undefined =>
+    isZexsonKey(key) && key.algorithm.name !== 'raw' ? key.algorithm as KdfParams : undefined
+
+/**
+ * Returns the 32 byte master key for a key input. When `params` come from a ciphertext
+ * header, key objects are checked against them and string passphrases are re-derived, but
+ * only within the default costs of `deriveKey`: a forged header must not make decryption
+ * arbitrarily slow or memory hungry. Without `params` a key string is hashed once with
+ * SHA-256 and not stretched, a KDF run per message would make bulk encryption unusably slow.
+ */
+export const masterKey = (key: SecretKey, params?: KdfParams): Buffer => {
+    if (isZexsonKey(key)) {
+        const own: KdfParams | undefined = kdfParams(key)
+        if (params && (!own || JSON.stringify(own) !== JSON.stringify(params)))
+            throw new InvalidKeyError('Key derivation parameters do not match the ciphertext')
+        return keyMaterials.get(key) as Buffer
+    }
+    if (params) {
+        if (!isHeaderKdfAllowed(params))
+            throw new InvalidKeyError('The ciphertext asks for a key derivation above the default cost, decrypt it with the key object from deriveKey')
+        return runKdf(key, params)
+    }
+    return createHash('sha256').update(key, 'utf8').digest()
+}
+
+/**
+ * Derives a per-message cipher key from a master key and a message salt (HKDF-SHA256).
+ */
+export const messageKey = (master: Buffer, salt: Buffer, info: string): Buffer =>
+    Buffer.from(hkdfSync('sha256', master, salt, `zexson:${info}`, 32))
+
+/**
+ * Returns the derivation parameters and material of a key object, so `restoreKey` can
+ * recreate it in a worker thread.
+ */
+export const keyParts = (key: ZexsonKey): { algorithm: ZexsonKey['algorithm'], material: Buffer } =>
+    ({ algorithm: key.algorithm, material: keyMaterials.get(key) as Buffer })
+
+/**
+ * Recreates a key object from the parts returned by `keyParts`.
+ */
+export const restoreKey = (algorithm: ZexsonKey['algorithm'], material: Uint8Array): ZexsonKey =>
+    createKey({ ...algorithm }, Buffer.from(material))
+
+/**
+ * Returns the string form of a key as used by the legacy character shifting functions.
+ */
+export const legacyKeyString = (key: SecretKey): string =>
+    isZexsonKey(key) ? (keyMaterials.get(key) as Buffer).toString('hex') : key
+
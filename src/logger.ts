@@ -0,0 +1,44 @@
+import type { Logger, setLoggerType } from './types'
+
+const consoleLogger: Logger = {
+    debug: (message: string, details?: Record<string, unknown>): void => details === undefined ? console.debug(message) : console.debug(message, details),
+    info: (message: string, details?: Record<string, unknown>): void => details === undefined ? console.info(message) : console.info(message, details),
+    warn: (message: string, details?: Record<string, unknown>): void => details === undefined ? console.warn(message) : console.warn(message, details),
+    error: (message: string, details?: Record<string, unknown>): void => details === undefined ? console.error(message) : console.error(message, details),
+}
+
+const silent = (): void => undefined
+
+let activeLogger: Logger = consoleLogger
+
+/**
+ * Replaces the logger used by the library for its diagnostics (by default `console`).
+ * Levels missing from `logger` are dropped, and `null` silences the library.
+ *
+ * The library never passes plaintext, decrypted values or keys to the logger: messages name
+ * the operation and outcome only, so it is safe to forward them to central logging.
+ *
+ * @param {Partial<Logger> | null} logger - The logger (such as a pino or winston instance), or `null`.
+ * @returns {void}
+ *
+ * @example
+ * setLogger({ debug: (message, details) => log.debug(details ?? {}, message), warn: (message) => log.warn(message) })
+ * setLogger(null)
+ *
+ * @since 1.1.0
+ * @category Logging
+ * @public
+ */
+export const setLogger: setLoggerType = (logger: Partial<Logger> | null): void => {
+    activeLogger = logger === null ? { debug: silent, info: silent, warn: silent, error: silent } : {
+        debug: logger.debug?.bind(logger) ?? silent,
+        info: logger.info?.bind(logger) ?? silent,
+        warn: logger.warn?.bind(logger) ?? silent,
+        error: logger.error?.bind(logger) ?? silent,
+    }
+}
+
+/**
+ * Returns the logger set with `setLogger`.
+ */
+export const logger = (): Logger => activeLogger
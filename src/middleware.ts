@@ -0,0 +1,213 @@
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import { decryptObject, encryptObject } from './crypt'
+import { fromPlain, markedPaths, toPlain } from './decorators'
+import { ValidationError } from './errors'
+import { resolveKey } from './keys'
+import { fieldSelection, formatPath } from './paths'
+import type { FieldSelection } from './paths'
+import { validate } from './validation'
+import type { createDtoMiddlewareType, DtoMiddleware, DtoMiddlewareOptions, DtoRequest, encryptResponseType, FieldMetadata, KeyInput, NextFunction, ObjectCryptOptions, SendEncryptedOptions, sendEncryptedType, ValidationIssue } from './types'
+
+const DEFAULT_BODY_LIMIT: number = 1024 * 1024
+
+const sendErrors = (res: ServerResponse, status: number, errors: ValidationIssue[]): void => {
+    res.statusCode = status
+    res.setHeader('Content-Type', 'application/json; charset=utf-8')
+    res.end(JSON.stringify({ errors }))
+}
+
+/**
+ * Reads the raw request body when no body parser ran before (plain `node:http`).
+ * Resolves `null` as soon as the body (or its announced `Content-Length`) exceeds `limit`
+ * bytes, the rest is not read.
+ */
+const readBody = (req: IncomingMessage, limit: number): Promise<Buffer | null> => new Promise((resolve, reject): void => {
+    if (req.readableEnded) return resolve(Buffer.alloc(0))
+    if (Number(req.headers['content-length']) > limit) return resolve(null)
+    const chunks: Buffer[] = []
+    let size: number = 0
+    const onData = (chunk: Buffer): void => {
+        size += chunk.length
+        if (size <= limit) return void chunks.push(chunk)
+        req.removeListener('data', onData)
+        req.pause()
+        resolve(null)
+    }
+    req.on('data', onData)
+    req.on('end', (): void => resolve(Buffer.concat(chunks)))
+    req.on('error', reject)
+})
+
+/**
+ * Closes the connection of a request whose body was not read to the end, once the response
+ * has been sent.
+ */
+const discardRequest = (req: IncomingMessage, res: ServerResponse): void => {
+    if (res.writableFinished) req.destroy()
+    else res.once('finish', (): void => void req.destroy())
+}
+
+/**
+ * Lists the selected values of a parsed body that are not strings and so cannot be ciphertexts.
+ * `decryptObject` passes such values through, the middleware must not take them as decrypted.
+ */
+const plaintextPaths = (value: unknown, path: string[], selection: FieldSelection): string[] => {
+    if (!selection.reaches(path)) return []
+    if (Array.isArray(value)) return value.flatMap((item: unknown, i: number): string[] => plaintextPaths(item, [...path, `[${i}]`], selection))
+    if (typeof value === 'object' && value !== null)
+        return Object.entries(value).flatMap(([k, v]): string[] => plaintextPaths(v, [...path, k], selection))
+    return selection.selects(path) && typeof value !== 'string' ? [formatPath(path)] : []
+}
+
+const isRequestField = (meta: FieldMetadata): boolean => meta.encrypted
+
+const isResponseField = (meta: FieldMetadata): boolean => meta.encrypted || meta.sensitive
+
+/**
+ * Creates a `(req, res, next)` middleware that turns a JSON request body into a validated DTO
+ * instance, for Express, Connect or plain `node:http`.
+ *
+ * The body is taken from `req.body` when a body parser already ran, otherwise it is read and
+ * parsed from the request stream. The fields marked `encrypted` are decrypted (by their
+ * serialized names, nested DTOs included), the instance is built with `fromPlain` and checked
+ * with `validate`. Legacy (v1) values are always rejected, clients could forge them.
+ * On success `req.body` is replaced by the instance and `next()` is called. Otherwise the
+ * middleware responds with `{ errors: ValidationIssue[] }`: 400 for malformed JSON, undecryptable
+ * fields or encrypted fields sent as non-strings (rule `'decrypt'`) and validation errors, 413 for bodies over the limit (the rest of
+ * such a body is not read and the connection is closed). Unexpected errors are passed to `next(err)`.
+ *
+ * @template T - The DTO class type.
+ * @param {new () => T} type - The DTO class.
+ * @param {KeyInput} key - Decryption key string, key object or keyring.
+ * @param {DtoMiddlewareOptions} [options] - Hydration, binding, body limit and error response options.
+ * @param {boolean} [options.strict=false] - Reject undeclared body properties.
+ * @param {number} [options.limit=1048576] - Maximum body size in bytes when the body is read from the stream.
+ * @param {(res: ServerResponse, status: number, errors: ValidationIssue[]) => void} [options.onError] - Custom error response.
+ * @returns {DtoMiddleware} The middleware.
+ * @throws {Error} If the key is invalid (checked when the middleware is created).
+ *
+ * @example
+ * // Express
+ * app.post('/users', createDtoMiddleware(UserDTO, process.env.ENCRYPTION_KEY as string), (req, res) => {
+ *   const user: UserDTO = req.body
+ * })
+ *
+ * // node:http
+ * const parseUser = createDtoMiddleware(UserDTO, key)
+ * http.createServer((req, res) => parseUser(req, res, err => {
+ *   if (err) return res.writeHead(500).end()
+ *   sendEncrypted(res, req.body, key)
+ * }))
+ *
+ * @since 1.1.0
+ * @category Middleware
+ * @public
+ */
+export const createDtoMiddleware: createDtoMiddlewareType = <T extends object>(type: new () => T, key: KeyInput, options: DtoMiddlewareOptions = {}): DtoMiddleware => {
+    const { strict, limit = DEFAULT_BODY_LIMIT, onError = sendErrors, ...cryptOptions } = options,
+        decryptionKey: KeyInput = resolveKey(key),
+        paths: string[] = markedPaths(type.prototype, isRequestField, 'name'),
+        selection: FieldSelection = fieldSelection({ include: paths })
+
+    const reject = (res: ServerResponse, status: number, errors: ValidationIssue[]): false => {
+        onError(res, status, errors)
+        return false
+    }
+
+    const handle = async (req: DtoRequest, res: ServerResponse): Promise<boolean> => {
+        let body: unknown = req.body
+        if (body === undefined) {
+            const raw: Buffer | null = await readBody(req, limit)
+            if (raw === null) {
+                if (!res.headersSent) res.setHeader('Connection', 'close')
+                reject(res, 413, [{ path: '', rule: 'size', message: `Request body exceeds ${limit} bytes` }])
+                discardRequest(req, res)
+                return false
+            }
+            try {
+                body = raw.length === 0 ? {} : JSON.parse(raw.toString('utf8'))
+            } catch {
+                return reject(res, 400, [{ path: '', rule: 'json', message: 'Request body is not valid JSON' }])
+            }
+        }
+        if (typeof body !== 'object' || body === null || Array.isArray(body))
+            return reject(res, 400, [{ path: '', rule: 'type', message: 'Request body must be a JSON object' }])
+
+        let plain: unknown = body
+        if (paths.length > 0) {
+            const unencrypted: string[] = plaintextPaths(body, [], selection)
+            if (unencrypted.length > 0)
+                return reject(res, 400, unencrypted.map((path: string): ValidationIssue => ({ path, rule: 'decrypt', message: 'Encrypted fields must be sent as ciphertext strings' })))
+            try {
+                plain = decryptObject(body, decryptionKey, { ...cryptOptions, include: paths, allowLegacy: false })
+            } catch {
+                return reject(res, 400, [{ path: '', rule: 'decrypt', message: 'Encrypted fields could not be decrypted' }])
+            }
+        }
+
+        let instance: T
+        try {
+            instance = fromPlain(type, plain, { strict })
+        } catch (err) {
+            if (err instanceof ValidationError) return reject(res, 400, err.errors)
+            throw err
+        }
+        const { valid, errors } = validate(instance)
+        if (!valid) return reject(res, 400, errors)
+        req.body = instance
+        return true
+    }
+
+    return (req: DtoRequest, res: ServerResponse, next: NextFunction): void => {
+        handle(req, res).then((passed: boolean): void => passed ? next() : undefined, next)
+    }
+}
+
+/**
+ * Serializes a DTO instance for a response with `toPlain` and encrypts the fields marked
+ * `encrypted` or `sensitive` (by their serialized names, nested DTOs included), so sensitive
+ * values leave the server encrypted instead of being dropped.
+ *
+ * @param {object} instance - The DTO instance.
+ * @param {KeyInput} key - Encryption key string, key object or keyring.
+ * @param {Omit<ObjectCryptOptions, 'include' | 'exclude' | 'schema'>} [options] - Binding and MAC options.
+ * @returns {Record<string, any>} The JSON-safe response body.
+ *
+ * @example
+ * res.json(encryptResponse(user, process.env.ENCRYPTION_KEY as string))
+ *
+ * @since 1.1.0
+ * @category Middleware
+ * @public
+ */
+export const encryptResponse: encryptResponseType = (instance: object, key: KeyInput, options: Omit<ObjectCryptOptions, 'include' | 'exclude' | 'schema'> = {}): Record<string, any> => {
+    const plain: Record<string, unknown> = toPlain(instance, { includeSensitive: true }),
+        paths: string[] = markedPaths(instance, isResponseField, 'name')
+    return paths.length === 0 ? plain : encryptObject(plain, key, { ...options, include: paths })
+}
+
+/**
+ * Sends a DTO instance as a JSON response with its `encrypted` and `sensitive` fields encrypted
+ * (see `encryptResponse`). Works with Express, Connect and plain `node:http` responses.
+ *
+ * @param {ServerResponse} res - The response.
+ * @param {object} instance - The DTO instance.
+ * @param {KeyInput} key - Encryption key string, key object or keyring.
+ * @param {SendEncryptedOptions} [options] - Status code, binding and MAC options.
+ * @param {number} [options.status=200] - The response status code.
+ * @returns {void}
+ *
+ * @example
+ * sendEncrypted(res, user, process.env.ENCRYPTION_KEY as string, { status: 201 })
+ *
+ * @since 1.1.0
+ * @category Middleware
+ * @public
+ */
+export const sendEncrypted: sendEncryptedType = (res: ServerResponse, instance: object, key: KeyInput, options: SendEncryptedOptions = {}): void => {
+    const { status = 200, ...cryptOptions } = options,
+        body: string = JSON.stringify(encryptResponse(instance, key, cryptOptions))
+    res.statusCode = status
+    res.setHeader('Content-Type', 'application/json; charset=utf-8')
+    res.end(body)
+}
@@ -0,0 +1,184 @@
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { tokenGenerator } from './generator'
+import type { generateTotpSecretType, HotpOptions, hotpType, OtpauthUriOptions, otpauthUriType, OtpSecret, TotpOptions, totpType, VerifyHotpOptions, verifyHotpType, VerifyOtpResult, VerifyTotpOptions, verifyTotpType } from './types'
+
+const BASE32_ALPHABET: string = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+/**
+ * Decodes an RFC 4648 Base32 string. Spaces, hyphens, padding and lower case are tolerated.
+ */
+const base32Decode = (value: string): Buffer => {
+    const clean: string = value.replace(/[\s=-]/g, '').toUpperCase(),
+        bytes: number[] = []
+    let bits: number = 0,
+        buffer: number = 0
+    for (const char of clean) {
+        const index: number = BASE32_ALPHABET.indexOf(char)
+        if (index === -1) throw new Error(`Invalid Base32 character: ${char}`)
+        buffer = (buffer << 5) | index
+        bits += 5
+        if (bits >= 8) {
+            bits -= 8
+            bytes.push((buffer >> bits) & 0xff)
+        }
+    }
+    return Buffer.from(bytes)
+}
+
+const secretBytes = (secret: OtpSecret): Buffer => typeof secret === 'string' ? base32Decode(secret) : Buffer.from(secret)
+
+const sameCode = (a: string, b: string): boolean =>
+    a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b))
+
+/**
+ * Generates a random Base32 secret for TOTP/HOTP enrollment.
+ *
+ * @param {number} [length=32] - Number of Base32 characters, 32 characters are 160 bits (RFC 4226 recommendation).
+ * @returns {string} The Base32 secret, for example `"JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP"`.
+ *
+ * @example
+ * const secret = generateTotpSecret()
+ * const uri = otpauthUri({ secret, label: 'john@example.com', issuer: 'Zexson' })
+ *
+ * @since 1.1.0
+ * @category OTP
+ * @public
+ */
+export const generateTotpSecret: generateTotpSecretType = (length: number = 32): string =>
+    tokenGenerator(length, { alphabet: BASE32_ALPHABET, noLeadingZero: false })
+
+/**
+ * Generates an HMAC-based one-time password (RFC 4226).
+ *
+ * @param {OtpSecret} secret - Base32 secret string or raw secret bytes.
+ * @param {number} counter - The moving counter.
+ * @param {HotpOptions} [options] - Digits and HMAC algorithm.
+ * @param {number} [options.digits=6] - Code length.
+ * @param {OtpAlgorithm} [options.algorithm='sha1'] - HMAC algorithm.
+ * @returns {string} The zero-padded code.
+ * @throws {Error} If the counter or digit count is invalid.
+ *
+ * @example
+ * hotp(secret, 0) // "755224"
+ *
+ * @since 1.1.0
+ * @category OTP
+ * @public
+ */
+export const hotp: hotpType = (secret: OtpSecret, counter: number, options: HotpOptions = {}): string => {
+    const digits: number = options.digits ?? 6
+    if (!Number.isSafeInteger(counter) || counter < 0) throw new Error('The counter must be a non-negative integer')
+    if (!Number.isInteger(digits) || digits < 6 || digits > 10) throw new Error('Digits must be between 6 and 10')
+    const message: Buffer = Buffer.alloc(8)
+    message.writeUInt32BE(Math.floor(counter / 2 ** 32), 0)
+    message.writeUInt32BE(counter % 2 ** 32, 4)
+    const digest: Buffer = createHmac(options.algorithm ?? 'sha1', secretBytes(secret)).update(message).digest(),
+        offset: number = digest[digest.length - 1] & 0x0f,
+        binary: number = digest.readUInt32BE(offset) & 0x7fffffff
+    return String(binary % 10 ** digits).padStart(digits, '0')
+}
+
+/**
+ * Generates a time-based one-time password (RFC 6238).
+ *
+ * @param {OtpSecret} secret - Base32 secret string or raw secret bytes.
+ * @param {TotpOptions} [options] - Step, digits, algorithm and time.
+ * @param {number} [options.step=30] - Time step in seconds.
+ * @param {number} [options.digits=6] - Code length.
+ * @param {OtpAlgorithm} [options.algorithm='sha1'] - HMAC algorithm.
+ * @param {number} [options.timestamp=Date.now()] - Time in milliseconds.
+ * @returns {string} The zero-padded code.
+ *
+ * @example
+ * const code = totp(secret)
+ * const code8 = totp(secret, { digits: 8, algorithm: 'sha256' })
+ *
+ * @since 1.1.0
+ * @category OTP
+ * @public
+ */
+export const totp: totpType = (secret: OtpSecret, options: TotpOptions = {}): string =>
+    hotp(secret, Math.floor((options.timestamp ?? Date.now()) / 1000 / (options.step ?? 30)), options)
+
+/**
+ * Verifies an HOTP code against the expected counter and a look-ahead window.
+ *
+ * @param {string} token - The code entered by the user.
+ * @param {OtpSecret} secret - Base32 secret string or raw secret bytes.
+ * @param {number} counter - The next expected counter.
+ * @param {VerifyHotpOptions} [options] - Look-ahead window, digits and algorithm.
+ * @param {number} [options.window=0] - How many counters ahead to accept.
+ * @returns {VerifyOtpResult} `{ valid: true, counter, delta }` or `{ valid: false }`. Store `counter + 1` as the next counter.
+ *
+ * @since 1.1.0
+ * @category OTP
+ * @public
+ */
+export const verifyHotp: verifyHotpType = (token: string, secret: OtpSecret, counter: number, options: VerifyHotpOptions = {}): VerifyOtpResult => {
+    if (typeof token !== 'string') return { valid: false }
+    const code: string = token.replace(/\s/g, '')
+    for (let delta: number = 0; delta <= (options.window ?? 0); delta++)
+        if (sameCode(code, hotp(secret, counter + delta, options))) return { valid: true, counter: counter + delta, delta }
+    return { valid: false }
+}
+
+/**
+ * Verifies a TOTP code, accepting `window` time steps of clock drift in both directions.
+ *
+ * Pass `isReplay` to reject codes that were already used: it receives the matched time step
+ * counter (store the returned `counter` after a successful login, and reject counters that are
+ * lower or equal next time).
+ *
+ * @param {string} token - The code entered by the user.
+ * @param {OtpSecret} secret - Base32 secret string or raw secret bytes.
+ * @param {VerifyTotpOptions} [options] - Drift window, replay hook, step, digits, algorithm and time.
+ * @param {number} [options.window=1] - Accepted drift in time steps before and after the current one.
+ * @param {(counter: number) => boolean} [options.isReplay] - Returns `true` if the counter was already used.
+ * @returns {VerifyOtpResult} `{ valid: true, counter, delta }` or `{ valid: false, replayed? }`.
+ *
+ * @example
+ * const result = verifyTotp(req.body.code, user.totpSecret, { isReplay: counter => counter <= user.lastTotpCounter })
+ * if (result.valid) user.lastTotpCounter = result.counter
+ *
+ * @since 1.1.0
+ * @category OTP
+ * @public
+ */
+export const verifyTotp: verifyTotpType = (token: string, secret: OtpSecret, options: VerifyTotpOptions = {}): VerifyOtpResult => {
+    if (typeof token !== 'string') return { valid: false }
+    const code: string = token.replace(/\s/g, ''),
+        window: number = options.window ?? 1,
+        current: number = Math.floor((options.timestamp ?? Date.now()) / 1000 / (options.step ?? 30))
+    for (let delta: number = -window; delta <= window; delta++) {
+        const counter: number = current + delta
+        if (counter < 0 || !sameCode(code, hotp(secret, counter, options))) continue
+        if (options.isReplay?.(counter)) return { valid: false, replayed: true }
+        return { valid: true, counter, delta }
+    }
+    return { valid: false }
+}
+
+/**
+ * Builds an `otpauth://` URI for QR code enrollment in authenticator apps.
+ *
+ * @param {OtpauthUriOptions} options - Secret, account label, issuer and code parameters.
+ * @returns {string} The URI, for example `"otpauth://totp/Zexson:john%40example.com?secret=...&issuer=Zexson"`.
+ *
+ * @example
+ * const uri = otpauthUri({ secret, label: 'john@example.com', issuer: 'Zexson' })
+ *
+ * @since 1.1.0
+ * @category OTP
+ * @public
+ */
+export const otpauthUri: otpauthUriType = (options: OtpauthUriOptions): string => {
+    const type: 'totp' | 'hotp' = options.type ?? 'totp',
+        label: string = options.issuer ? `${encodeURIComponent(options.issuer)}:${encodeURIComponent(options.label)}` : encodeURIComponent(options.label),
+        params: string[] = [`secret=${options.secret.replace(/[\s=-]/g, '').toUpperCase()}`]
+    if (options.issuer) params.push(`issuer=${encodeURIComponent(options.issuer)}`)
+    if (options.algorithm) params.push(`algorithm=${options.algorithm.toUpperCase()}`)
+    if (options.digits) params.push(`digits=${options.digits}`)
+    if (type === 'totp' && options.step) params.push(`period=${options.step}`)
+    if (type === 'hotp') params.push(`counter=${options.counter ?? 0}`)
+    return `otpauth://${type}/${label}?${params.join('&')}`
+}
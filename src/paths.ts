@@ -0,0 +1,92 @@
+import type { EncryptionSchema, FieldSelectionOptions } from './types'
+
+/**
+ * Which fields of a document an object function touches.
+ * Paths are lists of segments: object keys, and array indexes written as `[0]`.
+ */
+export type FieldSelection = {
+    /** Whether the value at `path` is selected (it or one of its ancestors is included, none is excluded). */
+    selects: (path: readonly string[]) => boolean
+    /** Whether the value at `path` or anything below it can be selected. */
+    reaches: (path: readonly string[]) => boolean
+}
+
+const PATH_SEGMENT: RegExp = /(?:^|\.)([^.[\]]+)|\[(\*|\d+)\]/y
+
+/**
+ * Splits a field path such as `'cards[*].number'` into segments (`['cards', '[*]', 'number']`).
+ * `*` matches any object key and `[*]` any array index.
+ */
+export const parsePath = (path: string): string[] => {
+    const segments: string[] = []
+    let index: number = 0
+    while (index < path.length) {
+        PATH_SEGMENT.lastIndex = index
+        const match: RegExpExecArray | null = PATH_SEGMENT.exec(path)
+        if (match === null) throw new Error(`Invalid field path: "${path}"`)
+        segments.push(match[1] ?? `[${match[2]}]`)
+        index = PATH_SEGMENT.lastIndex
+    }
+    if (segments.length === 0) throw new Error('Field paths must not be empty')
+    return segments
+}
+
+/**
+ * Joins path segments back into the dot/bracket notation, the inverse of `parsePath`.
+ */
+export const formatPath = (path: readonly string[]): string =>
+    path.reduce((res: string, segment: string): string => segment.startsWith('[') || res === '' ? res + segment : `${res}.${segment}`, '')
+
+/**
+ * Encodes path segments for associated data and object MACs: object keys stay strings, array
+ * indexes become numbers. Unlike `formatPath` this is unambiguous, `{ 'a.b': x }` and
+ * `{ a: { b: x } }` encode differently.
+ */
+export const encodePath = (path: readonly string[]): (string | number)[] =>
+    path.map((segment: string): string | number => /^\[\d+\]$/.test(segment) ? Number(segment.slice(1, -1)) : segment)
+
+/**
+ * Lists the paths marked `true` in a schema, arrays in the schema describe every element.
+ */
+export const schemaPaths = (schema: EncryptionSchema, prefix: string = ''): string[] =>
+    Object.entries(schema).flatMap(([key, rule]): string[] => {
+        const path: string = prefix === '' ? key : `${prefix}.${key}`,
+            elementPath = (value: unknown, base: string): string[] =>
+                Array.isArray(value) ? elementPath(value[0], `${base}[*]`) :
+                    value === true ? [base] :
+                        typeof value === 'object' && value !== null ? schemaPaths(value as EncryptionSchema, base) : []
+        return elementPath(rule, path)
+    })
+
+const segmentMatches = (pattern: string, segment: string): boolean =>
+    pattern === segment || (pattern === '*' && !segment.startsWith('[')) || (pattern === '[*]' && segment.startsWith('['))
+
+/**
+ * Whether `pattern` matches the first segments of `path`, i.e. `path` is at or below a matching field.
+ */
+const coversPath = (pattern: readonly string[], path: readonly string[]): boolean =>
+    pattern.length <= path.length && pattern.every((segment: string, i: number): boolean => segmentMatches(segment, path[i]))
+
+/**
+ * Whether `path` lies on the way to a field matching `pattern`.
+ */
+const leadsTo = (pattern: readonly string[], path: readonly string[]): boolean =>
+    path.length < pattern.length && path.every((segment: string, i: number): boolean => segmentMatches(pattern[i], segment))
+
+/**
+ * Builds the field selection of `include`, `exclude` and `schema` options.
+ * Without `include` and `schema` every field is selected.
+ */
+export const fieldSelection = (options: FieldSelectionOptions = {}): FieldSelection => {
+    const includePaths: string[] | undefined = options.include === undefined && options.schema === undefined ? undefined :
+        [...(options.include ?? []), ...(options.schema ? schemaPaths(options.schema) : [])],
+        include: string[][] | undefined = includePaths?.map(parsePath),
+        exclude: string[][] = (options.exclude ?? []).map(parsePath),
+        excluded = (path: readonly string[]): boolean => exclude.some((pattern: string[]): boolean => coversPath(pattern, path))
+    return {
+        selects: (path: readonly string[]): boolean =>
+            !excluded(path) && (include === undefined || include.some((pattern: string[]): boolean => coversPath(pattern, path))),
+        reaches: (path: readonly string[]): boolean =>
+            !excluded(path) && (include === undefined || include.some((pattern: string[]): boolean => coversPath(pattern, path) || leadsTo(pattern, path))),
+    }
+}
@@ -0,0 +1,253 @@
+import { cpus } from 'node:os'
+import { join } from 'node:path'
+import { Worker } from 'node:worker_threads'
+import { decrypt, decryptLeaf, encrypt, encryptLeaf } from './crypt'
+import { IntegrityError, InvalidKeyError, MalformedCiphertextError, UnsupportedVersionError, ZexsonError } from './errors'
+import { createKeyring, isKeyring, keyringOptions } from './keyring'
+import { isZexsonKey, keyParts, restoreKey } from './keys'
+import type { CompressionOptions, createWorkerPoolType, DecryptOptions, EncryptOptions, KeyInput, SecretKey, WorkerPool, WorkerPoolOptions, ZexsonKey } from './types'
+
+/**
+ * A batch of bulk work. `encryptLeaves` and `decryptLeaves` take `[value, associated data]`
+ * pairs of `encryptObject` fields, `encrypt` and `decrypt` take plain values.
+ */
+export type BulkTask =
+    | { op: 'encryptLeaves', items: [unknown, Uint8Array | undefined][], compression: CompressionOptions }
+    | { op: 'decryptLeaves', items: [unknown, Uint8Array | undefined][], allowLegacy?: boolean }
+    | { op: 'encrypt', items: (string | Uint8Array)[], options: Omit<EncryptOptions, 'key'> }
+    | { op: 'decrypt', items: (string | Uint8Array)[], options: Omit<DecryptOptions, 'key'> }
+
+/**
+ * A key as it is sent to a worker thread: key objects and keyrings only live in the thread that
+ * created them, so they are sent as their parts and recreated.
+ */
+type SentSecret = string | { algorithm: ZexsonKey['algorithm'], material: Uint8Array }
+
+type SentKey = SentSecret | { keys: Record<string, SentSecret>, active: string, legacyKeyId?: string }
+
+export type WorkerRequest = { id: number, task: BulkTask, key: SentKey }
+
+/**
+ * An error thrown in a worker thread, as it is sent back to the pool.
+ */
+type SentError = { name: string, message: string, code?: string, version?: number }
+
+export type WorkerResponse = { id: number, result?: unknown[], error?: SentError }
+
+type Job = {
+    request: WorkerRequest
+    resolve: (result: unknown[]) => void
+    reject: (err: unknown) => void
+    signal?: AbortSignal
+    onAbort?: () => void
+}
+
+type PoolWorker = {
+    worker: Worker
+    job?: Job
+}
+
+type PoolState = {
+    concurrency: number
+    workers: PoolWorker[]
+    queue: Job[]
+    nextId: number
+    destroyed: boolean
+}
+
+const poolStates: WeakMap<WorkerPool, PoolState> = new WeakMap()
+
+const asBuffer = (bytes: Uint8Array): Buffer => Buffer.isBuffer(bytes) ? bytes : Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+/**
+ * Structured cloning turns Buffers into plain `Uint8Array`s, results get their Buffers back.
+ */
+const restoreBuffers = (value: unknown): unknown => {
+    if (value instanceof Uint8Array) return asBuffer(value)
+    if (Array.isArray(value)) return value.map(restoreBuffers)
+    return value
+}
+
+/**
+ * Runs a batch of bulk work on the current thread.
+ *
+ * @param {BulkTask} task - The batch.
+ * @param {KeyInput} key - The key, already resolved with `resolveKey`.
+ * @returns {unknown[]} The results, in the order of `task.items`.
+ */
+export const runTask = (task: BulkTask, key: KeyInput): unknown[] => {
+    switch (task.op) {
+        case 'encryptLeaves': return task.items.map(([value, aad]): unknown => encryptLeaf(value, key, aad && asBuffer(aad), task.compression))
+        case 'decryptLeaves': return task.items.map(([value, aad]): unknown => decryptLeaf(value, key, aad && asBuffer(aad), task.allowLegacy))
+        case 'encrypt': return task.items.map((value: string | Uint8Array): unknown => encrypt(value, { ...task.options, key }))
+        case 'decrypt': return task.items.map((value: string | Uint8Array): unknown => decrypt(value, { ...task.options, key }))
+    }
+}
+
+const sendSecret = (key: SecretKey): SentSecret => isZexsonKey(key) ? keyParts(key) : key
+
+const sendKey = (key: KeyInput): SentKey => {
+    if (!isKeyring(key)) return sendSecret(key)
+    const { keys, active, legacyKeyId } = keyringOptions(key)
+    return { keys: Object.fromEntries(Object.entries(keys).map(([id, secret]): [string, SentSecret] => [id, sendSecret(secret)])), active, legacyKeyId }
+}
+
+const receiveSecret = (key: SentSecret): SecretKey => typeof key === 'string' ? key : restoreKey(key.algorithm, key.material)
+
+/**
+ * Recreates a key sent to a worker thread.
+ */
+export const receiveKey = (key: SentKey): KeyInput => {
+    if (typeof key === 'string' || !('keys' in key)) return receiveSecret(key)
+    return createKeyring({ keys: Object.fromEntries(Object.entries(key.keys).map(([id, secret]): [string, SecretKey] => [id, receiveSecret(secret)])), active: key.active, legacyKeyId: key.legacyKeyId })
+}
+
+/**
+ * Converts an error thrown in a worker thread to a message.
+ */
+export const sendError = (err: unknown): SentError => {
+    if (!(err instanceof Error)) return { name: 'Error', message: String(err) }
+    return {
+        name: err.name,
+        message: err.message,
+        ...(err instanceof ZexsonError && { code: err.code }),
+        ...(err instanceof UnsupportedVersionError && { version: err.version }),
+    }
+}
+
+const errorClasses: Record<string, new (message: string) => Error> = { IntegrityError, InvalidKeyError, MalformedCiphertextError, RangeError, TypeError }
+
+/**
+ * Recreates an error thrown in a worker thread, with its class for the library's ciphertext and key errors.
+ */
+const receiveError = (sent: SentError): Error => {
+    if (sent.name === 'UnsupportedVersionError') return new UnsupportedVersionError(sent.version as number, sent.message)
+    const ErrorClass = errorClasses[sent.name]
+    if (ErrorClass !== undefined) return new ErrorClass(sent.message)
+    const err: Error = new Error(sent.message)
+    err.name = sent.name
+    return err
+}
+
+const finishJob = (job: Job): void => {
+    if (job.onAbort !== undefined) job.signal?.removeEventListener('abort', job.onAbort)
+}
+
+const removeWorker = (state: PoolState, poolWorker: PoolWorker, err: Error): void => {
+    state.workers = state.workers.filter((other: PoolWorker): boolean => other !== poolWorker)
+    const job: Job | undefined = poolWorker.job
+    poolWorker.job = undefined
+    if (job !== undefined) {
+        finishJob(job)
+        job.reject(err)
+    }
+    dispatch(state)
+}
+
+const spawnWorker = (state: PoolState): PoolWorker => {
+    const poolWorker: PoolWorker = { worker: new Worker(join(__dirname, 'worker.js')) }
+    poolWorker.worker.on('message', (response: WorkerResponse): void => {
+        const job: Job | undefined = poolWorker.job
+        poolWorker.job = undefined
+        poolWorker.worker.unref()
+        if (job !== undefined) {
+            finishJob(job)
+            if (response.error !== undefined) job.reject(receiveError(response.error))
+            else job.resolve((response.result as unknown[]).map(restoreBuffers))
+        }
+        dispatch(state)
+    })
+    poolWorker.worker.on('error', (err: Error): void => removeWorker(state, poolWorker, err))
+    poolWorker.worker.on('exit', (exitCode: number): void =>
+        removeWorker(state, poolWorker, new Error(state.destroyed ? 'The worker pool was destroyed' : `Worker thread exited with code ${exitCode}`)))
+    state.workers.push(poolWorker)
+    return poolWorker
+}
+
+/**
+ * Hands queued jobs to idle workers, starting workers up to the pool's concurrency.
+ * Idle workers are unreferenced, so an idle pool does not keep the process alive.
+ */
+const dispatch = (state: PoolState): void => {
+    while (!state.destroyed && state.queue.length > 0) {
+        const idle: PoolWorker | undefined = state.workers.find((poolWorker: PoolWorker): boolean => poolWorker.job === undefined)
+            ?? (state.workers.length < state.concurrency ? spawnWorker(state) : undefined)
+        if (idle === undefined) return
+        idle.job = state.queue.shift() as Job
+        idle.worker.ref()
+        idle.worker.postMessage(idle.job.request)
+    }
+}
+
+/**
+ * Runs a batch of bulk work on a pool's worker thread. A job still queued when `signal` aborts
+ * is dropped; a job already running finishes, but its result is discarded by the caller.
+ *
+ * @param {WorkerPool} pool - The pool, from `createWorkerPool`.
+ * @param {BulkTask} task - The batch.
+ * @param {KeyInput} key - The key, already resolved with `resolveKey`.
+ * @param {AbortSignal} [signal] - Drops the job if it is still queued.
+ * @returns {Promise<unknown[]>} The results, in the order of `task.items`.
+ */
+export const submitTask = (pool: WorkerPool, task: BulkTask, key: KeyInput, signal?: AbortSignal): Promise<unknown[]> => {
+    const state: PoolState | undefined = poolStates.get(pool)
+    if (state === undefined) return Promise.reject(new TypeError('pool must be created with createWorkerPool'))
+    if (state.destroyed) return Promise.reject(new Error('The worker pool was destroyed'))
+    return new Promise((resolve: (result: unknown[]) => void, reject: (err: unknown) => void): void => {
+        const job: Job = { request: { id: state.nextId++, task, key: sendKey(key) }, resolve, reject, signal }
+        if (signal !== undefined) {
+            job.onAbort = (): void => {
+                if (!state.queue.includes(job)) return
+                state.queue = state.queue.filter((other: Job): boolean => other !== job)
+                finishJob(job)
+                reject(signal.reason)
+            }
+            signal.addEventListener('abort', job.onAbort, { once: true })
+        }
+        state.queue.push(job)
+        dispatch(state)
+    })
+}
+
+/**
+ * Creates a pool of worker threads for CPU-heavy bulk work: pass it as the `pool` option of
+ * `encryptObjectAsync`, `decryptObjectAsync`, `encryptMany` and `decryptMany`, and their batches
+ * run in parallel off the main thread. Workers start on demand and do not keep the process
+ * alive while idle; call `destroy` when the pool is no longer needed.
+ *
+ * Keys are copied to the worker threads with each batch. Worker threads load the compiled
+ * build (`dist`), so the pool is not available when running the TypeScript sources directly.
+ *
+ * @param {WorkerPoolOptions} [options] - Pool options.
+ * @param {number} [options.concurrency] - Maximum number of worker threads, by default one less than the CPU count (at least 1).
+ * @returns {WorkerPool} The pool.
+ * @throws {RangeError} If `concurrency` is not a positive integer.
+ *
+ * @example
+ * const pool = createWorkerPool({ concurrency: 4 })
+ * const ciphertexts = await encryptMany(rows.map((row) => row.ssn), { key, pool })
+ * await pool.destroy()
+ *
+ * @since 1.1.0
+ * @category Bulk
+ * @public
+ */
+export const createWorkerPool: createWorkerPoolType = (options: WorkerPoolOptions = {}): WorkerPool => {
+    const concurrency: number = options.concurrency ?? Math.max(cpus().length - 1, 1)
+    if (!Number.isInteger(concurrency) || concurrency < 1) throw new RangeError('concurrency must be a positive integer')
+    const state: PoolState = { concurrency, workers: [], queue: [], nextId: 0, destroyed: false }
+    const pool: WorkerPool = {
+        concurrency,
+        destroy: async (): Promise<void> => {
+            state.destroyed = true
+            const err: Error = new Error('The worker pool was destroyed')
+            for (const job of state.queue.splice(0)) {
+                finishJob(job)
+                job.reject(err)
+            }
+            await Promise.all(state.workers.map((poolWorker: PoolWorker): Promise<number> => poolWorker.worker.terminate()))
+        },
+    }
+    poolStates.set(pool, state)
+    return pool
+}
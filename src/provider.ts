@@ -0,0 +1,317 @@
+import { randomBytes } from 'node:crypto'
+import { readFile, rename, writeFile } from 'node:fs/promises'
+import { decrypt, encrypt } from './crypt'
+import { InvalidKeyError, MalformedCiphertextError, UnsupportedVersionError } from './errors'
+import { ulid } from './generator'
+import { importKey } from './keys'
+import type { CiphertextEncoding, createEnvKeyProviderType, createFileKeyProviderType, createMockKmsType, decryptWithProviderType, encryptWithProviderType, EnvKeyProviderOptions, FileKeyProviderOptions, KeyProvider, MockKms, ProviderEncryptOptions, RotatableKeyProvider, rewrapKeyType, SecretKey, WrappedKey } from './types'
+
+/**
+ * Master keys of a local provider and the ID of the active one.
+ */
+type MasterKeys = {
+    active: string
+    keys: Map<string, SecretKey>
+}
+
+/**
+ * Contents of a file keystore: Base64 encoded 32 byte master keys by ID.
+ */
+type Keystore = {
+    active: string
+    keys: Record<string, string>
+}
+
+/**
+ * Magic bytes that prefix every key provider ciphertext ("ZK").
+ */
+export const PROVIDER_MAGIC: Buffer = Buffer.from('ZK', 'latin1')
+
+/**
+ * Current key provider ciphertext format version.
+ */
+export const PROVIDER_VERSION: number = 1
+
+const DEFAULT_ENV_PREFIX: string = 'ZEXSON_MASTER_KEY_'
+
+/**
+ * Builds a provider that wraps data keys in v2 envelopes under master keys held in memory.
+ * `load` is called for every operation, so keys can change between calls.
+ */
+const localProvider = (load: () => Promise<MasterKeys>): KeyProvider => ({
+    wrapKey: async (dataKey: Buffer): Promise<WrappedKey> => {
+        const { active, keys } = await load(),
+            key: SecretKey | undefined = keys.get(active)
+        if (key === undefined) throw new InvalidKeyError(`Unknown master key ID "${active}"`)
+        return { keyId: active, wrappedKey: encrypt(dataKey, { key, encoding: 'buffer' }) }
+    },
+    unwrapKey: async (wrapped: WrappedKey): Promise<Buffer> => {
+        const key: SecretKey | undefined = (await load()).keys.get(wrapped.keyId)
+        if (key === undefined) throw new InvalidKeyError(`Unknown master key ID "${wrapped.keyId}"`)
+        return decrypt(wrapped.wrappedKey, { key, encoding: 'buffer' })
+    },
+})
+
+/**
+ * Creates a key provider reading master keys from environment variables named
+ * `ZEXSON_MASTER_KEY_<ID>` (any key string, see `encrypt`). The variables are read on every
+ * call, so a new master key can be rolled out by adding a variable and changing `active`.
+ *
+ * @param {EnvKeyProviderOptions} [options] - Variable prefix, active key ID and environment.
+ * @param {string} [options.prefix='ZEXSON_MASTER_KEY_'] - Prefix of the variable names.
+ * @param {string} [options.active] - ID of the active master key, optional with a single key.
+ * @returns {KeyProvider} The provider.
+ *
+ * @example
+ * // ZEXSON_MASTER_KEY_2024=... ZEXSON_MASTER_KEY_2025=...
+ * const provider = createEnvKeyProvider({ active: '2025' })
+ * const stored = await encryptWithProvider('sensitive data', provider)
+ *
+ * @since 1.1.0
+ * @category Key Providers
+ * @public
+ */
+export const createEnvKeyProvider: createEnvKeyProviderType = (options: EnvKeyProviderOptions = {}): KeyProvider => {
+    const prefix: string = options.prefix ?? DEFAULT_ENV_PREFIX
+    return localProvider(async (): Promise<MasterKeys> => {
+        const keys: Map<string, SecretKey> = new Map()
+        for (const [name, value] of Object.entries(options.env ?? process.env))
+            if (name.startsWith(prefix) && name.length > prefix.length && value) keys.set(name.slice(prefix.length), value)
+        if (keys.size === 0) throw new Error(`No master keys found in ${prefix}* environment variables`)
+        const active: string | undefined = options.active ?? (keys.size === 1 ? [...keys.keys()][0] : undefined)
+        if (active === undefined) throw new Error('Several master keys found, set the active key ID')
+        return { active, keys }
+    })
+}
+
+const newMasterKey = (): [string, string] => [ulid(), randomBytes(32).toString('base64')]
+
+const writeKeystore = async (path: string, keystore: Keystore): Promise<void> => {
+    const temp: string = `${path}.${randomBytes(6).toString('hex')}.tmp`
+    await writeFile(temp, `${JSON.stringify(keystore, null, 2)}\n`, { mode: 0o600 })
+    await rename(temp, path)
+}
+
+const readKeystore = async (path: string, create: boolean): Promise<Keystore> => {
+    let content: string
+    try {
+        content = await readFile(path, 'utf8')
+    } catch (err) {
+        if (!create || (err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+        const [id, key] = newMasterKey(),
+            keystore: Keystore = { active: id, keys: { [id]: key } }
+        try {
+            await writeFile(path, `${JSON.stringify(keystore, null, 2)}\n`, { mode: 0o600, flag: 'wx' })
+            return keystore
+        } catch (writeErr) {
+            if ((writeErr as NodeJS.ErrnoException).code !== 'EEXIST') throw writeErr
+            content = await readFile(path, 'utf8')
+        }
+    }
+    const keystore = JSON.parse(content)
+    if (typeof keystore?.active !== 'string' || typeof keystore.keys !== 'object' || keystore.keys === null ||
+        !Object.values(keystore.keys).every((key: unknown): boolean => typeof key === 'string'))
+        throw new Error(`Malformed keystore: ${path}`)
+    return keystore as Keystore
+}
+
+/**
+ * Creates a key provider backed by a local JSON keystore file holding random 32 byte master
+ * keys (`{ "active": "<id>", "keys": { "<id>": "<base64>" } }`). Keep the file out of version
+ * control and readable only by the service, it is created with mode `0600`.
+ *
+ * `rotate()` adds a new master key and makes it active; older keys stay in the keystore so
+ * existing data keys can still be unwrapped, then rewrapped with `rewrapKey`.
+ *
+ * @param {string} path - The keystore file.
+ * @param {FileKeyProviderOptions} [options] - Keystore options.
+ * @param {boolean} [options.create=false] - Create the keystore with a new master key if it does not exist.
+ * @returns {RotatableKeyProvider} The provider.
+ *
+ * @example
+ * const provider = createFileKeyProvider('/etc/myapp/keystore.json', { create: true })
+ * const stored = await encryptWithProvider('sensitive data', provider)
+ * await provider.rotate()
+ * const rewrapped = await rewrapKey(stored, provider)
+ *
+ * @since 1.1.0
+ * @category Key Providers
+ * @public
+ */
+export const createFileKeyProvider: createFileKeyProviderType = (path: string, options: FileKeyProviderOptions = {}): RotatableKeyProvider => ({
+    ...localProvider(async (): Promise<MasterKeys> => {
+        const keystore: Keystore = await readKeystore(path, options.create === true)
+        return { active: keystore.active, keys: new Map(Object.entries(keystore.keys).map(([id, key]): [string, SecretKey] => [id, importKey(key)])) }
+    }),
+    rotate: async (): Promise<string> => {
+        const keystore: Keystore = await readKeystore(path, options.create === true),
+            [id, key] = newMasterKey()
+        await writeKeystore(path, { active: id, keys: { ...keystore.keys, [id]: key } })
+        return id
+    },
+})
+
+/**
+ * Creates an in-memory mock KMS for tests: random master keys that only live in the process,
+ * `rotate()`, and counters of the wrap and unwrap calls.
+ *
+ * @returns {MockKms} The mock provider.
+ *
+ * @example
+ * const kms = createMockKms()
+ * const stored = await encryptWithProvider('value', kms)
+ * await kms.rotate()
+ * await rewrapKey(stored, kms)
+ * kms.calls // { wrap: 2, unwrap: 1 }
+ *
+ * @since 1.1.0
+ * @category Key Providers
+ * @public
+ */
+export const createMockKms: createMockKmsType = (): MockKms => {
+    const keys: Map<string, SecretKey> = new Map([['mock-1', importKey(randomBytes(32))]]),
+        calls: { wrap: number, unwrap: number } = { wrap: 0, unwrap: 0 }
+    let active: string = 'mock-1'
+    const provider: KeyProvider = localProvider(async (): Promise<MasterKeys> => ({ active, keys }))
+    return {
+        calls,
+        keyIds: (): string[] => [...keys.keys()],
+        wrapKey: (dataKey: Buffer): Promise<WrappedKey> => {
+            calls.wrap++
+            return provider.wrapKey(dataKey)
+        },
+        unwrapKey: (wrapped: WrappedKey): Promise<Buffer> => {
+            calls.unwrap++
+            return provider.unwrapKey(wrapped)
+        },
+        rotate: async (): Promise<string> => {
+            active = `mock-${keys.size + 1}`
+            keys.set(active, importKey(randomBytes(32)))
+            return active
+        },
+    }
+}
+
+/**
+ * Prepends the wrapped data key to a v2 envelope:
+ * `"ZK" | version | uint16BE record length | record JSON { kid, wk } | envelope`.
+ * The record is not part of the envelope's associated data, so it can be rewrapped alone.
+ */
+const packCiphertext = (wrapped: WrappedKey, envelope: Buffer): Buffer => {
+    const record: Buffer = Buffer.from(JSON.stringify({ kid: wrapped.keyId, wk: wrapped.wrappedKey.toString('base64url') }), 'utf8'),
+        prefix: Buffer = Buffer.alloc(5)
+    if (record.length > 0xffff) throw new Error('The wrapped data key is too large')
+    PROVIDER_MAGIC.copy(prefix)
+    prefix[2] = PROVIDER_VERSION
+    prefix.writeUInt16BE(record.length, 3)
+    return Buffer.concat([prefix, record, envelope])
+}
+
+const unpackCiphertext = (data: string | Uint8Array): { wrapped: WrappedKey, envelope: Buffer } => {
+    let bytes: Buffer = typeof data === 'string' ? Buffer.from(data.trim(), 'base64') : Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+    if (typeof data === 'string' && !bytes.subarray(0, 2).equals(PROVIDER_MAGIC) && /^(?:[0-9a-fA-F]{2})+$/.test(data.trim())) bytes = Buffer.from(data.trim(), 'hex')
+    if (bytes.length < 5 || !bytes.subarray(0, 2).equals(PROVIDER_MAGIC)) throw new MalformedCiphertextError('Malformed ciphertext: not encrypted with a key provider')
+    if (bytes[2] !== PROVIDER_VERSION) throw new UnsupportedVersionError(bytes[2], `Unsupported key provider ciphertext version: ${bytes[2]}`)
+    const end: number = 5 + bytes.readUInt16BE(3)
+    let record: any
+    try {
+        record = JSON.parse(bytes.subarray(5, end).toString('utf8'))
+    } catch {
+        throw new MalformedCiphertextError('Malformed ciphertext: invalid wrapped key record')
+    }
+    if (typeof record?.kid !== 'string' || typeof record.wk !== 'string' || end >= bytes.length)
+        throw new MalformedCiphertextError('Malformed ciphertext: invalid wrapped key record')
+    return { wrapped: { keyId: record.kid, wrappedKey: Buffer.from(record.wk, 'base64url') }, envelope: bytes.subarray(end) }
+}
+
+const encodeCiphertext = (bytes: Buffer, encoding: CiphertextEncoding = 'base64url'): string | Buffer =>
+    encoding === 'buffer' ? bytes : bytes.toString(encoding)
+
+/**
+ * Encrypts data with envelope encryption: a random data key encrypts the payload, and the
+ * provider's active master key wraps the data key, which is stored in the ciphertext.
+ * Master key rotation then only rewraps data keys (`rewrapKey`), payloads are never re-encrypted.
+ *
+ * @param {string | Uint8Array} data - The plaintext string or bytes.
+ * @param {KeyProvider} provider - The master key provider.
+ * @param {ProviderEncryptOptions} [options] - Cipher and encoding.
+ * @param {CipherAlgorithm} [options.algorithm='aes-256-gcm'] - Authenticated cipher for the payload.
+ * @param {CiphertextEncoding} [options.encoding='base64url'] - Encoding of the result, `'buffer'` returns raw bytes.
+ * @returns {Promise<string | Buffer>} The ciphertext with its wrapped data key.
+ * @throws {Error} If the provider fails to wrap the data key.
+ *
+ * @example
+ * const stored = await encryptWithProvider('sensitive data', createEnvKeyProvider())
+ *
+ * @since 1.1.0
+ * @category Key Providers
+ * @public
+ */
+export const encryptWithProvider: encryptWithProviderType = (async (data: string | Uint8Array, provider: KeyProvider, options: ProviderEncryptOptions = {}): Promise<string | Buffer> => {
+    const dataKey: Buffer = randomBytes(32)
+    try {
+        const envelope: Buffer = encrypt(data, { key: importKey(dataKey), algorithm: options.algorithm, encoding: 'buffer' }),
+            wrapped: WrappedKey = await provider.wrapKey(dataKey)
+        return encodeCiphertext(packCiphertext(wrapped, envelope), options.encoding)
+    } finally {
+        dataKey.fill(0)
+    }
+}) as encryptWithProviderType
+
+/**
+ * Decrypts a ciphertext created by `encryptWithProvider`: the provider unwraps the data key
+ * with the master key that wrapped it, which then decrypts the payload.
+ *
+ * @param {string | Uint8Array} data - The ciphertext (Base64, Base64url, hex or raw bytes).
+ * @param {KeyProvider} provider - The master key provider.
+ * @param {{ encoding?: 'utf8' | 'buffer' }} [options] - Return the plaintext as a string or a Buffer.
+ * @returns {Promise<string | Buffer>} The plaintext.
+ * @throws {MalformedCiphertextError} If the ciphertext was not created by `encryptWithProvider`.
+ * @throws {InvalidKeyError} If the master key is unknown to the provider.
+ * @throws {IntegrityError} If authentication fails.
+ *
+ * @example
+ * const value = await decryptWithProvider(stored, provider)
+ *
+ * @since 1.1.0
+ * @category Key Providers
+ * @public
+ */
+export const decryptWithProvider: decryptWithProviderType = (async (data: string | Uint8Array, provider: KeyProvider, options: { encoding?: 'utf8' | 'buffer' } = {}): Promise<string | Buffer> => {
+    const { wrapped, envelope } = unpackCiphertext(data),
+        dataKey: Buffer = await provider.unwrapKey(wrapped)
+    try {
+        return decrypt(envelope, { key: importKey(dataKey), encoding: options.encoding === 'buffer' ? 'buffer' : 'utf8' })
+    } finally {
+        dataKey.fill(0)
+    }
+}) as decryptWithProviderType
+
+/**
+ * Rewraps the data key of a ciphertext with the provider's active master key, after a master
+ * key rotation. The encrypted payload is copied unchanged and never decrypted.
+ *
+ * @param {string | Uint8Array} data - The ciphertext.
+ * @param {KeyProvider} provider - The master key provider, knowing the old and the active master key.
+ * @param {{ encoding?: CiphertextEncoding }} [options] - Encoding of the result.
+ * @returns {Promise<string | Buffer>} The rewrapped ciphertext.
+ * @throws {MalformedCiphertextError} If the ciphertext was not created by `encryptWithProvider`.
+ * @throws {InvalidKeyError} If the old master key is unknown to the provider.
+ *
+ * @example
+ * await provider.rotate()
+ * for (const row of rows) row.secret = await rewrapKey(row.secret, provider)
+ *
+ * @since 1.1.0
+ * @category Key Providers
+ * @public
+ */
+export const rewrapKey: rewrapKeyType = (async (data: string | Uint8Array, provider: KeyProvider, options: { encoding?: CiphertextEncoding } = {}): Promise<string | Buffer> => {
+    const { wrapped, envelope } = unpackCiphertext(data),
+        dataKey: Buffer = await provider.unwrapKey(wrapped)
+    try {
+        return encodeCiphertext(packCiphertext(await provider.wrapKey(dataKey), envelope), options.encoding)
+    } finally {
+        dataKey.fill(0)
+    }
+}) as rewrapKeyType
@@ -0,0 +1,65 @@
+import { markedPaths } from './decorators'
+import { fieldSelection, formatPath } from './paths'
+import type { FieldSelection } from './paths'
+import type { FieldMetadata, RedactOptions, redactType } from './types'
+
+const MASK: string = '****'
+
+const MAX_DEPTH: number = 32
+
+/**
+ * Masks a value for display: emails keep their first character and domain (`j***@example.com`),
+ * numbers of 8+ digits such as card numbers keep their last four (`****1234`), everything else
+ * becomes `****`. `null` and `undefined` are kept.
+ */
+const maskValue = (value: unknown): unknown => {
+    if (value === null || value === undefined) return value
+    if (typeof value !== 'string') return MASK
+    const email: RegExpMatchArray | null = value.match(/^([^\s@])[^\s@]*(@[^\s@]+\.[^\s@]+)$/)
+    if (email !== null) return `${email[1]}***${email[2]}`
+    const digits: string = value.replace(/[\s-]/g, '')
+    return /^\d{8,}$/.test(digits) ? `${MASK}${digits.slice(-4)}` : MASK
+}
+
+const isSensitive = (meta: FieldMetadata): boolean => meta.sensitive || meta.encrypted
+
+const redactValue = (value: unknown, path: string[], selection: FieldSelection, mask: (value: unknown, path: string) => unknown): unknown => {
+    if (!selection.reaches(path) || value === null || value === undefined) return value
+    // Too deep (or cyclic) to tell what is below, so the whole value is masked
+    if (path.length > MAX_DEPTH) return MASK
+    if (Array.isArray(value)) return value.map((item: unknown, i: number): unknown => redactValue(item, [...path, `[${i}]`], selection, mask))
+    if (typeof value === 'object' && !(value instanceof Date) && !(value instanceof Uint8Array)) {
+        const res: Record<string, unknown> = {}
+        for (const [k, v] of Object.entries(value)) res[k] = redactValue(v, [...path, k], selection, mask)
+        return res
+    }
+    return selection.selects(path) ? mask(value, formatPath(path)) : value
+}
+
+/**
+ * Returns a copy of an object safe to log, with sensitive values masked: the given `paths`
+ * and, for decorated instances, the fields marked `@Field({ sensitive: true })` or
+ * `@Field({ encrypted: true })`, in nested DTOs too. A masked object or array has all of its values masked.
+ *
+ * Masking keeps just enough to recognize a value: `j***@example.com` for emails, `****1234`
+ * for card and account numbers, and `****` for anything else.
+ *
+ * @param {object} value - The object, array or decorated instance.
+ * @param {RedactOptions} [options] - What to mask and how.
+ * @param {string[]} [options.paths] - Paths to mask, such as `'password'` or `'cards[*].number'`.
+ * @param {boolean} [options.useFieldMetadata=true] - Also mask the `sensitive` and `encrypted` fields of decorated instances.
+ * @param {(value: unknown, path: string) => unknown} [options.mask] - Custom masking function.
+ * @returns {Record<string, any>} The redacted copy, the input is not modified.
+ *
+ * @example
+ * logger.info('signup', redact(user)) // { email: 'j***@example.com', password: '****', name: 'John' }
+ * logger.info('payment', redact(req.body, { paths: ['card.number', 'card.cvc'] })) // { card: { number: '****1234', cvc: '****' } }
+ *
+ * @since 1.1.0
+ * @category Logging
+ * @public
+ */
+export const redact: redactType = (value: object, options: RedactOptions = {}): Record<string, any> => {
+    const paths: string[] = [...(options.paths ?? []), ...(options.useFieldMetadata === false ? [] : markedPaths(value, isSensitive))]
+    return redactValue(value, [], fieldSelection({ include: paths }), options.mask ?? maskValue) as Record<string, any>
+}
@@ -0,0 +1,256 @@
+import { randomBytes } from 'node:crypto'
+import type { CipherCCM, CipherGCM, DecipherCCM, DecipherGCM } from 'node:crypto'
+import { createReadStream, createWriteStream } from 'node:fs'
+import { rm } from 'node:fs/promises'
+import { Transform } from 'node:stream'
+import type { TransformCallback } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import { algorithmIds, createAeadCipher, createAeadDecipher, encodeEnvelopeHeader, envelopeCiphers, readEnvelopeHeader } from './envelope'
+import { IntegrityError, MalformedCiphertextError } from './errors'
+import { decryptionKey, encryptionKey } from './keyring'
+import { kdfParams, masterKey, messageKey, resolveKey } from './keys'
+import type { CipherAlgorithm, createDecryptStreamType, createEncryptStreamType, decryptFileType, encryptFileType, EnvelopeHeader, SecretKey, StreamDecryptOptions, StreamEncryptOptions } from './types'
+
+const DEFAULT_CHUNK_SIZE: number = 64 * 1024
+const MAX_CHUNK_SIZE: number = 16 * 1024 * 1024
+const NONCE_PREFIX_LENGTH: number = 7
+const MAX_CHUNKS: number = 0xffffffff
+
+/**
+ * Builds the nonce of a chunk: random prefix, big endian chunk counter and a final-chunk flag.
+ * Binding the counter and the flag into the nonce makes reordered, dropped or truncated chunks fail authentication.
+ */
+const chunkNonce = (prefix: Buffer, counter: number, final: boolean): Buffer => {
+    const nonce: Buffer = Buffer.alloc(NONCE_PREFIX_LENGTH + 5)
+    prefix.copy(nonce, 0)
+    nonce.writeUInt32BE(counter, NONCE_PREFIX_LENGTH)
+    nonce[NONCE_PREFIX_LENGTH + 4] = final ? 1 : 0
+    return nonce
+}
+
+const streamKey = (key: SecretKey, header: EnvelopeHeader): Buffer =>
+    messageKey(masterKey(key, header.kdf), Buffer.from(header.s as string, 'base64url'), `stream:${header.alg}`)
+
+type DecryptState = {
+    cipherKey: Buffer
+    aad: Buffer
+    noncePrefix: Buffer
+    frameSize: number
+    tagLength: number
+    cipher: 'aes-256-gcm' | 'chacha20-poly1305'
+}
+
+const toBuffer = (chunk: any, encoding: BufferEncoding): Buffer =>
+    Buffer.isBuffer(chunk) ? chunk : typeof chunk === 'string' ? Buffer.from(chunk, encoding) : Buffer.from(chunk)
+
+/**
+ * Creates a transform stream that encrypts its input with chunked authenticated framing.
+ *
+ * The output starts with a versioned envelope header (recording cipher, key ID, salt and chunk size),
+ * followed by chunks of at most `chunkSize` plaintext bytes, each with its own authentication tag.
+ * Every chunk nonce carries the chunk index and a final-chunk flag, so a decrypt stream detects
+ * truncated, reordered, duplicated or modified chunks. Memory use is bounded by the chunk size.
+ *
+ * @param {StreamEncryptOptions} [options] - Encryption options.
+ * @param {KeyInput} [options.key] - Encryption key string, key object or keyring.
+ * @param {CipherAlgorithm} [options.algorithm='aes-256-gcm'] - Authenticated cipher to use.
+ * @param {number} [options.chunkSize=65536] - Plaintext bytes per chunk.
+ * @returns {Transform} The encrypting transform stream.
+ * @throws {Error} If the key, algorithm or chunk size is invalid.
+ *
+ * @example
+ * await pipeline(fs.createReadStream('export.csv'), createEncryptStream({ key }), fs.createWriteStream('export.csv.zx'))
+ *
+ * @since 1.1.0
+ * @category Stream
+ * @public
+ */
+export const createEncryptStream: createEncryptStreamType = (options: StreamEncryptOptions = {}): Transform => {
+    const { key, kid } = encryptionKey(resolveKey(options.key)),
+        algorithm: CipherAlgorithm = options.algorithm || 'aes-256-gcm',
+        chunkSize: number = options.chunkSize ?? DEFAULT_CHUNK_SIZE
+    if (!algorithmIds[algorithm]) throw new Error(`Unsupported algorithm: ${algorithm}`)
+    if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE)
+        throw new Error(`Chunk size must be an integer between 1 and ${MAX_CHUNK_SIZE}`)
+    const header: EnvelopeHeader = { alg: algorithmIds[algorithm], kid, s: randomBytes(16).toString('base64url'), kdf: kdfParams(key), chunk: chunkSize },
+        spec = envelopeCiphers[header.alg],
+        aad: Buffer = encodeEnvelopeHeader(header),
+        noncePrefix: Buffer = randomBytes(NONCE_PREFIX_LENGTH),
+        cipherKey: Buffer = streamKey(key, header)
+    let pending: Buffer = Buffer.alloc(0),
+        counter: number = 0,
+        started: boolean = false
+
+    const sealChunk = (chunk: Buffer, final: boolean): Buffer => {
+        if (counter > MAX_CHUNKS) throw new Error('Stream is too long for its chunk size')
+        const cipher: CipherGCM | CipherCCM = createAeadCipher(spec.cipher, cipherKey, chunkNonce(noncePrefix, counter++, final), spec.tagLength)
+        cipher.setAAD(aad, { plaintextLength: chunk.length })
+        return Buffer.concat([cipher.update(chunk), cipher.final(), cipher.getAuthTag()])
+    }
+
+    return new Transform({
+        transform(chunk: any, encoding: BufferEncoding, callback: TransformCallback): void {
+            try {
+                if (!started) {
+                    started = true
+                    this.push(Buffer.concat([aad, noncePrefix]))
+                }
+                pending = Buffer.concat([pending, toBuffer(chunk, encoding)])
+                while (pending.length > chunkSize) {
+                    this.push(sealChunk(pending.subarray(0, chunkSize), false))
+                    pending = pending.subarray(chunkSize)
+                }
+                callback()
+            } catch (err) {
+                callback(err as Error)
+            }
+        },
+        flush(callback: TransformCallback): void {
+            try {
+                if (!started) this.push(Buffer.concat([aad, noncePrefix]))
+                this.push(sealChunk(pending, true))
+                callback()
+            } catch (err) {
+                callback(err as Error)
+            }
+        },
+    })
+}
+
+/**
+ * Creates a transform stream that decrypts the output of `createEncryptStream`.
+ *
+ * Each chunk is authenticated before its plaintext is emitted, but a stream cut off after a
+ * complete chunk is only detected when the input ends. Treat the output as untrusted until the
+ * stream finishes without an error (`decryptFile` removes its output file on failure).
+ *
+ * @param {StreamDecryptOptions} [options] - Decryption options.
+ * @param {KeyInput} [options.key] - Key string, key object or keyring used during encryption.
+ * @returns {Transform} The decrypting transform stream.
+ * @throws {IntegrityError} Emits an error if the key is wrong or the stream is truncated, reordered or tampered with.
+ *
+ * @example
+ * await pipeline(fs.createReadStream('export.csv.zx'), createDecryptStream({ key }), fs.createWriteStream('export.csv'))
+ *
+ * @since 1.1.0
+ * @category Stream
+ * @public
+ */
+export const createDecryptStream: createDecryptStreamType = (options: StreamDecryptOptions = {}): Transform => {
+    const key = resolveKey(options.key)
+    let pending: Buffer = Buffer.alloc(0),
+        counter: number = 0,
+        state: DecryptState | null = null
+
+    const readHeader = (): DecryptState | null => {
+        const parsed = readEnvelopeHeader(pending)
+        if (parsed === null || pending.length < parsed.headerEnd + NONCE_PREFIX_LENGTH) return null
+        const { header, headerEnd } = parsed
+        if (!Number.isInteger(header.chunk) || (header.chunk as number) < 1 || (header.chunk as number) > MAX_CHUNK_SIZE || header.s === undefined)
+            throw new MalformedCiphertextError('Malformed ciphertext: not a streamed ciphertext')
+        const spec = envelopeCiphers[header.alg],
+            headerState: DecryptState = {
+                cipherKey: streamKey(decryptionKey(key, header.kid), header),
+                aad: Buffer.from(pending.subarray(0, headerEnd)),
+                noncePrefix: Buffer.from(pending.subarray(headerEnd, headerEnd + NONCE_PREFIX_LENGTH)),
+                frameSize: (header.chunk as number) + spec.tagLength,
+                tagLength: spec.tagLength,
+                cipher: spec.cipher,
+            }
+        pending = pending.subarray(headerEnd + NONCE_PREFIX_LENGTH)
+        return headerState
+    }
+
+    const openChunk = ({ cipherKey, aad, noncePrefix, tagLength, cipher }: DecryptState, frame: Buffer, final: boolean): Buffer => {
+        if (counter > MAX_CHUNKS) throw new MalformedCiphertextError('Malformed ciphertext: too many chunks')
+        const decipher: DecipherGCM | DecipherCCM = createAeadDecipher(cipher, cipherKey, chunkNonce(noncePrefix, counter++, final), tagLength)
+        decipher.setAAD(aad, { plaintextLength: frame.length - tagLength })
+        decipher.setAuthTag(frame.subarray(frame.length - tagLength))
+        try {
+            return Buffer.concat([decipher.update(frame.subarray(0, frame.length - tagLength)), decipher.final()])
+        } catch {
+            throw new IntegrityError('Authentication failed: wrong key, or a truncated, reordered or tampered stream')
+        }
+    }
+
+    return new Transform({
+        transform(chunk: any, encoding: BufferEncoding, callback: TransformCallback): void {
+            try {
+                pending = Buffer.concat([pending, toBuffer(chunk, encoding)])
+                if (state === null) state = readHeader()
+                if (state === null) return callback()
+                while (pending.length > state.frameSize) {
+                    this.push(openChunk(state, pending.subarray(0, state.frameSize), false))
+                    pending = pending.subarray(state.frameSize)
+                }
+                callback()
+            } catch (err) {
+                callback(err as Error)
+            }
+        },
+        flush(callback: TransformCallback): void {
+            try {
+                if (state === null) state = readHeader()
+                if (state === null) throw new MalformedCiphertextError('Malformed ciphertext: truncated stream header')
+                if (pending.length < state.tagLength) throw new MalformedCiphertextError('Malformed ciphertext: truncated stream')
+                this.push(openChunk(state, pending, true))
+                callback()
+            } catch (err) {
+                callback(err as Error)
+            }
+        },
+    })
+}
+
+/**
+ * Encrypts a file into another file with `createEncryptStream`, without loading it into memory.
+ * A partially written destination file is removed if encryption fails.
+ *
+ * @param {string} src - Path of the plaintext file.
+ * @param {string} dest - Path of the ciphertext file to write.
+ * @param {KeyInput} key - Encryption key string, key object or keyring.
+ * @param {Omit<StreamEncryptOptions, 'key'>} [options] - Cipher and chunk size.
+ * @returns {Promise<void>} Resolves when the file is written.
+ * @throws {Error} If reading, encrypting or writing fails.
+ *
+ * @example
+ * await encryptFile('export.csv', 'export.csv.zx', process.env.EXPORT_KEY as string)
+ *
+ * @since 1.1.0
+ * @category Stream
+ * @public
+ */
+export const encryptFile: encryptFileType = async (src: string, dest: string, key, options = {}): Promise<void> => {
+    try {
+        await pipeline(createReadStream(src), createEncryptStream({ ...options, key }), createWriteStream(dest))
+    } catch (err) {
+        await rm(dest, { force: true })
+        throw err
+    }
+}
+
+/**
+ * Decrypts a file written by `encryptFile` (or any `createEncryptStream` output) into another file.
+ * The destination file is removed if the key is wrong or the ciphertext is truncated or tampered with.
+ *
+ * @param {string} src - Path of the ciphertext file.
+ * @param {string} dest - Path of the plaintext file to write.
+ * @param {KeyInput} key - Key string, key object or keyring used during encryption.
+ * @returns {Promise<void>} Resolves when the file is written.
+ * @throws {Error} If reading, authenticating or writing fails.
+ *
+ * @example
+ * await decryptFile('export.csv.zx', 'export.csv', process.env.EXPORT_KEY as string)
+ *
+ * @since 1.1.0
+ * @category Stream
+ * @public
+ */
+export const decryptFile: decryptFileType = async (src: string, dest: string, key): Promise<void> => {
+    try {
+        await pipeline(createReadStream(src), createDecryptStream({ key }), createWriteStream(dest))
+    } catch (err) {
+        await rm(dest, { force: true })
+        throw err
+    }
+}
@@ -0,0 +1,88 @@
+import { createHmac } from 'node:crypto'
+import { checkTokenClaims, parseToken, safeEqual, tokenSigningInput } from './codec'
+import { TokenError, TokenSignatureError } from './errors'
+import { decryptionKey, encryptionKey } from './keyring'
+import { isZexsonKey, masterKey, resolveKey } from './keys'
+import type { KeyInput, SecretKey, SignTokenOptions, signTokenType, TokenPayload, VerifyTokenOptions, VerifyTokenResult, verifyTokenType } from './types'
+
+/**
+ * String keys are used as raw HMAC secrets, so tokens interoperate with other HS256 implementations.
+ */
+const hmacKey = (key: SecretKey): Buffer => isZexsonKey(key) ? masterKey(key) : Buffer.from(key, 'utf8')
+
+const sign = (input: string, key: SecretKey): Buffer => createHmac('sha256', hmacKey(key)).update(input).digest()
+
+/**
+ * Creates a signed, optionally expiring token in compact JWT form (HS256, HMAC-SHA256).
+ *
+ * `iat` is always set; `exp`, `nbf`, `aud`, `iss`, `sub` and `jti` are set from the options.
+ * With a keyring the active key signs the token and its ID is written to the `kid` header,
+ * so `verifyToken` keeps accepting tokens signed before a rotation.
+ *
+ * @param {Record<string, any>} payload - Custom claims to embed (readable by anyone holding the token).
+ * @param {KeyInput} key - Signing key string, key object or keyring.
+ * @param {SignTokenOptions} [options] - Standard claims.
+ * @param {number | string} [options.expiresIn] - Lifetime, in seconds or as `'15m'`, `'2h'`, `'7d'`.
+ * @param {number | string} [options.notBefore] - Delay before the token becomes valid.
+ * @param {string | string[]} [options.audience] - The `aud` claim.
+ * @param {string} [options.issuer] - The `iss` claim.
+ * @returns {string} The signed token.
+ * @throws {Error} If the payload is not an object or a duration is invalid.
+ *
+ * @example
+ * const token = signToken({ userId: 42 }, process.env.TOKEN_KEY as string, { expiresIn: '15m', audience: 'api', issuer: 'auth' })
+ *
+ * @since 1.1.0
+ * @category Token
+ * @public
+ */
+export const signToken: signTokenType = (payload: Record<string, any>, key, options: SignTokenOptions = {}): string => {
+    const { key: signingKey, kid } = encryptionKey(resolveKey(key)),
+        input: string = tokenSigningInput(payload, options, kid)
+    return `${input}.${sign(input, signingKey).toString('base64url')}`
+}
+
+/**
+ * Verifies a token created by `signToken` (or any HS256 compact JWT).
+ *
+ * The signature is compared in constant time, then `exp`, `nbf` and, when requested,
+ * `aud` and `iss` are checked. Failures are returned, not thrown, as typed errors:
+ * `MalformedTokenError`, `TokenSignatureError`, `TokenExpiredError`, `TokenNotActiveError`
+ * or `TokenClaimError`, each with a stable `code`.
+ *
+ * @template T - The expected payload type.
+ * @param {string} token - The token to verify.
+ * @param {KeyInput} key - Signing key string, key object or keyring.
+ * @param {VerifyTokenOptions} [options] - Expected claims and clock tolerance.
+ * @param {string | string[]} [options.audience] - Accepted `aud` values.
+ * @param {string | string[]} [options.issuer] - Accepted `iss` values.
+ * @param {number} [options.clockTolerance=0] - Seconds of clock skew to allow for `exp` and `nbf`.
+ * @returns {VerifyTokenResult<T>} `{ valid: true, payload }` or `{ valid: false, error }`.
+ *
+ * @example
+ * const result = verifyToken<{ userId: number }>(token, process.env.TOKEN_KEY as string, { audience: 'api' })
+ * if (!result.valid) return res.status(401).json({ code: result.error.code })
+ * result.payload.userId
+ *
+ * @since 1.1.0
+ * @category Token
+ * @public
+ */
+export const verifyToken: verifyTokenType = <T extends Record<string, any> = Record<string, any>>(token: string, key: KeyInput, options: VerifyTokenOptions = {}): VerifyTokenResult<T> => {
+    try {
+        const { header, payload, input, signature } = parseToken(token),
+            verifyingKey: KeyInput = resolveKey(key)
+        let signingKey: SecretKey
+        try {
+            signingKey = decryptionKey(verifyingKey, typeof header.kid === 'string' ? header.kid : undefined)
+        } catch {
+            throw new TokenSignatureError(`Unknown signing key ID "${header.kid}"`)
+        }
+        if (!safeEqual(signature, sign(input, signingKey).toString('base64url'))) throw new TokenSignatureError()
+        checkTokenClaims(payload, options)
+        return { valid: true, payload: payload as T & TokenPayload }
+    } catch (err) {
+        if (err instanceof TokenError) return { valid: false, error: err }
+        throw err
+    }
+}
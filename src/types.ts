@@ -1,3 +1,7 @@
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { Transform } from 'node:stream'
+import type { TokenError } from './errors'
+
 /**
  * Represents the available character set options for cryptographic operations.
  * 
@@ -9,48 +13,414 @@
  */
 export type CharacterSetType = 'defaultSet' | 'set1' | 'set2'
 
+/**
+ * Authenticated ciphers available for the versioned (v2) ciphertext format.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type CipherAlgorithm = 'aes-256-gcm' | 'chacha20-poly1305'
+
+/**
+ * Parameters of a password-based key derivation, recorded in ciphertext headers.
+ * The salt is Base64url encoded.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type KdfParams =
+    | { name: 'scrypt', salt: string, N: number, r: number, p: number }
+    | { name: 'pbkdf2', salt: string, iterations: number, hash: 'sha256' | 'sha512' }
+
+/**
+ * A `CryptoKey`-like key object created by `deriveKey` or `importKey`.
+ * The key material itself is not reachable from the object.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type ZexsonKey = {
+    readonly type: 'secret'
+    readonly extractable: false
+    readonly algorithm: Readonly<KdfParams | { name: 'raw' }>
+    readonly usages: readonly ('encrypt' | 'decrypt')[]
+}
+
+/**
+ * A single key: a key string or a key object.
+ *
+ * A key string is hashed once with SHA-256, it is not stretched. Use it for high entropy
+ * secrets only, and turn passphrases into a key object with `deriveKey`.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type SecretKey = string | ZexsonKey
+
+/**
+ * A set of named keys with one active key, created by `createKeyring`.
+ * Encrypting with a keyring uses the active key and embeds its ID in the ciphertext,
+ * decrypting picks the key by the embedded ID.
+ *
+ * @property {string} activeKeyId - ID of the key used for new ciphertexts.
+ * @property {string[]} keyIds - IDs of all keys in the ring.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type Keyring = {
+    readonly activeKeyId: string
+    readonly keyIds: string[]
+    has: (id: string) => boolean
+    add: (id: string, key: SecretKey, options?: { active?: boolean }) => Keyring
+    remove: (id: string) => Keyring
+    setActive: (id: string) => Keyring
+}
+
+/**
+ * Options for the `createKeyring` function.
+ *
+ * @property {Record<string, SecretKey>} keys - Keys by key ID.
+ * @property {string} active - ID of the key used for new ciphertexts.
+ * @property {string} [legacyKeyId] - ID of the key used for ciphertexts without a key ID, defaults to the active key.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type KeyringOptions = {
+    keys: Record<string, SecretKey>
+    active: string
+    legacyKeyId?: string
+}
+
+/**
+ * Anything accepted as a `key`: a key string, a key object or a keyring.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type KeyInput = SecretKey | Keyring
+
+/**
+ * Type definition for the `createKeyring` function.
+ *
+ * @param {KeyringOptions} options - The keys and the active key ID.
+ * @returns {Keyring} The keyring.
+ *
+ * @since 1.1.0
+ * @category Type Keys
+ * @public
+ */
+export type createKeyringType = (options: KeyringOptions) => Keyring
+
+/**
+ * Options for the `reencrypt` and `rotateObject` functions.
+ *
+ * @property {CipherAlgorithm} [algorithm='aes-256-gcm'] - Cipher for the new ciphertexts.
+ * @property {boolean} [force=false] - Re-encrypt values that already use the active key.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type ReencryptOptions = {
+    algorithm?: CipherAlgorithm
+    force?: boolean
+}
+
+/**
+ * Type definition for the `reencrypt` function.
+ *
+ * @param {string} data - The ciphertext to upgrade.
+ * @param {Keyring} keyring - The keyring holding the old and the active key.
+ * @param {ReencryptOptions} [options] - Re-encryption options.
+ * @returns {string} The ciphertext under the active key.
+ *
+ * @since 1.1.0
+ * @category Type Encrypt
+ * @public
+ */
+export type reencryptType = (data: string, keyring: Keyring, options?: ReencryptOptions) => string
+
+/**
+ * Type definition for the `rotateObject` function.
+ *
+ * @template T - The object type.
+ * @param {T} data - An object produced by `encryptObject`.
+ * @param {Keyring} keyring - The keyring holding the old and the active key.
+ * @param {ReencryptOptions & ObjectCryptOptions} [options] - Re-encryption options and the object options used for encryption.
+ * @returns {T} A new object with every value under the active key.
+ *
+ * @since 1.1.0
+ * @category Type Encrypt
+ * @public
+ */
+export type rotateObjectType = <T extends Record<string, any>>(data: T, keyring: Keyring, options?: ReencryptOptions & ObjectCryptOptions) => T
+
+/**
+ * Options for the `deriveKey` function.
+ *
+ * @property {'scrypt' | 'pbkdf2'} [kdf='scrypt'] - The key derivation function.
+ * @property {Uint8Array | string} [salt] - Key salt, random when omitted.
+ * @property {number} [cost=32768] - scrypt CPU/memory cost (N), a power of two.
+ * @property {number} [blockSize=8] - scrypt block size (r).
+ * @property {number} [parallelization=1] - scrypt parallelization (p).
+ * @property {number} [iterations=600000] - PBKDF2 iteration count.
+ * @property {'sha256' | 'sha512'} [hash='sha256'] - PBKDF2 digest.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type DeriveKeyOptions = {
+    kdf?: 'scrypt' | 'pbkdf2'
+    salt?: Uint8Array | string
+    cost?: number
+    blockSize?: number
+    parallelization?: number
+    iterations?: number
+    hash?: 'sha256' | 'sha512'
+}
+
+/**
+ * Type definition for the `deriveKey` function.
+ *
+ * @param {string} passphrase - The passphrase to derive the key from.
+ * @param {DeriveKeyOptions} [options] - KDF selection, salt and cost parameters.
+ * @returns {ZexsonKey} The derived key object.
+ *
+ * @since 1.1.0
+ * @category Type Keys
+ * @public
+ */
+export type deriveKeyType = (passphrase: string, options?: DeriveKeyOptions) => ZexsonKey
+
+/**
+ * Type definition for the `importKey` function.
+ *
+ * @param {Uint8Array | string} raw - 32 raw key bytes, or their hex / Base64 encoding.
+ * @returns {ZexsonKey} The key object.
+ *
+ * @since 1.1.0
+ * @category Type Keys
+ * @public
+ */
+export type importKeyType = (raw: Uint8Array | string) => ZexsonKey
+
+/**
+ * Output encodings for ciphertexts. `'buffer'` returns the raw envelope bytes.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type CiphertextEncoding = 'base64' | 'base64url' | 'hex' | 'buffer'
+
+/**
+ * Options accepted by the `encrypt` function.
+ *
+ * @property {CharacterSetType} [firstRandomCharSet] - Character set for the first random padding (legacy v1 only).
+ * @property {CharacterSetType} [secondRandomCharSet] - Character set for the second random padding (legacy v1 only).
+ * @property {KeyInput} [key] - Encryption key string or key object.
+ * @property {CipherAlgorithm} [algorithm='aes-256-gcm'] - Authenticated cipher used for v2 ciphertexts.
+ * @property {1 | 2} [version=2] - Ciphertext format version, `1` produces the legacy format.
+ * @property {CiphertextEncoding} [encoding='base64url'] - Encoding of the returned ciphertext, `'buffer'` returns raw bytes.
+ * @property {CompressionMode} [compress] - Compress the payload before encryption, see `CompressionOptions`.
+ * @property {number} [compressThreshold=1024] - Payloads smaller than this many bytes are not compressed.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type EncryptOptions = CompressionOptions & {
+    firstRandomCharSet?: CharacterSetType
+    secondRandomCharSet?: CharacterSetType
+    key?: KeyInput
+    algorithm?: CipherAlgorithm
+    version?: 1 | 2
+    encoding?: CiphertextEncoding
+}
+
+/**
+ * Options accepted by the `decrypt` function.
+ *
+ * @property {KeyInput} [key] - The key string or key object used during encryption.
+ * @property {boolean} [allowLegacy=true] - Decode input without an envelope as the legacy (v1) format.
+ * Pass `false` where ciphertexts come from untrusted sources: the legacy format is not authenticated.
+ * @property {'utf8' | 'buffer'} [encoding='utf8'] - Return the plaintext as a UTF-8 string or as raw bytes.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type DecryptOptions = {
+    key?: KeyInput
+    allowLegacy?: boolean
+    encoding?: 'utf8' | 'buffer'
+}
+
+/**
+ * Algorithm identifiers written into the envelope header.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type EnvelopeAlgorithm = 'A256GCM' | 'C20P'
+
+/**
+ * Compression algorithms applied to a payload before encryption: raw `'deflate'` or `'brotli'`.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type CompressionAlgorithm = 'deflate' | 'brotli'
+
+/**
+ * Compression modes: an algorithm, or `'auto'` to keep whichever of them gives the smaller payload.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type CompressionMode = CompressionAlgorithm | 'auto'
+
+/**
+ * Compression identifiers written into the envelope header: `DEF` (raw deflate) and `BR` (brotli).
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type EnvelopeCompression = 'DEF' | 'BR'
+
+/**
+ * Opt-in compression before encryption, for large text and JSON payloads. The algorithm is
+ * recorded in the (authenticated) envelope header, so decryption inflates transparently.
+ * Payloads below the threshold, and payloads that do not shrink, are stored uncompressed.
+ *
+ * Encryption hides the content but not the length, and compressed length depends on the content:
+ * the more a payload repeats itself, the shorter it gets. When a payload mixes a secret with data
+ * an attacker controls and the attacker sees the ciphertext length, they can guess the secret
+ * piece by piece from which guesses shrink it (the CRIME and BREACH attacks on TLS and HTTP
+ * compression). Only compress payloads that are entirely secret or entirely public, never
+ * ones that combine both, such as a token stored next to user input.
+ *
+ * @property {CompressionMode} [compress] - Compression algorithm, or `'auto'`. No compression if omitted.
+ * @property {number} [compressThreshold=1024] - Payloads smaller than this many bytes are not compressed.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type CompressionOptions = {
+    compress?: CompressionMode
+    compressThreshold?: number
+}
+
+/**
+ * Header embedded (and authenticated) in every v2 ciphertext.
+ *
+ * @property {EnvelopeAlgorithm} alg - The authenticated cipher used for the payload.
+ * @property {string} [kid] - ID of the keyring key the payload was encrypted with.
+ * @property {string} [s] - Base64url per-message salt the cipher key is derived with.
+ * @property {KdfParams} [kdf] - Passphrase derivation parameters of the key.
+ * @property {number} [chunk] - Plaintext chunk size of a streamed ciphertext.
+ * @property {EnvelopeValueType} [ty] - JS type of a value encrypted by `encryptObject`.
+ * @property {boolean} [ad] - The payload is bound to external associated data (a field path and document).
+ * @property {EnvelopeCompression} [zip] - The payload was compressed before encryption.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type EnvelopeHeader = {
+    alg: EnvelopeAlgorithm
+    kid?: string
+    s?: string
+    kdf?: KdfParams
+    chunk?: number
+    ty?: EnvelopeValueType
+    ad?: boolean
+    zip?: EnvelopeCompression
+}
+
+/**
+ * JS type of an `encryptObject` value, recorded in its envelope header so `decryptObject`
+ * can restore it: `s` string (also assumed when absent), `n` number, `b` boolean,
+ * `i` bigint, `d` Date and `x` bytes (returned as a Buffer), and `j` for a whole document
+ * encrypted by `encryptDocument`.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type EnvelopeValueType = 's' | 'n' | 'b' | 'i' | 'd' | 'x' | 'j'
+
+/**
+ * A parsed v2 envelope as returned by `unpackEnvelope`.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type EnvelopeParts = {
+    version: number
+    header: EnvelopeHeader
+    aad: Buffer
+    iv: Buffer
+    tag: Buffer
+    ciphertext: Buffer
+}
+
 /**
  * Defines the type for the `encrypt` function.
  * 
- * @param {string} input - The plain text input to be encrypted.
- * @param {CryptoCharacterSet} randomSetOne - The character set for the first layer of randomization.
- * @param {CryptoCharacterSet} randomSetTwo - The character set for the second layer of randomization.
- * @returns {string} The resulting encrypted string.
+ * @param {string | Uint8Array} input - The plain text or bytes to be encrypted.
+ * @param {EncryptOptions} [options] - Key, cipher and format options.
+ * @returns {string | Buffer} The resulting encrypted string, or a Buffer with `encoding: 'buffer'`.
  * @throws {Error} If an encryption error occurs.
  * 
  * @since 1.0.0
  * @category Type Encrypt
  * @public
  */
-export type encryptType = (data: string, options?: {
-    firstRandomCharSet?: CharacterSetType;
-    secondRandomCharSet?: CharacterSetType;
-    key?: string
-} | undefined) => string | undefined
+export type encryptType = {
+    (data: string | Uint8Array, options: EncryptOptions & { encoding: 'buffer' }): Buffer
+    (data: string | Uint8Array, options?: EncryptOptions | undefined): string | undefined
+}
 
 /**
  * Defines the type for the `decrypt` function.
  * 
- * @param {string} input - The encrypted input to be decrypted.
- * @param {CryptoCharacterSet} randomSetOne - The character set for the first layer of randomization.
- * @param {CryptoCharacterSet} randomSetTwo - The character set for the second layer of randomization.
- * @returns {string} The resulting decrypted string.
+ * @param {string | Uint8Array} input - The encrypted string or raw ciphertext bytes.
+ * @param {DecryptOptions} [options] - The key used during encryption and the result encoding.
+ * @returns {string | Buffer} The resulting decrypted string, or a Buffer with `encoding: 'buffer'`.
  * @throws {Error} If a decryption error occurs.
  * 
  * @since 1.0.0
  * @category Type Decrypt
  * @public
 */
-export type decryptType = (data: string, options?: {
-    key?: string
-} | undefined) => string
+export type decryptType = {
+    (data: string | Uint8Array, options: DecryptOptions & { encoding: 'buffer' }): Buffer
+    (data: string | Uint8Array, options?: DecryptOptions | undefined): string
+}
 
 
 /**
  * Type definition for `base64Encode` function.
  * 
  * @param {string} input - The input string to be encoded.
- * @param {string} secretKey - An optional key for custom encoding. Default is 'abcdefghijklmnopqrstuvwxyz'.
+ * @param {KeyInput} secretKey - An optional key for custom encoding. Default is 'abcdefghijklmnopqrstuvwxyz'.
  * @returns {string} Encoded string using a custom Base64 algorithm.
  * 
  * 
@@ -60,7 +430,7 @@ export type decryptType = (data: string, options?: {
  */
 export type base64EncodeType = (
     data: string,
-    key?: string
+    key?: KeyInput
 ) => string
 
 
@@ -68,7 +438,7 @@ export type base64EncodeType = (
  * Type definition for `base64Decode` function.
  * 
  * @param {string} input - The Base64 encoded string to decode.
- * @param {string} secretKey - An optional key for custom decoding. Default is 'abcdefghijklmnopqrstuvwxyz'.
+ * @param {KeyInput} secretKey - An optional key for custom decoding. Default is 'abcdefghijklmnopqrstuvwxyz'.
  * @returns {string} Decoded string using a custom Base64 algorithm.
  * 
  * @since 1.0.5
@@ -77,7 +447,7 @@ export type base64EncodeType = (
  */
 export type base64DecodeType = (
     data: string,
-    key?: string
+    key?: KeyInput
 ) => string
 
 
@@ -85,20 +455,71 @@ export type base64DecodeType = (
  * Type definition for the `generateToken` function.
  * 
  * @param {number} length - The length of the token to generate.
- * @param {CharacterSetType} type_ - The type of character set to use for token generation.
+ * @param {CharacterSetType | TokenOptions} [type_] - The character set to use for token generation, or token options.
  * @returns {string} The generated token.
  * 
  * @since 1.0.0
  * @category Type Token
  * @public
  */
-export type tokenGeneratorType = (length: number, type_: CharacterSetType) => string
+export type tokenGeneratorType = (length: number, type_?: CharacterSetType | TokenOptions) => string
+
+/**
+ * Options for the `tokenGenerator` and `entropyBits` functions.
+ *
+ * @property {CharacterSetType} [charSet='defaultSet'] - Predefined character set.
+ * @property {string} [alphabet] - Custom alphabet, overrides `charSet`.
+ * @property {boolean} [noLeadingZero=true] - Never start the token with '0'.
+ * @property {boolean} [excludeAmbiguous=false] - Remove look-alike characters (0/O, 1/l/I).
+ * @property {string} [prefix] - Fixed prefix prepended to the token.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type TokenOptions = {
+    charSet?: CharacterSetType
+    alphabet?: string
+    noLeadingZero?: boolean
+    excludeAmbiguous?: boolean
+    prefix?: string
+}
+
+/**
+ * Entropy of a token format, as returned by `entropyBits`.
+ *
+ * @property {number} length - The token length.
+ * @property {number} alphabetSize - Number of distinct characters.
+ * @property {number} bits - Entropy in bits.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type EntropyReport = {
+    length: number
+    alphabetSize: number
+    bits: number
+}
+
+/**
+ * Type definition for the `entropyBits` function.
+ *
+ * @param {number} length - The token length.
+ * @param {CharacterSetType | TokenOptions} [type_] - The character set, or token options.
+ * @returns {EntropyReport} The entropy report.
+ *
+ * @since 1.1.0
+ * @category Type Token
+ * @public
+ */
+export type entropyBitsType = (length: number, type_?: CharacterSetType | TokenOptions) => EntropyReport
 
 /**
  * Options to configure the comparison behavior in the `isEqual` function.
  *
  * @property {boolean} [caseSensitive=false] - Whether to perform case-sensitive comparison.
- * @property {string} [key] - An optional key for additional comparison.
+ * @property {KeyInput} [key] - An optional key for additional comparison.
  * @property {boolean} [log=false] - Whether to log the comparison result.
  * 
  * @since 1.0.0
@@ -107,7 +528,7 @@ export type tokenGeneratorType = (length: number, type_: CharacterSetType) => st
  */
 export type IsEqualOptions = {
     caseSensitive?: boolean // default false
-    key?: string
+    key?: KeyInput
     log?: boolean // default false
 }
 
@@ -130,27 +551,1751 @@ export type isEqualType = (text: string, text1: string, options?: IsEqualOptions
 }
 
 /**
- * Represents a function type for encrypting or decrypting objects.
+ * Options for the `hashPassword` and `needsRehash` functions.
+ *
+ * @property {number} [cost=32768] - scrypt CPU/memory cost (N), a power of two.
+ * @property {number} [blockSize=8] - scrypt block size (r).
+ * @property {number} [parallelization=1] - scrypt parallelization (p).
+ * @property {number} [saltLength=16] - Salt length in bytes.
+ * @property {number} [keyLength=32] - Hash length in bytes.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type HashPasswordOptions = {
+    cost?: number
+    blockSize?: number
+    parallelization?: number
+    saltLength?: number
+    keyLength?: number
+}
+
+/**
+ * Type definition for the `hashPassword` function.
+ *
+ * @param {string} password - The password to hash.
+ * @param {HashPasswordOptions} [options] - scrypt cost parameters.
+ * @returns {string} The PHC-style encoded password hash.
+ *
+ * @since 1.1.0
+ * @category Type Password
+ * @public
+ */
+export type hashPasswordType = (password: string, options?: HashPasswordOptions) => string
+
+/**
+ * Type definition for the `verifyPassword` function.
+ *
+ * @param {string} password - The password to check.
+ * @param {string} hash - The stored password hash.
+ * @returns {boolean} `true` if the password matches.
+ *
+ * @since 1.1.0
+ * @category Type Password
+ * @public
+ */
+export type verifyPasswordType = (password: string, hash: string) => boolean
+
+/**
+ * Type definition for the `needsRehash` function.
+ *
+ * @param {string} hash - The stored password hash.
+ * @param {HashPasswordOptions} [options] - The current cost parameters.
+ * @returns {boolean} `true` if the hash should be recomputed.
+ *
+ * @since 1.1.0
+ * @category Type Password
+ * @public
+ */
+export type needsRehashType = (hash: string, options?: HashPasswordOptions) => boolean
+
+/**
+ * Fields to encrypt, as an object mirroring the document: `true` marks a field (or a whole
+ * subtree), nested objects describe nested fields and a one-element array describes every
+ * element of an array.
  *
- * @template T - An object type where keys are strings, and values are strings.
- * @param {T} data - The object containing values to be processed (encrypted or decrypted).
- * @param {string} [key] - An optional encryption or decryption key. Defaults to a predefined value if not provided.
- * @returns {T} The processed object with all values either encrypted or decrypted.
- * 
  * @example
- * Example usage for encryption:
- * const data = { username: 'JohnDoe', password: '12345' };
- * const encryptedData: Record<string, string> = encryptObject(data, 'my-secret-key');
- * 
- * Example usage for decryption:
- * const decryptedData: Record<string, string> = decryptObject(encryptedData, 'my-secret-key');
+ * const schema: EncryptionSchema = { user: { ssn: true }, cards: [{ number: true, cvc: true }] }
  *
- * @since 1.0.7
- * @category Types
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type EncryptionSchema = {
+    [key: string]: boolean | EncryptionSchema | [boolean | EncryptionSchema]
+}
+
+/**
+ * Options selecting the fields `encryptObject`, `decryptObject` and `rotateObject` work on.
+ *
+ * Paths use dots for object keys and brackets for array elements: `'user.ssn'`,
+ * `'cards[*].number'`, `'items[0]'`. `*` matches any key and `[*]` any index.
+ * A path selects the field and everything below it.
+ *
+ * @property {string[]} [include] - Paths of the fields to encrypt, all fields if neither `include` nor `schema` is set.
+ * @property {string[]} [exclude] - Paths of the fields to leave untouched, applied after `include`.
+ * @property {EncryptionSchema} [schema] - Fields to encrypt as a schema object, combined with `include`.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type FieldSelectionOptions = {
+    include?: string[]
+    exclude?: string[]
+    schema?: EncryptionSchema
+}
+
+/**
+ * Options for the `blindIndex` function.
+ *
+ * @property {boolean | ((value: string) => string)} [normalize=false] - `true` trims, lower-cases and NFKC-normalizes the value before hashing, or pass a normalization function.
+ * @property {string} [context=''] - Domain separation, so equal values of different fields get different indexes.
+ * @property {number} [length=32] - Number of HMAC bytes to keep (8 to 32).
+ *
+ * @since 1.1.0
+ * @category Type Definitions
  * @public
  */
-export type cryptObject = <T extends Record<string, any>>(data: T, key?: string) => T
+export type BlindIndexOptions = {
+    normalize?: boolean | ((value: string) => string)
+    context?: string
+    length?: number
+}
 
-export type FieldDecoratorType = () => PropertyDecorator
+/**
+ * The `blindIndex` option of `encryptObject`: which fields get a blind index companion.
+ *
+ * @property {KeyInput} key - The index key.
+ * @property {string[]} fields - Paths of the fields to index, such as `'email'` or `'contacts[*].email'`.
+ * @property {string} [suffix='_bidx'] - Suffix of the companion property, written next to the field.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type BlindIndexFieldOptions = BlindIndexOptions & {
+    key: KeyInput
+    fields: string[]
+    suffix?: string
+}
 
-export type getFieldMetadataType = <T>(target: Record<string, any>) => { field: T, type: string }[]
\ No newline at end of file
+/**
+ * Type definition for the `blindIndex` function.
+ *
+ * @param {string | number | bigint | boolean | Date} value - The value to index.
+ * @param {KeyInput} indexKey - The index key.
+ * @param {BlindIndexOptions} [options] - Normalization, context and length.
+ * @returns {string} The Base64URL-encoded index.
+ *
+ * @since 1.1.0
+ * @category Type Encryption
+ * @public
+ */
+export type blindIndexType = (value: string | number | bigint | boolean | Date, indexKey: KeyInput, options?: BlindIndexOptions) => string
+
+/**
+ * Options of `encryptObject`, `decryptObject` and `rotateObject`: the field selection, and
+ * integrity options that must be the same for encryption and decryption.
+ *
+ * @property {boolean} [bind=false] - Bind each field's ciphertext to its path (associated data), so it can't be moved to another field.
+ * @property {string} [documentId] - Also bind each ciphertext to this document ID, so it can't be copied to another record. Implies `bind`.
+ * @property {boolean} [mac=false] - Store a MAC over all selected fields, so swapped, removed or added fields are detected.
+ * @property {string} [macField='_mac'] - Top-level property holding the MAC.
+ * @property {boolean} [allowLegacy=true] - Decrypt unbound legacy (v1) values (`decryptObject`), see `DecryptOptions`.
+ * @property {BlindIndexFieldOptions} [blindIndex] - Add `<field>_bidx` blind indexes (`encryptObject`), the companions are
+ * never encrypted, decrypted or covered by the MAC.
+ * @property {CompressionMode} [compress] - Compress large values before encryption (`encryptObject`), see `CompressionOptions`.
+ * @property {number} [compressThreshold=1024] - Values smaller than this many bytes are not compressed.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type ObjectCryptOptions = FieldSelectionOptions & CompressionOptions & {
+    bind?: boolean
+    documentId?: string
+    mac?: boolean
+    macField?: string
+    allowLegacy?: boolean
+    blindIndex?: BlindIndexFieldOptions
+}
+
+/**
+ * Maps an object type to the type `encryptObject` returns for it: every string, number,
+ * boolean, bigint, Date and byte array becomes a ciphertext string, `null` and `undefined`
+ * are kept, and nested objects and arrays keep their shape.
+ *
+ * @template T - The plain object type.
+ *
+ * @example
+ * type User = { name: string, age: number, tags: string[], deletedAt: Date | null }
+ * type Stored = Encrypted<User> // { name: string, age: string, tags: string[], deletedAt: string | null }
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type Encrypted<T> =
+    T extends null | undefined ? T :
+    T extends string | number | boolean | bigint | Date | Uint8Array ? string :
+    T extends readonly (infer U)[] ? Encrypted<U>[] :
+    T extends object ? { [K in keyof T]: Encrypted<T[K]> } :
+    T
+
+/**
+ * Type definition for the `encryptObject` function.
+ *
+ * @template T - The plain object type.
+ * @param {T} data - The object containing values to be encrypted.
+ * @param {KeyInput} [key] - An optional encryption key. Defaults to a predefined value if not provided.
+ * @param {ObjectCryptOptions} [options] - Which fields to encrypt and how to bind them, the result type is loose when given.
+ * @returns {Encrypted<T>} The object with all (or the selected) values encrypted.
+ *
+ * @example
+ * const encryptedData: Encrypted<User> = encryptObject(user, 'my-secret-key');
+ *
+ * @since 1.0.7
+ * @category Types
+ * @public
+ */
+export type encryptObjectType = {
+    <T extends Record<string, any>>(data: T, key?: KeyInput): Encrypted<T>
+    <T extends Record<string, any>>(data: T, key: KeyInput | undefined, options: ObjectCryptOptions): { [K in keyof T]: any }
+}
+
+/**
+ * Type definition for the `decryptObject` function.
+ *
+ * @template T - The plain object type, pass it explicitly as it can't be inferred from `Encrypted<T>`.
+ * @param {Encrypted<T>} data - The object produced by `encryptObject`.
+ * @param {KeyInput} [key] - An optional decryption key. Defaults to a predefined value if not provided.
+ * @param {ObjectCryptOptions} [options] - Which fields were encrypted and how they are bound.
+ * @returns {T} The object with all values decrypted to their original types.
+ *
+ * @example
+ * const user = decryptObject<User>(encryptedData, 'my-secret-key');
+ *
+ * @since 1.0.7
+ * @category Types
+ * @public
+ */
+export type decryptObjectType = {
+    <T extends Record<string, any> = Record<string, any>>(data: Encrypted<T>, key?: KeyInput): T
+    <T extends Record<string, any> = Record<string, any>>(data: Record<string, any>, key: KeyInput | undefined, options: ObjectCryptOptions): T
+}
+
+/**
+ * Options of the `encryptDocument` function.
+ *
+ * @property {CipherAlgorithm} [algorithm='aes-256-gcm'] - Authenticated cipher to use.
+ * @property {CiphertextEncoding} [encoding='base64url'] - Encoding of the returned ciphertext, `'buffer'` returns raw bytes.
+ * @property {string} [documentId] - Bind the ciphertext to this document ID, so it can't be copied to another record.
+ * @property {CompressionMode} [compress] - Compress the serialized document before encryption, see `CompressionOptions`.
+ * @property {number} [compressThreshold=1024] - Documents smaller than this many bytes are not compressed.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type EncryptDocumentOptions = CompressionOptions & {
+    algorithm?: CipherAlgorithm
+    encoding?: CiphertextEncoding
+    documentId?: string
+}
+
+/**
+ * Options of the `decryptDocument` function.
+ *
+ * @property {string} [documentId] - The document ID the ciphertext was bound to.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type DecryptDocumentOptions = {
+    documentId?: string
+}
+
+/**
+ * Type definition for the `encryptDocument` function.
+ *
+ * @template T - The document type.
+ * @param {T} data - The object or array to encrypt as a whole.
+ * @param {KeyInput} [key] - The encryption key string, key object or keyring.
+ * @param {EncryptDocumentOptions} [options] - Cipher, encoding, binding and compression options.
+ * @returns {string | Buffer} The ciphertext, or a Buffer with `encoding: 'buffer'`.
+ *
+ * @since 1.1.0
+ * @category Type Encrypt
+ * @public
+ */
+export type encryptDocumentType = {
+    <T extends object>(data: T, key: KeyInput | undefined, options: EncryptDocumentOptions & { encoding: 'buffer' }): Buffer
+    <T extends object>(data: T, key?: KeyInput, options?: EncryptDocumentOptions): string
+}
+
+/**
+ * Type definition for the `decryptDocument` function.
+ *
+ * @template T - The document type.
+ * @param {string | Uint8Array} data - A ciphertext produced by `encryptDocument`.
+ * @param {KeyInput} [key] - The decryption key string, key object or keyring.
+ * @param {DecryptDocumentOptions} [options] - The document ID the ciphertext was bound to.
+ * @returns {T} The document, with its original value types.
+ *
+ * @since 1.1.0
+ * @category Type Decrypt
+ * @public
+ */
+export type decryptDocumentType = <T extends object = Record<string, any>>(data: string | Uint8Array, key?: KeyInput, options?: DecryptDocumentOptions) => T
+
+/**
+ * Declared type of a `@Field`: a type name or a constructor (`String`, `Date`, a DTO class, ...).
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type FieldType = 'string' | 'number' | 'boolean' | 'bigint' | 'date' | 'array' | 'object' | Function
+
+/**
+ * Options of the `@Field` decorator.
+ *
+ * @property {FieldType} [type] - Declared type, the TypeScript property type (`design:type`) by default.
+ * @property {boolean} [encrypted=false] - Encrypt the field with `encryptInstance`.
+ * @property {boolean} [sensitive=false] - Leave the field out of `toPlain` output.
+ * @property {string} [name] - Property name used in serialized output.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type FieldOptions = {
+    type?: FieldType
+    encrypted?: boolean
+    sensitive?: boolean
+    name?: string
+}
+
+/**
+ * Metadata of a decorated field, as returned by `getFieldMetadata`.
+ *
+ * @property {string | symbol} field - The property key.
+ * @property {string} type - The declared type name, inferred from the value if only `Object` was declared.
+ * @property {string} name - The serialized name.
+ * @property {boolean} encrypted - Whether the field is encrypted by `encryptInstance`.
+ * @property {boolean} sensitive - Whether the field is left out of `toPlain` output.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type FieldMetadata = {
+    field: string | symbol
+    type: string
+    name: string
+    encrypted: boolean
+    sensitive: boolean
+}
+
+/**
+ * Options for the `toPlain` function.
+ *
+ * @property {boolean} [includeSensitive=false] - Also write fields marked `sensitive`.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type ToPlainOptions = {
+    includeSensitive?: boolean
+}
+
+export type FieldDecoratorType = {
+    (options?: FieldOptions): PropertyDecorator
+    (type: () => FieldType | FieldType[], options?: FieldOptions): PropertyDecorator
+}
+
+export type getFieldMetadataType = (target: Record<string, any>) => FieldMetadata[]
+
+/**
+ * Options for the `fromPlain` function.
+ *
+ * @property {boolean} [strict=false] - Reject properties that are not declared fields instead of dropping them.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type FromPlainOptions = {
+    strict?: boolean
+}
+
+/**
+ * Type definition for the `fromPlain` function.
+ *
+ * @template T - The DTO class type.
+ * @param {new () => T} type - The DTO class.
+ * @param {unknown} plain - The plain input object.
+ * @param {FromPlainOptions} [options] - Hydration options.
+ * @returns {T} The new instance with coerced values.
+ *
+ * @since 1.1.0
+ * @category Type Decorators
+ * @public
+ */
+export type fromPlainType = <T extends object>(type: new () => T, plain: unknown, options?: FromPlainOptions) => T
+
+/**
+ * Type definition for the `encryptInstance` function.
+ *
+ * @template T - The class type.
+ * @param {T} instance - The instance to encrypt.
+ * @param {KeyInput} key - Encryption key.
+ * @param {Omit<ObjectCryptOptions, 'include' | 'exclude' | 'schema'>} [options] - Binding and MAC options.
+ * @returns {T} A copy with the fields marked `encrypted` encrypted.
+ *
+ * @since 1.1.0
+ * @category Type Decorators
+ * @public
+ */
+export type encryptInstanceType = <T extends object>(instance: T, key: KeyInput, options?: Omit<ObjectCryptOptions, 'include' | 'exclude' | 'schema'>) => T
+
+/**
+ * Type definition for the `decryptInstance` function.
+ *
+ * @template T - The class type.
+ * @param {T} instance - The instance with encrypted fields.
+ * @param {KeyInput} key - Decryption key.
+ * @param {Omit<ObjectCryptOptions, 'include' | 'exclude' | 'schema'>} [options] - Binding and MAC options used for encryption.
+ * @returns {T} A copy with the fields marked `encrypted` decrypted.
+ *
+ * @since 1.1.0
+ * @category Type Decorators
+ * @public
+ */
+export type decryptInstanceType = <T extends object>(instance: T, key: KeyInput, options?: Omit<ObjectCryptOptions, 'include' | 'exclude' | 'schema'>) => T
+
+/**
+ * Type definition for the `toPlain` function.
+ *
+ * @param {object} instance - The instance to serialize.
+ * @param {ToPlainOptions} [options] - Serialization options.
+ * @returns {Record<string, unknown>} The JSON-safe plain object.
+ *
+ * @since 1.1.0
+ * @category Type Decorators
+ * @public
+ */
+export type toPlainType = (instance: object, options?: ToPlainOptions) => Record<string, unknown>
+
+/**
+ * Options for the `createEncryptStream` and `encryptFile` functions.
+ *
+ * @property {KeyInput} [key] - Encryption key string, key object or keyring.
+ * @property {CipherAlgorithm} [algorithm='aes-256-gcm'] - Authenticated cipher to use.
+ * @property {number} [chunkSize=65536] - Plaintext bytes per authenticated chunk.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type StreamEncryptOptions = {
+    key?: KeyInput
+    algorithm?: CipherAlgorithm
+    chunkSize?: number
+}
+
+/**
+ * Options for the `createDecryptStream` and `decryptFile` functions.
+ *
+ * @property {KeyInput} [key] - Key string, key object or keyring used during encryption.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type StreamDecryptOptions = {
+    key?: KeyInput
+}
+
+/**
+ * Type definition for the `createEncryptStream` function.
+ *
+ * @param {StreamEncryptOptions} [options] - Key, cipher and chunk size.
+ * @returns {Transform} A transform stream turning plaintext into a chunked ciphertext.
+ *
+ * @since 1.1.0
+ * @category Type Stream
+ * @public
+ */
+export type createEncryptStreamType = (options?: StreamEncryptOptions) => Transform
+
+/**
+ * Type definition for the `createDecryptStream` function.
+ *
+ * @param {StreamDecryptOptions} [options] - The key used during encryption.
+ * @returns {Transform} A transform stream turning a chunked ciphertext back into plaintext.
+ *
+ * @since 1.1.0
+ * @category Type Stream
+ * @public
+ */
+export type createDecryptStreamType = (options?: StreamDecryptOptions) => Transform
+
+/**
+ * Type definition for the `encryptFile` function.
+ *
+ * @param {string} src - Path of the plaintext file.
+ * @param {string} dest - Path of the ciphertext file to write.
+ * @param {KeyInput} key - Encryption key string, key object or keyring.
+ * @param {Omit<StreamEncryptOptions, 'key'>} [options] - Cipher and chunk size.
+ * @returns {Promise<void>} Resolves when the file is written.
+ *
+ * @since 1.1.0
+ * @category Type Stream
+ * @public
+ */
+export type encryptFileType = (src: string, dest: string, key: KeyInput, options?: Omit<StreamEncryptOptions, 'key'>) => Promise<void>
+
+/**
+ * Type definition for the `decryptFile` function.
+ *
+ * @param {string} src - Path of the ciphertext file.
+ * @param {string} dest - Path of the plaintext file to write.
+ * @param {KeyInput} key - Key string, key object or keyring used during encryption.
+ * @returns {Promise<void>} Resolves when the file is written.
+ *
+ * @since 1.1.0
+ * @category Type Stream
+ * @public
+ */
+export type decryptFileType = (src: string, dest: string, key: KeyInput) => Promise<void>
+
+/**
+ * Registered JWT claims set by `signToken`, alongside the custom payload.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type TokenPayload = {
+    iat?: number
+    exp?: number
+    nbf?: number
+    aud?: string | string[]
+    iss?: string
+    sub?: string
+    jti?: string
+    [claim: string]: any
+}
+
+/**
+ * Options for the `signToken` function.
+ *
+ * @property {number | string} [expiresIn] - Lifetime in seconds, or a duration such as `'15m'`, `'2h'`, `'7d'`.
+ * @property {number | string} [notBefore] - Delay before the token becomes valid.
+ * @property {string | string[]} [audience] - The `aud` claim.
+ * @property {string} [issuer] - The `iss` claim.
+ * @property {string} [subject] - The `sub` claim.
+ * @property {string} [jwtId] - The `jti` claim.
+ * @property {number} [timestamp=Date.now()] - Issue time in milliseconds.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type SignTokenOptions = {
+    expiresIn?: number | string
+    notBefore?: number | string
+    audience?: string | string[]
+    issuer?: string
+    subject?: string
+    jwtId?: string
+    timestamp?: number
+}
+
+/**
+ * Options for the `verifyToken` function.
+ *
+ * @property {string | string[]} [audience] - Accepted `aud` values.
+ * @property {string | string[]} [issuer] - Accepted `iss` values.
+ * @property {number} [clockTolerance=0] - Seconds of clock skew allowed for `exp` and `nbf`.
+ * @property {number} [timestamp=Date.now()] - Verification time in milliseconds.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type VerifyTokenOptions = {
+    audience?: string | string[]
+    issuer?: string | string[]
+    clockTolerance?: number
+    timestamp?: number
+}
+
+/**
+ * Result of the `verifyToken` function.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type VerifyTokenResult<T> =
+    | { valid: true, payload: T & TokenPayload, error?: undefined }
+    | { valid: false, payload?: undefined, error: TokenError }
+
+/**
+ * Type definition for the `signToken` function.
+ *
+ * @param {Record<string, any>} payload - Custom claims.
+ * @param {KeyInput} key - Signing key string, key object or keyring.
+ * @param {SignTokenOptions} [options] - Standard claims.
+ * @returns {string} The signed compact JWT.
+ *
+ * @since 1.1.0
+ * @category Type Token
+ * @public
+ */
+export type signTokenType = (payload: Record<string, any>, key: KeyInput, options?: SignTokenOptions) => string
+
+/**
+ * Type definition for the `verifyToken` function.
+ *
+ * @template T - The expected payload type.
+ * @param {string} token - The token to verify.
+ * @param {KeyInput} key - Signing key string, key object or keyring.
+ * @param {VerifyTokenOptions} [options] - Expected claims and clock tolerance.
+ * @returns {VerifyTokenResult<T>} The verification result.
+ *
+ * @since 1.1.0
+ * @category Type Token
+ * @public
+ */
+export type verifyTokenType = <T extends Record<string, any> = Record<string, any>>(token: string, key: KeyInput, options?: VerifyTokenOptions) => VerifyTokenResult<T>
+
+/**
+ * HMAC algorithms supported for one-time passwords.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type OtpAlgorithm = 'sha1' | 'sha256' | 'sha512'
+
+/**
+ * A one-time password secret: a Base32 string or the raw secret bytes.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type OtpSecret = string | Uint8Array
+
+/**
+ * Options for the `hotp` function.
+ *
+ * @property {number} [digits=6] - Code length (6 to 10).
+ * @property {OtpAlgorithm} [algorithm='sha1'] - HMAC algorithm.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type HotpOptions = {
+    digits?: number
+    algorithm?: OtpAlgorithm
+}
+
+/**
+ * Options for the `totp` function.
+ *
+ * @property {number} [step=30] - Time step in seconds.
+ * @property {number} [timestamp=Date.now()] - Time in milliseconds.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type TotpOptions = HotpOptions & {
+    step?: number
+    timestamp?: number
+}
+
+/**
+ * Options for the `verifyHotp` function.
+ *
+ * @property {number} [window=0] - How many counters ahead to accept.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type VerifyHotpOptions = HotpOptions & {
+    window?: number
+}
+
+/**
+ * Options for the `verifyTotp` function.
+ *
+ * @property {number} [window=1] - Accepted drift in time steps in both directions.
+ * @property {(counter: number) => boolean} [isReplay] - Replay protection hook, returns `true` for already used counters.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type VerifyTotpOptions = TotpOptions & {
+    window?: number
+    isReplay?: (counter: number) => boolean
+}
+
+/**
+ * Result of the `verifyTotp` and `verifyHotp` functions.
+ *
+ * @property {boolean} valid - Whether the code was accepted.
+ * @property {number} [counter] - The matched counter, to store for replay protection.
+ * @property {number} [delta] - Distance of the matched counter from the expected one.
+ * @property {boolean} [replayed] - The code matched but was rejected by `isReplay`.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type VerifyOtpResult = {
+    valid: boolean
+    counter?: number
+    delta?: number
+    replayed?: boolean
+}
+
+/**
+ * Options for the `otpauthUri` function.
+ *
+ * @property {string} secret - The Base32 secret.
+ * @property {string} label - Account name shown in the authenticator app.
+ * @property {string} [issuer] - Service name shown in the authenticator app.
+ * @property {'totp' | 'hotp'} [type='totp'] - OTP type.
+ * @property {OtpAlgorithm} [algorithm] - HMAC algorithm, omitted means SHA-1.
+ * @property {number} [digits] - Code length, omitted means 6.
+ * @property {number} [step] - TOTP period in seconds, omitted means 30.
+ * @property {number} [counter=0] - Initial HOTP counter.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type OtpauthUriOptions = {
+    secret: string
+    label: string
+    issuer?: string
+    type?: 'totp' | 'hotp'
+    algorithm?: OtpAlgorithm
+    digits?: number
+    step?: number
+    counter?: number
+}
+
+/**
+ * Type definition for the `generateTotpSecret` function.
+ *
+ * @param {number} [length=32] - Number of Base32 characters.
+ * @returns {string} The Base32 secret.
+ *
+ * @since 1.1.0
+ * @category Type OTP
+ * @public
+ */
+export type generateTotpSecretType = (length?: number) => string
+
+/**
+ * Type definition for the `hotp` function.
+ *
+ * @param {OtpSecret} secret - Base32 secret or raw bytes.
+ * @param {number} counter - The moving counter.
+ * @param {HotpOptions} [options] - Digits and algorithm.
+ * @returns {string} The code.
+ *
+ * @since 1.1.0
+ * @category Type OTP
+ * @public
+ */
+export type hotpType = (secret: OtpSecret, counter: number, options?: HotpOptions) => string
+
+/**
+ * Type definition for the `totp` function.
+ *
+ * @param {OtpSecret} secret - Base32 secret or raw bytes.
+ * @param {TotpOptions} [options] - Step, digits, algorithm and time.
+ * @returns {string} The code.
+ *
+ * @since 1.1.0
+ * @category Type OTP
+ * @public
+ */
+export type totpType = (secret: OtpSecret, options?: TotpOptions) => string
+
+/**
+ * Type definition for the `verifyHotp` function.
+ *
+ * @param {string} token - The code to check.
+ * @param {OtpSecret} secret - Base32 secret or raw bytes.
+ * @param {number} counter - The next expected counter.
+ * @param {VerifyHotpOptions} [options] - Look-ahead window, digits and algorithm.
+ * @returns {VerifyOtpResult} The verification result.
+ *
+ * @since 1.1.0
+ * @category Type OTP
+ * @public
+ */
+export type verifyHotpType = (token: string, secret: OtpSecret, counter: number, options?: VerifyHotpOptions) => VerifyOtpResult
+
+/**
+ * Type definition for the `verifyTotp` function.
+ *
+ * @param {string} token - The code to check.
+ * @param {OtpSecret} secret - Base32 secret or raw bytes.
+ * @param {VerifyTotpOptions} [options] - Drift window, replay hook and code parameters.
+ * @returns {VerifyOtpResult} The verification result.
+ *
+ * @since 1.1.0
+ * @category Type OTP
+ * @public
+ */
+export type verifyTotpType = (token: string, secret: OtpSecret, options?: VerifyTotpOptions) => VerifyOtpResult
+
+/**
+ * Type definition for the `otpauthUri` function.
+ *
+ * @param {OtpauthUriOptions} options - Secret, label, issuer and code parameters.
+ * @returns {string} The `otpauth://` URI.
+ *
+ * @since 1.1.0
+ * @category Type OTP
+ * @public
+ */
+export type otpauthUriType = (options: OtpauthUriOptions) => string
+
+/**
+ * Options shared by the validator decorators.
+ *
+ * @property {string} [message] - Error message replacing the default one.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type ValidatorOptions = {
+    message?: string
+}
+
+/**
+ * A failed validation rule, as returned by `validate`.
+ *
+ * @property {string} path - Path of the field, such as `'email'` or `'addresses[0].zip'`.
+ * @property {string} rule - The failed rule: `'type'`, `'required'`, `'minLength'`, `'maxLength'`,
+ * `'pattern'`, `'email'`, `'min'`, `'max'`, `'isIn'` or the name of a custom rule.
+ * @property {string} message - Human readable message.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type ValidationIssue = {
+    path: string
+    rule: string
+    message: string
+}
+
+/**
+ * Result of the `validate` function.
+ *
+ * @property {boolean} valid - `true` if no rule failed.
+ * @property {ValidationIssue[]} errors - The failed rules, empty when valid.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type ValidationResult = {
+    valid: boolean
+    errors: ValidationIssue[]
+}
+
+/**
+ * Type definition for validator decorators without parameters (`Required`, `IsEmail`).
+ *
+ * @since 1.1.0
+ * @category Type Validation
+ * @public
+ */
+export type ValidatorDecoratorType = (options?: ValidatorOptions) => PropertyDecorator
+
+/**
+ * Type definition for validator decorators with a numeric limit (`MinLength`, `MaxLength`, `Min`, `Max`).
+ *
+ * @since 1.1.0
+ * @category Type Validation
+ * @public
+ */
+export type LimitValidatorType = (limit: number, options?: ValidatorOptions) => PropertyDecorator
+
+/**
+ * Type definition for the `Pattern` decorator.
+ *
+ * @since 1.1.0
+ * @category Type Validation
+ * @public
+ */
+export type PatternValidatorType = (pattern: RegExp, options?: ValidatorOptions) => PropertyDecorator
+
+/**
+ * Type definition for the `IsIn` decorator.
+ *
+ * @since 1.1.0
+ * @category Type Validation
+ * @public
+ */
+export type IsInValidatorType = (values: readonly unknown[], options?: ValidatorOptions) => PropertyDecorator
+
+/**
+ * Type definition for the `Validate` decorator.
+ *
+ * @since 1.1.0
+ * @category Type Validation
+ * @public
+ */
+export type ValidateDecoratorType = (predicate: (value: any, instance: any) => boolean, options?: ValidatorOptions & { rule?: string }) => PropertyDecorator
+
+/**
+ * Type definition for the `validate` function.
+ *
+ * @param {object} instance - The decorated instance to validate.
+ * @returns {ValidationResult} The validation result.
+ *
+ * @since 1.1.0
+ * @category Type Validation
+ * @public
+ */
+export type validateType = (instance: object) => ValidationResult
+
+/**
+ * A request handled by the DTO middleware: `req.body` holds the parsed body, if a body parser
+ * ran before, and the validated DTO instance afterwards.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type DtoRequest = IncomingMessage & {
+    body?: any
+}
+
+/**
+ * Callback of a `(req, res, next)` middleware, called with an error to delegate it.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type NextFunction = (err?: unknown) => void
+
+/**
+ * A framework-agnostic `(req, res, next)` middleware (Express, Connect, `node:http`).
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type DtoMiddleware = (req: DtoRequest, res: ServerResponse, next: NextFunction) => void
+
+/**
+ * Options for the `createDtoMiddleware` function.
+ *
+ * @property {boolean} [strict=false] - Reject undeclared body properties.
+ * @property {number} [limit=1048576] - Maximum body size in bytes when the body is read from the request stream.
+ * @property {(res: ServerResponse, status: number, errors: ValidationIssue[]) => void} [onError] - Sends the error
+ * response, by default a JSON `{ errors }` body.
+ * @property {boolean} [bind=false] - The encrypted fields were bound to their paths.
+ * @property {string} [documentId] - The document ID the encrypted fields were bound to.
+ * @property {boolean} [mac=false] - Verify and strip the object MAC.
+ * @property {string} [macField='_mac'] - Property holding the object MAC.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type DtoMiddlewareOptions = Omit<ObjectCryptOptions, 'include' | 'exclude' | 'schema' | 'allowLegacy'> & {
+    strict?: boolean
+    limit?: number
+    onError?: (res: ServerResponse, status: number, errors: ValidationIssue[]) => void
+}
+
+/**
+ * Type definition for the `createDtoMiddleware` function.
+ *
+ * @template T - The DTO class type.
+ * @param {new () => T} type - The DTO class.
+ * @param {KeyInput} key - Decryption key.
+ * @param {DtoMiddlewareOptions} [options] - Middleware options.
+ * @returns {DtoMiddleware} The middleware.
+ *
+ * @since 1.1.0
+ * @category Type Middleware
+ * @public
+ */
+export type createDtoMiddlewareType = <T extends object>(type: new () => T, key: KeyInput, options?: DtoMiddlewareOptions) => DtoMiddleware
+
+/**
+ * Type definition for the `encryptResponse` function.
+ *
+ * @param {object} instance - The DTO instance.
+ * @param {KeyInput} key - Encryption key.
+ * @param {Omit<ObjectCryptOptions, 'include' | 'exclude' | 'schema'>} [options] - Binding and MAC options.
+ * @returns {Record<string, any>} The response body with encrypted and sensitive fields encrypted.
+ *
+ * @since 1.1.0
+ * @category Type Middleware
+ * @public
+ */
+export type encryptResponseType = (instance: object, key: KeyInput, options?: Omit<ObjectCryptOptions, 'include' | 'exclude' | 'schema'>) => Record<string, any>
+
+/**
+ * Options for the `sendEncrypted` function.
+ *
+ * @property {number} [status=200] - The response status code.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type SendEncryptedOptions = Omit<ObjectCryptOptions, 'include' | 'exclude' | 'schema'> & {
+    status?: number
+}
+
+/**
+ * Type definition for the `sendEncrypted` function.
+ *
+ * @param {ServerResponse} res - The response.
+ * @param {object} instance - The DTO instance.
+ * @param {KeyInput} key - Encryption key.
+ * @param {SendEncryptedOptions} [options] - Status code, binding and MAC options.
+ *
+ * @since 1.1.0
+ * @category Type Middleware
+ * @public
+ */
+export type sendEncryptedType = (res: ServerResponse, instance: object, key: KeyInput, options?: SendEncryptedOptions) => void
+
+/**
+ * Format of a config file handled by `encryptEnvFile` and `loadEncryptedEnv`.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type EnvFileFormat = 'env' | 'json'
+
+/**
+ * Options for the `encryptEnvFile` function.
+ *
+ * @property {string[]} [include] - Names (or JSON paths) to encrypt, all values if omitted.
+ * @property {string[]} [exclude] - Names (or JSON paths) to keep in plaintext.
+ * @property {boolean} [bind=false] - Bind each value to its name (or JSON path).
+ * @property {EnvFileFormat} [format] - File format, by default `'json'` for `.json` files and `'env'` otherwise.
+ * @property {string} [output] - Write to this file instead of overwriting the input.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type EncryptEnvOptions = {
+    include?: string[]
+    exclude?: string[]
+    bind?: boolean
+    format?: EnvFileFormat
+    output?: string
+}
+
+/**
+ * Options for the `loadEncryptedEnv` function.
+ *
+ * @property {boolean} [bind=false] - The values were bound to their names on encryption.
+ * @property {EnvFileFormat} [format] - File format, by default `'json'` for `.json` files and `'env'` otherwise.
+ * @property {Record<string, string | undefined> | false} [target=process.env] - Where `.env` entries are assigned, `false` to only return them.
+ * @property {boolean} [override=false] - Replace variables that are already set in `target`.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type LoadEncryptedEnvOptions = {
+    bind?: boolean
+    format?: EnvFileFormat
+    target?: Record<string, string | undefined> | false
+    override?: boolean
+}
+
+/**
+ * Type definition for the `encryptEnvFile` function.
+ *
+ * @param {string} path - The `.env` or `.json` file.
+ * @param {KeyInput} key - Encryption key.
+ * @param {EncryptEnvOptions} [options] - Selection, binding, format and output options.
+ * @returns {string[]} The names (or JSON paths) encrypted by the call.
+ *
+ * @since 1.1.0
+ * @category Type Config
+ * @public
+ */
+export type encryptEnvFileType = (path: string, key: KeyInput, options?: EncryptEnvOptions) => string[]
+
+/**
+ * Type definition for the `loadEncryptedEnv` function.
+ *
+ * @template T - The config type.
+ * @param {string} path - The `.env` or `.json` file.
+ * @param {KeyInput} key - Decryption key.
+ * @param {LoadEncryptedEnvOptions} [options] - Binding, format and target options.
+ * @returns {T} The decrypted entries or config object.
+ *
+ * @since 1.1.0
+ * @category Type Config
+ * @public
+ */
+export type loadEncryptedEnvType = <T = Record<string, string>>(path: string, key: KeyInput, options?: LoadEncryptedEnvOptions) => T
+
+/**
+ * A data key wrapped (encrypted) by a `KeyProvider` master key.
+ *
+ * @property {string} keyId - ID of the master key that wrapped the data key.
+ * @property {Buffer} wrappedKey - The wrapped data key, opaque to the library.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type WrappedKey = {
+    keyId: string
+    wrappedKey: Buffer
+}
+
+/**
+ * Source of master keys for envelope encryption: wraps per-record data keys with the active
+ * master key and unwraps them with the master key that wrapped them. Implement it to plug in
+ * a KMS or HSM, master keys never have to leave it.
+ *
+ * @property {(dataKey: Buffer) => Promise<WrappedKey>} wrapKey - Wraps a data key with the active master key.
+ * @property {(wrapped: WrappedKey) => Promise<Buffer>} unwrapKey - Unwraps a data key wrapped by `wrapKey`.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type KeyProvider = {
+    wrapKey: (dataKey: Buffer) => Promise<WrappedKey>
+    unwrapKey: (wrapped: WrappedKey) => Promise<Buffer>
+}
+
+/**
+ * A key provider whose master keys can be rotated: `rotate` creates a new master key, makes
+ * it active and returns its ID. Existing data keys stay readable until they are rewrapped.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type RotatableKeyProvider = KeyProvider & {
+    rotate: () => Promise<string>
+}
+
+/**
+ * The in-memory mock KMS returned by `createMockKms`, with call counters for tests.
+ *
+ * @property {{ wrap: number, unwrap: number }} calls - Number of `wrapKey` and `unwrapKey` calls.
+ * @property {() => string[]} keyIds - IDs of the master keys, the active one last.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type MockKms = RotatableKeyProvider & {
+    readonly calls: { wrap: number, unwrap: number }
+    keyIds: () => string[]
+}
+
+/**
+ * Options for the `createEnvKeyProvider` function.
+ *
+ * @property {string} [prefix='ZEXSON_MASTER_KEY_'] - Variables named `<prefix><ID>` hold the master keys.
+ * @property {string} [active] - ID of the master key new data keys are wrapped with, required with several keys.
+ * @property {Record<string, string | undefined>} [env=process.env] - The environment to read.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type EnvKeyProviderOptions = {
+    prefix?: string
+    active?: string
+    env?: Record<string, string | undefined>
+}
+
+/**
+ * Options for the `createFileKeyProvider` function.
+ *
+ * @property {boolean} [create=false] - Create the keystore with a new random master key if the file does not exist.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type FileKeyProviderOptions = {
+    create?: boolean
+}
+
+/**
+ * Options for the `encryptWithProvider` function.
+ *
+ * @property {CipherAlgorithm} [algorithm='aes-256-gcm'] - Authenticated cipher for the payload.
+ * @property {CiphertextEncoding} [encoding='base64url'] - Encoding of the returned ciphertext, `'buffer'` returns raw bytes.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type ProviderEncryptOptions = {
+    algorithm?: CipherAlgorithm
+    encoding?: CiphertextEncoding
+}
+
+/**
+ * Type definition for the `encryptWithProvider` function.
+ *
+ * @param {string | Uint8Array} data - The plaintext.
+ * @param {KeyProvider} provider - The master key provider.
+ * @param {ProviderEncryptOptions} [options] - Cipher and encoding.
+ * @returns {Promise<string | Buffer>} The ciphertext with its wrapped data key.
+ *
+ * @since 1.1.0
+ * @category Type Key Providers
+ * @public
+ */
+export type encryptWithProviderType = {
+    (data: string | Uint8Array, provider: KeyProvider, options: ProviderEncryptOptions & { encoding: 'buffer' }): Promise<Buffer>
+    (data: string | Uint8Array, provider: KeyProvider, options?: ProviderEncryptOptions): Promise<string>
+}
+
+/**
+ * Type definition for the `decryptWithProvider` function.
+ *
+ * @param {string | Uint8Array} data - The ciphertext.
+ * @param {KeyProvider} provider - The master key provider.
+ * @param {{ encoding?: 'utf8' | 'buffer' }} [options] - Result encoding.
+ * @returns {Promise<string | Buffer>} The plaintext.
+ *
+ * @since 1.1.0
+ * @category Type Key Providers
+ * @public
+ */
+export type decryptWithProviderType = {
+    (data: string | Uint8Array, provider: KeyProvider, options: { encoding: 'buffer' }): Promise<Buffer>
+    (data: string | Uint8Array, provider: KeyProvider, options?: { encoding?: 'utf8' }): Promise<string>
+}
+
+/**
+ * Type definition for the `rewrapKey` function.
+ *
+ * @param {string | Uint8Array} data - The ciphertext.
+ * @param {KeyProvider} provider - The master key provider.
+ * @param {{ encoding?: CiphertextEncoding }} [options] - Encoding of the returned ciphertext.
+ * @returns {Promise<string | Buffer>} The ciphertext with its data key wrapped by the active master key.
+ *
+ * @since 1.1.0
+ * @category Type Key Providers
+ * @public
+ */
+export type rewrapKeyType = {
+    (data: string | Uint8Array, provider: KeyProvider, options: { encoding: 'buffer' }): Promise<Buffer>
+    (data: string | Uint8Array, provider: KeyProvider, options?: { encoding?: Exclude<CiphertextEncoding, 'buffer'> }): Promise<string>
+}
+
+export type createEnvKeyProviderType = (options?: EnvKeyProviderOptions) => KeyProvider
+
+export type createFileKeyProviderType = (path: string, options?: FileKeyProviderOptions) => RotatableKeyProvider
+
+export type createMockKmsType = () => MockKms
+
+/**
+ * Logger used by the library for its diagnostics, compatible with `console` and most logging
+ * libraries. Messages never contain plaintext, decrypted values or keys.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type Logger = {
+    debug: (message: string, details?: Record<string, unknown>) => void
+    info: (message: string, details?: Record<string, unknown>) => void
+    warn: (message: string, details?: Record<string, unknown>) => void
+    error: (message: string, details?: Record<string, unknown>) => void
+}
+
+/**
+ * Type definition for the `setLogger` function.
+ *
+ * @param {Partial<Logger> | null} logger - The logger, or `null` to silence the library.
+ *
+ * @since 1.1.0
+ * @category Type Logging
+ * @public
+ */
+export type setLoggerType = (logger: Partial<Logger> | null) => void
+
+/**
+ * Options for the `redact` function.
+ *
+ * @property {string[]} [paths] - Paths to mask, such as `'password'` or `'cards[*].number'`.
+ * @property {boolean} [useFieldMetadata=true] - Also mask the `sensitive` and `encrypted` fields of decorated instances.
+ * @property {(value: unknown, path: string) => unknown} [mask] - Custom masking function.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type RedactOptions = {
+    paths?: string[]
+    useFieldMetadata?: boolean
+    mask?: (value: unknown, path: string) => unknown
+}
+
+/**
+ * Type definition for the `redact` function.
+ *
+ * @param {object} value - The object to redact.
+ * @param {RedactOptions} [options] - What to mask and how.
+ * @returns {Record<string, any>} The redacted copy.
+ *
+ * @since 1.1.0
+ * @category Type Logging
+ * @public
+ */
+export type redactType = (value: object, options?: RedactOptions) => Record<string, any>
+
+/**
+ * Ciphertext formats told apart by `inspectCiphertext`: a v2 `'envelope'` from `encrypt` or
+ * `encryptObject`, a `'stream'` from `createEncryptStream`, a `'provider'` ciphertext from
+ * `encryptWithProvider`, the header-less `'legacy'` (v1) format, or `'unknown'` bytes.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type CiphertextFormat = 'envelope' | 'stream' | 'provider' | 'legacy' | 'unknown'
+
+/**
+ * What `inspectCiphertext` reads from a ciphertext header.
+ *
+ * @property {CiphertextFormat} format - The detected format.
+ * @property {number} [version] - Format version.
+ * @property {boolean} supported - Whether this release can decrypt the format version.
+ * @property {CipherAlgorithm} [algorithm] - The cipher.
+ * @property {string} [keyId] - ID of the keyring key, or the master key ID for provider ciphertexts.
+ * @property {'scrypt' | 'pbkdf2'} [kdf] - Key derivation function of a key object from `deriveKey`.
+ * @property {EnvelopeValueType} [valueType] - JS type recorded by `encryptObject`.
+ * @property {boolean} [bound] - The ciphertext is bound to a field path and document.
+ * @property {number} [chunkSize] - Plaintext chunk size of a streamed ciphertext.
+ * @property {CompressionAlgorithm} [compression] - The payload was compressed before encryption.
+ * @property {number} length - Ciphertext length in bytes (in characters for legacy strings).
+ * @property {number} [plaintextLength] - Exact plaintext length in bytes, for non-streamed, uncompressed versioned ciphertexts.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type CiphertextInfo = {
+    format: CiphertextFormat
+    version?: number
+    supported: boolean
+    algorithm?: CipherAlgorithm
+    keyId?: string
+    kdf?: KdfParams['name']
+    valueType?: EnvelopeValueType
+    bound?: boolean
+    chunkSize?: number
+    compression?: CompressionAlgorithm
+    length: number
+    plaintextLength?: number
+}
+
+/**
+ * Type definition for the `inspectCiphertext` function.
+ *
+ * @param {string | Uint8Array} data - The ciphertext.
+ * @returns {CiphertextInfo} What the ciphertext header tells.
+ *
+ * @since 1.1.0
+ * @category Type Encryption
+ * @public
+ */
+export type inspectCiphertextType = (data: string | Uint8Array) => CiphertextInfo
+
+/**
+ * Key accepted by the web build: a key string, or 32 raw key bytes (like `importKey`).
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type WebSecretKey = string | Uint8Array
+
+/**
+ * A keyring for the web build, as a plain object: the active key encrypts and signs, and
+ * ciphertexts and tokens are opened with the key named by their key ID.
+ *
+ * @property {string} active - ID of the key used to encrypt and sign.
+ * @property {Record<string, WebSecretKey>} keys - The keys by ID.
+ * @property {string} [legacyKeyId] - Key used for ciphertexts without a key ID, the active key by default.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type WebKeyring = {
+    active: string
+    keys: Record<string, WebSecretKey>
+    legacyKeyId?: string
+}
+
+/**
+ * Key input of the web build: a key string, raw key bytes or a `WebKeyring`.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type WebKeyInput = WebSecretKey | WebKeyring
+
+/**
+ * Options accepted by the web `encrypt` function.
+ *
+ * @property {WebKeyInput} [key] - Encryption key string, raw key bytes or keyring.
+ * @property {'aes-256-gcm'} [algorithm='aes-256-gcm'] - Web Crypto has no ChaCha20-Poly1305.
+ * @property {CiphertextEncoding} [encoding='base64url'] - Encoding of the ciphertext, `'buffer'` returns a `Uint8Array`.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type WebEncryptOptions = {
+    key?: WebKeyInput
+    algorithm?: 'aes-256-gcm'
+    encoding?: CiphertextEncoding
+}
+
+/**
+ * Options accepted by the web `decrypt` function.
+ *
+ * @property {WebKeyInput} [key] - The key string, raw key bytes or keyring used during encryption.
+ * @property {boolean} [allowLegacy=true] - Decode input without an envelope as the legacy (v1) format, see `DecryptOptions`.
+ * @property {'utf8' | 'buffer'} [encoding='utf8'] - Return the plaintext as a string or as a `Uint8Array`.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type WebDecryptOptions = {
+    key?: WebKeyInput
+    allowLegacy?: boolean
+    encoding?: 'utf8' | 'buffer'
+}
+
+/**
+ * Options of the web `encryptObject` and `decryptObject`: field selection, binding and MAC,
+ * as in the Node build. Blind indexes and compression are only available in the Node build.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type WebObjectCryptOptions = Omit<ObjectCryptOptions, 'blindIndex' | 'compress' | 'compressThreshold'>
+
+/**
+ * Options of the web `isEqual` function.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type WebIsEqualOptions = Omit<IsEqualOptions, 'key'> & {
+    key?: WebKeyInput
+}
+
+/**
+ * Type definition for the web `encrypt` function.
+ *
+ * @param {string | Uint8Array} data - The plain text or bytes to encrypt.
+ * @param {WebEncryptOptions} [options] - Key and encoding.
+ * @returns {Promise<string | Uint8Array>} The ciphertext, or its bytes with `encoding: 'buffer'`.
+ *
+ * @since 1.1.0
+ * @category Type Web
+ * @public
+ */
+export type webEncryptType = {
+    (data: string | Uint8Array, options: WebEncryptOptions & { encoding: 'buffer' }): Promise<Uint8Array>
+    (data: string | Uint8Array, options?: WebEncryptOptions): Promise<string>
+}
+
+/**
+ * Type definition for the web `decrypt` function.
+ *
+ * @param {string | Uint8Array} data - The ciphertext.
+ * @param {WebDecryptOptions} [options] - Key and result encoding.
+ * @returns {Promise<string | Uint8Array>} The plaintext, or its bytes with `encoding: 'buffer'`.
+ *
+ * @since 1.1.0
+ * @category Type Web
+ * @public
+ */
+export type webDecryptType = {
+    (data: string | Uint8Array, options: WebDecryptOptions & { encoding: 'buffer' }): Promise<Uint8Array>
+    (data: string | Uint8Array, options?: WebDecryptOptions): Promise<string>
+}
+
+/**
+ * Type definition for the web `encryptObject` function.
+ *
+ * @template T - The plain object type.
+ * @param {T} data - The object containing values to be encrypted.
+ * @param {WebKeyInput} [key] - The encryption key.
+ * @param {WebObjectCryptOptions} [options] - Which fields to encrypt and how to bind them, the result type is loose when given.
+ * @returns {Promise<Encrypted<T>>} The object with all (or the selected) values encrypted.
+ *
+ * @since 1.1.0
+ * @category Type Web
+ * @public
+ */
+export type webEncryptObjectType = {
+    <T extends Record<string, any>>(data: T, key?: WebKeyInput): Promise<Encrypted<T>>
+    <T extends Record<string, any>>(data: T, key: WebKeyInput | undefined, options: WebObjectCryptOptions): Promise<{ [K in keyof T]: any }>
+}
+
+/**
+ * Type definition for the web `decryptObject` function.
+ *
+ * @template T - The plain object type.
+ * @param {Encrypted<T>} data - The object produced by `encryptObject`.
+ * @param {WebKeyInput} [key] - The decryption key.
+ * @param {WebObjectCryptOptions} [options] - Which fields were encrypted and how they are bound.
+ * @returns {Promise<T>} The object with all values decrypted to their original types.
+ *
+ * @since 1.1.0
+ * @category Type Web
+ * @public
+ */
+export type webDecryptObjectType = {
+    <T extends Record<string, any> = Record<string, any>>(data: Encrypted<T>, key?: WebKeyInput): Promise<T>
+    <T extends Record<string, any> = Record<string, any>>(data: Record<string, any>, key: WebKeyInput | undefined, options: WebObjectCryptOptions): Promise<T>
+}
+
+/**
+ * Type definition for the web `isEqual` function.
+ *
+ * @param {string} text - The first string.
+ * @param {string} text1 - The second string.
+ * @param {WebIsEqualOptions} [options] - Case sensitivity, key and logging.
+ * @returns {Promise<{ isEqual: boolean, method?: string }>} The comparison result.
+ *
+ * @since 1.1.0
+ * @category Type Web
+ * @public
+ */
+export type webIsEqualType = (text: string, text1: string, options?: WebIsEqualOptions) => Promise<{ isEqual: boolean, method?: string }>
+
+/**
+ * Type definition for the web `base64Encode` and `base64Decode` functions.
+ *
+ * @param {string} data - The string to encode or decode.
+ * @param {WebKeyInput} [key] - The key influencing the encoding.
+ * @returns {string} The encoded or decoded string.
+ *
+ * @since 1.1.0
+ * @category Type Web
+ * @public
+ */
+export type webBase64Type = (data: string, key?: WebKeyInput) => string
+
+/**
+ * Type definition for the web `signToken` function.
+ *
+ * @param {Record<string, any>} payload - Custom claims.
+ * @param {WebKeyInput} key - Signing key string, raw key bytes or keyring.
+ * @param {SignTokenOptions} [options] - Standard claims.
+ * @returns {Promise<string>} The signed compact JWT.
+ *
+ * @since 1.1.0
+ * @category Type Web
+ * @public
+ */
+export type webSignTokenType = (payload: Record<string, any>, key: WebKeyInput, options?: SignTokenOptions) => Promise<string>
+
+/**
+ * Type definition for the web `verifyToken` function.
+ *
+ * @template T - The expected payload type.
+ * @param {string} token - The token to verify.
+ * @param {WebKeyInput} key - Signing key string, raw key bytes or keyring.
+ * @param {VerifyTokenOptions} [options] - Expected claims and clock tolerance.
+ * @returns {Promise<VerifyTokenResult<T>>} The verification result.
+ *
+ * @since 1.1.0
+ * @category Type Web
+ * @public
+ */
+export type webVerifyTokenType = <T extends Record<string, any> = Record<string, any>>(token: string, key: WebKeyInput, options?: VerifyTokenOptions) => Promise<VerifyTokenResult<T>>
+
+/**
+ * Progress of a bulk operation, reported after every batch.
+ *
+ * @property {number} done - Values encrypted or decrypted so far.
+ * @property {number} total - Values to encrypt or decrypt in total.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type BulkProgress = {
+    done: number
+    total: number
+}
+
+/**
+ * A pool of worker threads created by `createWorkerPool`, for the bulk functions' `pool` option.
+ *
+ * @property {number} concurrency - Maximum number of worker threads.
+ * @property {() => Promise<void>} destroy - Stops the worker threads, pending work is rejected.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type WorkerPool = {
+    readonly concurrency: number
+    destroy: () => Promise<void>
+}
+
+/**
+ * Options for the `createWorkerPool` function.
+ *
+ * @property {number} [concurrency] - Maximum number of worker threads, by default one less than the CPU count (at least 1).
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type WorkerPoolOptions = {
+    concurrency?: number
+}
+
+/**
+ * Options shared by the promise-returning bulk functions, which work in batches so the
+ * event loop is never blocked for long.
+ *
+ * @property {AbortSignal} [signal] - Cancels the operation, which then rejects with the signal's reason.
+ * @property {(progress: BulkProgress) => void} [onProgress] - Called after every batch.
+ * @property {number} [batchSize=256] - Values encrypted or decrypted per batch.
+ * @property {WorkerPool} [pool] - Run the batches on worker threads instead of the main thread.
+ *
+ * @since 1.1.0
+ * @category Type Definitions
+ * @public
+ */
+export type BulkOptions = {
+    signal?: AbortSignal
+    onProgress?: (progress: BulkProgress) => void
+    batchSize?: number
+    pool?: WorkerPool
+}
+
+/**
+ * Type definition for the `encryptObjectAsync` function.
+ *
+ * @template T - The plain object type.
+ * @param {T} data - The object containing values to be encrypted.
+ * @param {KeyInput} [key] - The encryption key string, key object or keyring.
+ * @param {ObjectCryptOptions & BulkOptions} [options] - The `encryptObject` options, and batching, cancellation and progress.
+ * @returns {Promise<Encrypted<T>>} The object with all (or the selected) values encrypted.
+ *
+ * @since 1.1.0
+ * @category Type Bulk
+ * @public
+ */
+export type encryptObjectAsyncType = {
+    <T extends Record<string, any>>(data: T, key?: KeyInput): Promise<Encrypted<T>>
+    <T extends Record<string, any>>(data: T, key: KeyInput | undefined, options: ObjectCryptOptions & BulkOptions): Promise<{ [K in keyof T]: any }>
+}
+
+/**
+ * Type definition for the `decryptObjectAsync` function.
+ *
+ * @template T - The type of the original object.
+ * @param {Encrypted<T>} data - The object containing values to be decrypted.
+ * @param {KeyInput} [key] - The decryption key string, key object or keyring.
+ * @param {ObjectCryptOptions & BulkOptions} [options] - The `decryptObject` options, and batching, cancellation and progress.
+ * @returns {Promise<T>} The object with decrypted values.
+ *
+ * @since 1.1.0
+ * @category Type Bulk
+ * @public
+ */
+export type decryptObjectAsyncType = {
+    <T extends Record<string, any> = Record<string, any>>(data: Encrypted<T>, key?: KeyInput): Promise<T>
+    <T extends Record<string, any> = Record<string, any>>(data: Record<string, any>, key: KeyInput | undefined, options: ObjectCryptOptions & BulkOptions): Promise<T>
+}
+
+/**
+ * Type definition for the `encryptMany` function.
+ *
+ * @param {(string | Uint8Array)[]} values - The strings or bytes to encrypt.
+ * @param {EncryptOptions & BulkOptions} [options] - The `encrypt` options, and batching, cancellation and progress.
+ * @returns {Promise<(string | Buffer)[]>} The ciphertexts, in the order of `values`.
+ *
+ * @since 1.1.0
+ * @category Type Bulk
+ * @public
+ */
+export type encryptManyType = {
+    (values: readonly (string | Uint8Array)[], options: EncryptOptions & BulkOptions & { encoding: 'buffer' }): Promise<Buffer[]>
+    (values: readonly (string | Uint8Array)[], options?: EncryptOptions & BulkOptions): Promise<string[]>
+}
+
+/**
+ * Type definition for the `decryptMany` function.
+ *
+ * @param {(string | Uint8Array)[]} values - The ciphertexts to decrypt.
+ * @param {DecryptOptions & BulkOptions} [options] - The `decrypt` options, and batching, cancellation and progress.
+ * @returns {Promise<(string | Buffer)[]>} The plaintexts, in the order of `values`.
+ *
+ * @since 1.1.0
+ * @category Type Bulk
+ * @public
+ */
+export type decryptManyType = {
+    (values: readonly (string | Uint8Array)[], options: DecryptOptions & BulkOptions & { encoding: 'buffer' }): Promise<Buffer[]>
+    (values: readonly (string | Uint8Array)[], options?: DecryptOptions & BulkOptions): Promise<string[]>
+}
+
+/**
+ * Type definition for the `createWorkerPool` function.
+ *
+ * @param {WorkerPoolOptions} [options] - The number of worker threads.
+ * @returns {WorkerPool} The pool.
+ *
+ * @since 1.1.0
+ * @category Type Bulk
+ * @public
+ */
+export type createWorkerPoolType = (options?: WorkerPoolOptions) => WorkerPool
@@ -0,0 +1,260 @@
+import 'reflect-metadata'
+import { fieldTypeInfo } from './decorators'
+import { formatPath } from './paths'
+import type { IsInValidatorType, LimitValidatorType, PatternValidatorType, ValidateDecoratorType, validateType, ValidationIssue, ValidationResult, ValidatorDecoratorType, ValidatorOptions } from './types'
+
+type ValidationRule = {
+    rule: string
+    message: string | undefined
+    describe: (path: string) => string
+    test: (value: any, instance: any) => boolean
+    optional: boolean
+}
+
+const EMAIL_PATTERN: RegExp = /^[^\s@]+@[^\s@.]+(?:\.[^\s@.]+)+$/
+
+const isEmpty = (value: unknown): boolean => value === undefined || value === null || value === ''
+
+const lengthOf = (value: unknown): number | undefined =>
+    typeof value === 'string' ? Array.from(value).length : Array.isArray(value) ? value.length : undefined
+
+/**
+ * Registers a rule on a property. Rules run in source order, every other rule is skipped
+ * for empty values so optional fields only need `@Required` when they must be present.
+ */
+const addRule = (rule: Omit<ValidationRule, 'optional'>, optional: boolean = true): PropertyDecorator =>
+    (target: object, propertyKey: string | symbol): void => {
+        const rules: ValidationRule[] = Reflect.getMetadata('validators', target, propertyKey) || [],
+            keys: (string | symbol)[] = Reflect.getMetadata('validated', target) || []
+        Reflect.defineMetadata('validators', [{ ...rule, optional }, ...rules], target, propertyKey)
+        if (!keys.includes(propertyKey)) Reflect.defineMetadata('validated', [...keys, propertyKey], target)
+    }
+
+/**
+ * Requires a value: `undefined`, `null` and empty strings are rejected.
+ *
+ * @decorator
+ * @param {ValidatorOptions} [options] - Custom error message.
+ * @returns {PropertyDecorator} The validator decorator.
+ *
+ * @since 1.1.0
+ * @category Validation
+ * @public
+ */
+export const Required: ValidatorDecoratorType = (options: ValidatorOptions = {}): PropertyDecorator =>
+    addRule({ rule: 'required', message: options.message, describe: (path: string): string => `${path} is required`, test: (value: unknown): boolean => !isEmpty(value) }, false)
+
+/**
+ * Requires a string (counted in characters) or an array to have at least `limit` elements.
+ *
+ * @decorator
+ * @param {number} limit - The minimum length.
+ * @param {ValidatorOptions} [options] - Custom error message.
+ * @returns {PropertyDecorator} The validator decorator.
+ *
+ * @since 1.1.0
+ * @category Validation
+ * @public
+ */
+export const MinLength: LimitValidatorType = (limit: number, options: ValidatorOptions = {}): PropertyDecorator =>
+    addRule({ rule: 'minLength', message: options.message, describe: (path: string): string => `${path} must be at least ${limit} characters long`, test: (value: unknown): boolean => (lengthOf(value) ?? -Infinity) >= limit })
+
+/**
+ * Requires a string (counted in characters) or an array to have at most `limit` elements.
+ *
+ * @decorator
+ * @param {number} limit - The maximum length.
+ * @param {ValidatorOptions} [options] - Custom error message.
+ * @returns {PropertyDecorator} The validator decorator.
+ *
+ * @since 1.1.0
+ * @category Validation
+ * @public
+ */
+export const MaxLength: LimitValidatorType = (limit: number, options: ValidatorOptions = {}): PropertyDecorator =>
+    addRule({ rule: 'maxLength', message: options.message, describe: (path: string): string => `${path} must be at most ${limit} characters long`, test: (value: unknown): boolean => (lengthOf(value) ?? Infinity) <= limit })
+
+/**
+ * Requires a string matching a regular expression.
+ *
+ * @decorator
+ * @param {RegExp} pattern - The pattern to match.
+ * @param {ValidatorOptions} [options] - Custom error message.
+ * @returns {PropertyDecorator} The validator decorator.
+ *
+ * @since 1.1.0
+ * @category Validation
+ * @public
+ */
+export const Pattern: PatternValidatorType = (pattern: RegExp, options: ValidatorOptions = {}): PropertyDecorator =>
+    addRule({
+        rule: 'pattern', message: options.message, describe: (path: string): string => `${path} has an invalid format`,
+        test: (value: unknown): boolean => {
+            pattern.lastIndex = 0
+            return typeof value === 'string' && pattern.test(value)
+        },
+    })
+
+/**
+ * Requires a string that looks like an email address (`local@domain.tld`).
+ *
+ * @decorator
+ * @param {ValidatorOptions} [options] - Custom error message.
+ * @returns {PropertyDecorator} The validator decorator.
+ *
+ * @since 1.1.0
+ * @category Validation
+ * @public
+ */
+export const IsEmail: ValidatorDecoratorType = (options: ValidatorOptions = {}): PropertyDecorator =>
+    addRule({ rule: 'email', message: options.message, describe: (path: string): string => `${path} must be a valid email address`, test: (value: unknown): boolean => typeof value === 'string' && value.length <= 254 && EMAIL_PATTERN.test(value) })
+
+/**
+ * Requires a number (or bigint) greater than or equal to `limit`.
+ *
+ * @decorator
+ * @param {number} limit - The minimum value.
+ * @param {ValidatorOptions} [options] - Custom error message.
+ * @returns {PropertyDecorator} The validator decorator.
+ *
+ * @since 1.1.0
+ * @category Validation
+ * @public
+ */
+export const Min: LimitValidatorType = (limit: number, options: ValidatorOptions = {}): PropertyDecorator =>
+    addRule({ rule: 'min', message: options.message, describe: (path: string): string => `${path} must be at least ${limit}`, test: (value: unknown): boolean => (typeof value === 'number' || typeof value === 'bigint') && value >= limit })
+
+/**
+ * Requires a number (or bigint) less than or equal to `limit`.
+ *
+ * @decorator
+ * @param {number} limit - The maximum value.
+ * @param {ValidatorOptions} [options] - Custom error message.
+ * @returns {PropertyDecorator} The validator decorator.
+ *
+ * @since 1.1.0
+ * @category Validation
+ * @public
+ */
+export const Max: LimitValidatorType = (limit: number, options: ValidatorOptions = {}): PropertyDecorator =>
+    addRule({ rule: 'max', message: options.message, describe: (path: string): string => `${path} must be at most ${limit}`, test: (value: unknown): boolean => (typeof value === 'number' || typeof value === 'bigint') && value <= limit })
+
+/**
+ * Requires one of the given values (compared with `===`), or an array made only of them.
+ *
+ * @decorator
+ * @param {readonly unknown[]} values - The allowed values.
+ * @param {ValidatorOptions} [options] - Custom error message.
+ * @returns {PropertyDecorator} The validator decorator.
+ *
+ * @since 1.1.0
+ * @category Validation
+ * @public
+ */
+export const IsIn: IsInValidatorType = (values: readonly unknown[], options: ValidatorOptions = {}): PropertyDecorator =>
+    addRule({
+        rule: 'isIn', message: options.message, describe: (path: string): string => `${path} must be one of: ${values.map(String).join(', ')}`,
+        test: (value: unknown): boolean => Array.isArray(value) ? value.every((item: unknown): boolean => values.includes(item)) : values.includes(value),
+    })
+
+/**
+ * Validates a property with a custom predicate, which receives the value and the whole instance.
+ *
+ * @decorator
+ * @param {(value: any, instance: any) => boolean} predicate - Returns `true` for valid values.
+ * @param {ValidatorOptions & { rule?: string }} [options] - Rule name (`'custom'` by default) and error message.
+ * @returns {PropertyDecorator} The validator decorator.
+ *
+ * @example
+ * class SignupDTO {
+ *   @Field() password: string = ''
+ *   @Validate((value, dto) => value === dto.password, { rule: 'matches', message: 'Passwords do not match' })
+ *   @Field() passwordRepeat: string = ''
+ * }
+ *
+ * @since 1.1.0
+ * @category Validation
+ * @public
+ */
+export const Validate: ValidateDecoratorType = (predicate: (value: any, instance: any) => boolean, options: ValidatorOptions & { rule?: string } = {}): PropertyDecorator =>
+    addRule({ rule: options.rule ?? 'custom', message: options.message, describe: (path: string): string => `${path} is invalid`, test: predicate })
+
+/**
+ * Checks a value against the declared `@Field` type, empty values are left to `@Required`.
+ */
+const hasType = (value: unknown, type: string): boolean => {
+    switch (type) {
+        case 'string': return typeof value === 'string'
+        case 'number': return typeof value === 'number' && !Number.isNaN(value)
+        case 'boolean': return typeof value === 'boolean'
+        case 'bigint': return typeof value === 'bigint'
+        case 'date': return value instanceof Date && !Number.isNaN(value.getTime())
+        case 'array': return Array.isArray(value)
+        case 'object': return typeof value === 'object' && !Array.isArray(value)
+        default: return true
+    }
+}
+
+const isDecorated = (value: unknown): value is object =>
+    typeof value === 'object' && value !== null &&
+    ((Reflect.getMetadata('fields', value) || []).length > 0 || (Reflect.getMetadata('validated', value) || []).length > 0)
+
+/**
+ * Collects the issues of an instance and the decorated instances below it. `ancestors` holds
+ * the instances on the way from the root, so a cyclic graph is validated once instead of
+ * recursing forever.
+ */
+const collectIssues = (instance: object, path: string[], issues: ValidationIssue[], ancestors: WeakSet<object> = new WeakSet()): void => {
+    if (ancestors.has(instance)) return
+    ancestors.add(instance)
+    const keys: (string | symbol)[] = [...new Set([...(Reflect.getMetadata('fields', instance) || []), ...(Reflect.getMetadata('validated', instance) || [])])]
+    for (const key of keys) {
+        const fieldPath: string[] = [...path, String(key)],
+            value: unknown = (instance as Record<string | symbol, unknown>)[key],
+            { type, item } = fieldTypeInfo(instance, key)
+        if (!isEmpty(value) && type !== undefined && !hasType(value, type)) {
+            issues.push({ path: formatPath(fieldPath), rule: 'type', message: `${formatPath(fieldPath)} must be of type ${type}` })
+            continue
+        }
+        for (const rule of (Reflect.getMetadata('validators', instance, key) || []) as ValidationRule[])
+            if (!(rule.optional && isEmpty(value)) && !rule.test(value, instance))
+                issues.push({ path: formatPath(fieldPath), rule: rule.rule, message: rule.message ?? rule.describe(formatPath(fieldPath)) })
+        if (Array.isArray(value))
+            value.forEach((element: unknown, i: number): void => {
+                const elementPath: string = formatPath([...fieldPath, `[${i}]`])
+                if (!isEmpty(element) && item?.type !== undefined && !hasType(element, item.type))
+                    issues.push({ path: elementPath, rule: 'type', message: `${elementPath} must be of type ${item.type}` })
+                else if (isDecorated(element)) collectIssues(element, [...fieldPath, `[${i}]`], issues, ancestors)
+            })
+        else if (isDecorated(value)) collectIssues(value, fieldPath, issues, ancestors)
+    }
+    ancestors.delete(instance)
+}
+
+/**
+ * Validates a decorated instance: the declared `@Field` types and every validator decorator,
+ * including nested decorated instances and arrays of them, and the element types of arrays
+ * declared with a type function. A field with the wrong type only reports the `'type'` error.
+ *
+ * @param {object} instance - The instance to validate.
+ * @returns {ValidationResult} `{ valid, errors }`, each error with the field `path` (such as
+ * `'addresses[0].zip'`), the failed `rule` and a `message`.
+ *
+ * @example
+ * class UserDTO {
+ *   @Required() @MinLength(3) @Field() username: string = ''
+ *   @IsEmail() @Field() email: string = ''
+ *   @Min(18) @Field() age: number = 0
+ * }
+ * const { valid, errors } = validate(Object.assign(new UserDTO(), req.body))
+ * // errors: [{ path: 'username', rule: 'minLength', message: 'username must be at least 3 characters long' }]
+ *
+ * @since 1.1.0
+ * @category Validation
+ * @public
+ */
+export const validate: validateType = (instance: object): ValidationResult => {
+    const errors: ValidationIssue[] = []
+    collectIssues(instance, [], errors)
+    return { valid: errors.length === 0, errors }
+}
@@ -0,0 +1,520 @@
+import { tokenAlphabet } from './alphabet.js'
+import { checkBinding, checkObjectMac, checkTokenClaims, concat, DEFAULT_KEY, DEFAULT_MAC_FIELD, ENVELOPE_IV_LENGTH, ENVELOPE_TAG_LENGTH, envelopeBytes, envelopeLayout, envelopePrefix, fieldBinding, fromBase64, fromUtf8, leafPayload, leafValue, legacyBase64Decode, legacyBase64Encode, legacyDecrypt, macEntry, macMessage, parseToken, readObjectMac, toBase64, toHex, tokenSigningInput, utf8 } from './codec.js'
+import type { MacHeader } from './codec'
+import { IntegrityError, InvalidKeyError, MalformedCiphertextError, TokenError, TokenSignatureError } from './errors.js'
+import { isHeaderKdfAllowed } from './kdf.js'
+import { logger } from './logger.js'
+import { fieldSelection } from './paths.js'
+import type { FieldSelection } from './paths'
+import type { CharacterSetType, Encrypted, EnvelopeHeader, EnvelopeValueType, KdfParams, SignTokenOptions, TokenOptions, TokenPayload, tokenGeneratorType, VerifyTokenOptions, VerifyTokenResult, webBase64Type, webDecryptObjectType, WebDecryptOptions, webDecryptType, webEncryptObjectType, WebEncryptOptions, webEncryptType, WebIsEqualOptions, webIsEqualType, WebKeyInput, WebKeyring, WebObjectCryptOptions, WebSecretKey, webSignTokenType, webVerifyTokenType } from './types'
+
+/*
+ * Runtime-agnostic build for browsers, Deno, Bun and edge workers: only Web Crypto
+ * (`globalThis.crypto`), `TextEncoder`/`TextDecoder` and `atob`/`btoa`, no Node built-ins and
+ * no `Buffer`. Ciphertexts and tokens are interchangeable with the Node build.
+ */
+
+const webCrypto = (): Crypto => {
+    const crypto: Crypto | undefined = globalThis.crypto
+    if (crypto?.subtle === undefined) throw new Error('Web Crypto (globalThis.crypto.subtle) is not available in this runtime')
+    return crypto
+}
+
+const subtle = (): SubtleCrypto => webCrypto().subtle
+
+const randomBytes = (length: number): Uint8Array => webCrypto().getRandomValues(new Uint8Array(length))
+
+const encodeCiphertext = (bytes: Uint8Array, encoding: WebEncryptOptions['encoding'] = 'base64url'): string | Uint8Array =>
+    encoding === 'buffer' ? bytes : encoding === 'hex' ? toHex(bytes) : toBase64(bytes, encoding === 'base64url')
+
+const isKeyring = (key: WebKeyInput): key is WebKeyring =>
+    typeof key === 'object' && key !== null && !(key instanceof Uint8Array)
+
+const keyringKey = (keyring: WebKeyring, id: string, message: string): WebSecretKey => {
+    if (!Object.prototype.hasOwnProperty.call(keyring.keys, id)) throw new InvalidKeyError(message)
+    return keyring.keys[id]
+}
+
+/**
+ * Returns the key to encrypt or sign with, and its ID when the input is a keyring.
+ */
+const encryptionKey = (key: WebKeyInput): { secret: WebSecretKey, kid?: string } =>
+    isKeyring(key) ? { secret: keyringKey(key, key.active, `Active key ID "${key.active}" is not in the keyring`), kid: key.active } : { secret: key }
+
+/**
+ * Returns the key to decrypt or verify with, chosen by the key ID when the input is a keyring.
+ */
+const decryptionKey = (key: WebKeyInput, kid?: string): WebSecretKey => {
+    if (!isKeyring(key)) return key
+    const id: string = kid ?? key.legacyKeyId ?? key.active
+    return keyringKey(key, id, `Unknown key ID "${id}"`)
+}
+
+/**
+ * Returns the 32 byte master key: raw key bytes as they are, key strings hashed with SHA-256,
+ * or re-derived with PBKDF2 when the ciphertext records passphrase derivation parameters
+ * within the default cost, as in the Node build.
+ */
+const masterKey = async (secret: WebSecretKey, params?: KdfParams): Promise<Uint8Array> => {
+    if (secret instanceof Uint8Array) {
+        if (secret.length !== 32) throw new InvalidKeyError('Raw keys must be exactly 32 bytes long')
+        if (params !== undefined) throw new InvalidKeyError('Key derivation parameters do not match the ciphertext')
+        return secret
+    }
+    if (typeof secret !== 'string') throw new InvalidKeyError('Keys must be strings, 32 raw bytes or a keyring')
+    if (params === undefined) return new Uint8Array(await subtle().digest('SHA-256', utf8(secret)))
+    if (params.name !== 'pbkdf2') throw new Error(`The ${params.name} key derivation function is not available in Web Crypto, decrypt with the Node build`)
+    if (!isHeaderKdfAllowed(params)) throw new InvalidKeyError('The ciphertext asks for a key derivation above the default cost, decrypt it with the Node build and the key object from deriveKey')
+    const passphrase: CryptoKey = await subtle().importKey('raw', utf8(secret.normalize('NFC')), 'PBKDF2', false, ['deriveBits'])
+    return new Uint8Array(await subtle().deriveBits({ name: 'PBKDF2', salt: fromBase64(params.salt), iterations: params.iterations, hash: params.hash === 'sha512' ? 'SHA-512' : 'SHA-256' }, passphrase, 256))
+}
+
+/**
+ * Derives a per-message key from a master key and a message salt (HKDF-SHA256).
+ */
+const messageKey = async (master: Uint8Array, salt: Uint8Array, info: string): Promise<Uint8Array> => {
+    const base: CryptoKey = await subtle().importKey('raw', master, 'HKDF', false, ['deriveBits'])
+    return new Uint8Array(await subtle().deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info: utf8(`zexson:${info}`) }, base, 256))
+}
+
+const hmacKey = (material: Uint8Array, usage: 'sign' | 'verify'): Promise<CryptoKey> =>
+    subtle().importKey('raw', material, { name: 'HMAC', hash: 'SHA-256' }, false, [usage])
+
+/**
+ * Returns the AES-GCM key of a v2 envelope, see `envelopeKey` in the Node build.
+ */
+const envelopeKey = async (secret: WebSecretKey, header: EnvelopeHeader, usage: 'encrypt' | 'decrypt'): Promise<CryptoKey> => {
+    const master: Uint8Array = await masterKey(secret, header.kdf),
+        material: Uint8Array = header.s === undefined ? master : await messageKey(master, fromBase64(header.s), `v2:${header.alg}`)
+    return subtle().importKey('raw', material, 'AES-GCM', false, [usage])
+}
+
+/**
+ * Encrypts bytes into an AES-256-GCM v2 envelope with the active key of `key`:
+ * `"ZX" | version | header length (uint16 BE) | header JSON | IV | tag | ciphertext`.
+ */
+const sealPayload = async (payload: Uint8Array, key: WebKeyInput, ty?: EnvelopeValueType, aad?: Uint8Array): Promise<Uint8Array> => {
+    const { secret, kid } = encryptionKey(key),
+        header: EnvelopeHeader = { alg: 'A256GCM', kid, s: toBase64(randomBytes(16), true) }
+    if (ty !== undefined) header.ty = ty
+    if (aad !== undefined) header.ad = true
+    const prefix: Uint8Array = envelopePrefix(header),
+        iv: Uint8Array = randomBytes(ENVELOPE_IV_LENGTH),
+        sealed: Uint8Array = new Uint8Array(await subtle().encrypt(
+            { name: 'AES-GCM', iv, additionalData: aad === undefined ? prefix : concat(prefix, aad), tagLength: ENVELOPE_TAG_LENGTH * 8 },
+            await envelopeKey(secret, header, 'encrypt'),
+            payload,
+        ))
+    return concat(prefix, iv, sealed.subarray(sealed.length - ENVELOPE_TAG_LENGTH), sealed.subarray(0, sealed.length - ENVELOPE_TAG_LENGTH))
+}
+
+/**
+ * Authenticates and decrypts v2 envelope bytes, returning the header alongside the plaintext.
+ * Bound and unbound ciphertexts are told apart as in the Node build.
+ */
+const openPayload = async (bytes: Uint8Array, key: WebKeyInput, aad?: Uint8Array): Promise<{ header: EnvelopeHeader, plaintext: Uint8Array }> => {
+    const { header, headerEnd, ivEnd, tagEnd } = envelopeLayout(bytes)
+    if (header.alg === 'C20P') throw new Error('ChaCha20-Poly1305 is not available in Web Crypto, decrypt this ciphertext with the Node build')
+    if (header.zip !== undefined) throw new Error('Compressed ciphertexts need zlib, decrypt this ciphertext with the Node build')
+    checkBinding(header, aad !== undefined)
+    const prefix: Uint8Array = bytes.subarray(0, headerEnd),
+        cipherKey: CryptoKey = await envelopeKey(decryptionKey(key, header.kid), header, 'decrypt')
+    try {
+        const plaintext: ArrayBuffer = await subtle().decrypt(
+            { name: 'AES-GCM', iv: bytes.subarray(headerEnd, ivEnd), additionalData: aad === undefined ? prefix : concat(prefix, aad), tagLength: ENVELOPE_TAG_LENGTH * 8 },
+            cipherKey,
+            concat(bytes.subarray(tagEnd), bytes.subarray(ivEnd, tagEnd)),
+        )
+        return { header, plaintext: new Uint8Array(plaintext) }
+    } catch {
+        throw new IntegrityError()
+    }
+}
+
+/**
+ * Returns the string form of a key as used by the legacy character shifting functions.
+ */
+const legacyKeyString = (key: WebSecretKey): string => key instanceof Uint8Array ? toHex(key) : key
+
+/**
+ * Encodes a string with the custom Base64 algorithm of the Node build's `base64Encode`,
+ * without `Buffer`.
+ *
+ * @param {string} data - The string to encode.
+ * @param {WebKeyInput} [key='qwertyuioplkjhgfdsazxcvbnm'] - Key string, raw key bytes or keyring influencing the encoding.
+ * @returns {string} The encoded string.
+ *
+ * @example
+ * const encoded = base64Encode('Hello, World!', 'customKey123')
+ *
+ * @since 1.1.0
+ * @category Web
+ * @public
+ */
+export const base64Encode: webBase64Type = (data: string, key: WebKeyInput = DEFAULT_KEY): string =>
+    legacyBase64Encode(data, legacyKeyString(encryptionKey(key).secret))
+
+/**
+ * Decodes a string encoded by `base64Encode` (from either build) back to its original form.
+ *
+ * @param {string} encryptedData - The string to decode.
+ * @param {WebKeyInput} [key='qwertyuioplkjhgfdsazxcvbnm'] - The key string, raw key bytes or keyring used during encoding.
+ * @returns {string} The decoded string.
+ * @throws {Error} If the data is not valid Base64 once unmixed.
+ *
+ * @example
+ * const decoded = base64Decode(encoded, 'customKey123')
+ *
+ * @since 1.1.0
+ * @category Web
+ * @public
+ */
+export const base64Decode: webBase64Type = (encryptedData: string, key: WebKeyInput = DEFAULT_KEY): string =>
+    legacyBase64Decode(encryptedData, legacyKeyString(decryptionKey(key)))
+
+/**
+ * Encrypts a string or bytes into an AES-256-GCM v2 envelope with Web Crypto. The result
+ * decrypts with the Node build's `decrypt`, and the other way around.
+ *
+ * @param {string | Uint8Array} data - The string or bytes to encrypt.
+ * @param {WebEncryptOptions} [options] - Encryption options.
+ * @param {WebKeyInput} [options.key] - Encryption key string, 32 raw key bytes or a keyring.
+ * @param {'aes-256-gcm'} [options.algorithm='aes-256-gcm'] - The only cipher available in Web Crypto.
+ * @param {CiphertextEncoding} [options.encoding='base64url'] - Ciphertext encoding, `'buffer'` returns a `Uint8Array`.
+ * @returns {Promise<string | Uint8Array>} The ciphertext.
+ * @throws {InvalidKeyError} If the key cannot be used.
+ * @throws {TypeError} If `data` is not a string or bytes.
+ *
+ * @example
+ * import { encrypt, decrypt } from 'zexson_toolkit/web'
+ * const encrypted = await encrypt('hello', { key: 'myCustomKey' })
+ *
+ * @since 1.1.0
+ * @category Web
+ * @public
+ */
+export const encrypt: webEncryptType = (async (data: string | Uint8Array, options: WebEncryptOptions = {}): Promise<string | Uint8Array> => {
+    if (typeof data !== 'string' && !(data instanceof Uint8Array)) throw new TypeError(`Cannot encrypt a value of type ${typeof data}, pass a string or bytes`)
+    if (options.algorithm !== undefined && options.algorithm !== 'aes-256-gcm') throw new Error(`Unsupported algorithm in Web Crypto: ${options.algorithm}`)
+    const envelope: Uint8Array = await sealPayload(typeof data === 'string' ? utf8(data) : data, options.key ?? DEFAULT_KEY)
+    return encodeCiphertext(envelope, options.encoding)
+}) as webEncryptType
+
+/**
+ * Decrypts a ciphertext produced by `encrypt` of either build, with Web Crypto.
+ *
+ * AES-256-GCM ciphertexts are accepted as Base64, Base64url, hex or raw bytes, and legacy (v1)
+ * strings are decoded as in the Node build unless `allowLegacy` is `false`. ChaCha20-Poly1305,
+ * scrypt-derived, compressed and streamed ciphertexts need the Node build.
+ *
+ * @param {string | Uint8Array} data - The ciphertext.
+ * @param {WebDecryptOptions} [options] - Decryption options.
+ * @param {WebKeyInput} [options.key] - Key string, raw key bytes or keyring used during encryption.
+ * @param {boolean} [options.allowLegacy=true] - Decode strings without an envelope as legacy (v1) data.
+ * @param {'utf8' | 'buffer'} [options.encoding='utf8'] - Return the plaintext as a string or as a `Uint8Array`.
+ * @returns {Promise<string | Uint8Array>} The plaintext.
+ * @throws {IntegrityError} If the key is wrong or the ciphertext was tampered with.
+ * @throws {MalformedCiphertextError} If the input is not a ciphertext, or is truncated, or is not
+ * an envelope and `allowLegacy` is `false`.
+ * @throws {UnsupportedVersionError} If the ciphertext was written in a newer format version.
+ * @throws {InvalidKeyError} If the key cannot be used, such as a key ID missing from the keyring.
+ *
+ * @example
+ * const text = await decrypt(encrypted, { key: 'myCustomKey' })
+ * const bytes = await decrypt(encrypted, { key: 'myCustomKey', encoding: 'buffer' })
+ *
+ * @since 1.1.0
+ * @category Web
+ * @public
+ */
+export const decrypt: webDecryptType = (async (data: string | Uint8Array, options: WebDecryptOptions | undefined = undefined): Promise<string | Uint8Array> => {
+    if (typeof data !== 'string' && !(data instanceof Uint8Array)) throw new TypeError(`Cannot decrypt a value of type ${typeof data}, pass a string or bytes`)
+    if (options === undefined) options = { key: DEFAULT_KEY }
+    const bytes: Uint8Array | null = envelopeBytes(typeof data === 'string' ? data.trim() : data)
+    if (bytes === null) {
+        if (typeof data !== 'string') throw new MalformedCiphertextError('Malformed ciphertext: missing envelope header')
+        if (options.allowLegacy === false) throw new MalformedCiphertextError('Malformed ciphertext: missing envelope header, legacy (v1) decoding is disabled')
+        const key: WebSecretKey = decryptionKey(options.key ?? (Object.prototype.hasOwnProperty.call(options, 'key') ? DEFAULT_KEY : 'secretKey'))
+        let res: string
+        try {
+            res = legacyDecrypt(data, legacyKeyString(key))
+        } catch {
+            throw new MalformedCiphertextError('Malformed ciphertext: neither a versioned nor a legacy ciphertext')
+        }
+        return options.encoding === 'buffer' ? utf8(res) : res
+    }
+    const { plaintext } = await openPayload(bytes, options.key ?? DEFAULT_KEY)
+    return options.encoding === 'buffer' ? plaintext : fromUtf8(plaintext)
+}) as webDecryptType
+
+/**
+ * Compares two strings, either of which may be encrypted, like the Node build's `isEqual`.
+ *
+ * @param {string} text - The first string.
+ * @param {string} text1 - The second string.
+ * @param {WebIsEqualOptions} [options] - Case sensitivity, key and logging of the matched method.
+ * @returns {Promise<{ isEqual: boolean, method?: string }>} Whether the strings match and how.
+ * @throws {IntegrityError} If a value is a ciphertext that the key does not open.
+ * @throws {TypeError} If a value is not a string.
+ *
+ * @example
+ * const { isEqual: same } = await isEqual('hello', encrypted, { key: 'myCustomKey' })
+ *
+ * @since 1.1.0
+ * @category Web
+ * @public
+ */
+export const isEqual: webIsEqualType = async (text: string, text1: string, options: WebIsEqualOptions = { caseSensitive: true }): Promise<{ isEqual: boolean, method?: string }> => {
+    if (typeof text === 'undefined' || typeof text1 === 'undefined') return { isEqual: false, method: 'Undefined' }
+    if (typeof text !== 'string' || typeof text1 !== 'string') throw new TypeError('isEqual compares strings')
+    const fold = (value: string): string => options.caseSensitive ? value : value.toLowerCase(),
+        same = (a: string, b: string): boolean => a === b || fold(a) === b || a === fold(b) || fold(a) === fold(b),
+        match = (method: string): { isEqual: boolean, method: string } => {
+            if (options.log) logger().debug(`isEqual: match found (${method})`)
+            return { isEqual: true, method }
+        },
+        decryptOrKeep = async (value: string): Promise<string> => {
+            try {
+                return await decrypt(value, { key: options.key })
+            } catch (err) {
+                if (err instanceof MalformedCiphertextError) return value
+                throw err
+            }
+        }
+
+    if (same(text, text1)) return match('Direct comparison')
+    const [decrypted, decrypted1] = await Promise.all([decryptOrKeep(text), decryptOrKeep(text1)])
+    if (same(decrypted1, text)) return match('Decrypted Text1 matched Text')
+    if (decrypted === text1 || fold(decrypted) === text1) return match('Decrypted Text matches Text1')
+    if (decrypted1 === decrypted || fold(decrypted1) === decrypted || decrypted1 === fold(decrypted)) return match('Both decrypted values match')
+    if (options.log) logger().debug('isEqual: no match found')
+    return { isEqual: false }
+}
+
+/**
+ * Rebuilds a document, applying `apply` to every selected leaf concurrently.
+ */
+const mapFields = async (value: any, path: string[], selection: FieldSelection, apply: (leaf: unknown, path: string[]) => Promise<unknown>): Promise<any> => {
+    if (!selection.reaches(path)) return value
+    if (Array.isArray(value)) return Promise.all(value.map((item: any, i: number): Promise<any> => mapFields(item, [...path, `[${i}]`], selection, apply)))
+    if (typeof value === 'object' && value !== null && leafPayload(value) === null) {
+        const entries: [string, any][] = await Promise.all(Object.entries(value).map(async ([k, v]: [string, any]): Promise<[string, any]> => [k, await mapFields(v, [...path, k], selection, apply)]))
+        return Object.fromEntries(entries)
+    }
+    return selection.selects(path) ? apply(value, path) : value
+}
+
+const fieldAad = (path: string[], options: WebObjectCryptOptions): Uint8Array | undefined => {
+    const binding: string | undefined = fieldBinding(path, options)
+    return binding === undefined ? undefined : utf8(binding)
+}
+
+const objectSelection = (options: WebObjectCryptOptions): FieldSelection => {
+    if ((options as { blindIndex?: unknown }).blindIndex !== undefined) throw new Error('Blind indexes are only available in the Node build')
+    return fieldSelection(options)
+}
+
+/**
+ * Computes the object MAC of the Node build: an HMAC-SHA256 over the document ID and every
+ * selected field (path and stored value).
+ */
+const objectMac = async (data: Record<string, any>, selection: FieldSelection, secret: WebSecretKey, header: MacHeader, documentId?: string): Promise<string> => {
+    const entries: string[] = []
+    await mapFields(data, [], selection, async (leaf: unknown, path: string[]): Promise<unknown> => {
+        entries.push(macEntry(path, leaf))
+        return leaf
+    })
+    const { encodedHeader, message } = macMessage(header, entries, documentId),
+        macKey: Uint8Array = await messageKey(await masterKey(secret, header.kdf), fromBase64(header.s), 'mac:HS256'),
+        tag: ArrayBuffer = await subtle().sign('HMAC', await hmacKey(macKey, 'sign'), utf8(message))
+    return `${encodedHeader}.${toBase64(new Uint8Array(tag), true)}`
+}
+
+/**
+ * Encrypts the values of an object with Web Crypto, like the Node build's `encryptObject`:
+ * each leaf is a separate AES-256-GCM ciphertext recording its JS type, with the same field
+ * selection, path binding and object MAC options. The result decrypts with either build.
+ *
+ * @template T - The object type.
+ * @param {T} data - The object containing values to be encrypted.
+ * @param {WebKeyInput} [key='qwertyuioplkjhgfdsazxcvbnm'] - The encryption key string, raw key bytes or keyring.
+ * @param {WebObjectCryptOptions} [options] - Which fields to encrypt and how to bind them.
+ * @returns {Promise<Encrypted<T>>} A new object with the same shape and encrypted values.
+ * @throws {Error} If encryption fails for any value or a path is invalid.
+ *
+ * @example
+ * const stored = await encryptObject(user, key, { include: ['ssn', 'cards[*].number'], documentId: user.id })
+ *
+ * @since 1.1.0
+ * @category Web
+ * @public
+ */
+export const encryptObject: webEncryptObjectType = (async <T extends Record<string, any>>(data: T, key: WebKeyInput = DEFAULT_KEY, options: WebObjectCryptOptions = {}): Promise<Encrypted<T>> => {
+    if (data == null) return data as Encrypted<T>
+    const selection: FieldSelection = objectSelection(options),
+        encrypted: Record<string, any> = await mapFields(data, [], selection, async (leaf: unknown, path: string[]): Promise<unknown> => {
+            const serialized = leafPayload(leaf)
+            return serialized === null ? leaf : toBase64(await sealPayload(serialized.payload, key, serialized.ty, fieldAad(path, options)), true)
+        })
+    if (!options.mac) return encrypted as Encrypted<T>
+    const { secret, kid } = encryptionKey(key)
+    return { ...encrypted, [options.macField ?? DEFAULT_MAC_FIELD]: await objectMac(encrypted, selection, secret, { kid, s: toBase64(randomBytes(16), true) }, options.documentId) } as Encrypted<T>
+}) as webEncryptObjectType
+
+/**
+ * Decrypts the values of an object produced by `encryptObject` of either build, restoring their
+ * types (byte arrays come back as `Uint8Array`). Pass the options used for encryption; with
+ * `mac` the whole object is verified before anything is decrypted.
+ *
+ * @template T - The type of the original object.
+ * @param {Encrypted<T>} data - The object containing values to be decrypted.
+ * @param {WebKeyInput} [key='qwertyuioplkjhgfdsazxcvbnm'] - The decryption key string, raw key bytes or keyring.
+ * @param {WebObjectCryptOptions} [options] - Which fields were encrypted and how they are bound.
+ * @returns {Promise<T>} A new object with decrypted values (without the MAC property).
+ * @throws {IntegrityError} If a value does not authenticate, a field was moved to another path
+ * or document, or the object MAC does not match.
+ * @throws {MalformedCiphertextError} If `allowLegacy` is `false` and an unbound value is not an envelope.
+ *
+ * @example
+ * const user = await decryptObject<User>(stored, key, { include: ['ssn', 'cards[*].number'], documentId: stored.id })
+ *
+ * @since 1.1.0
+ * @category Web
+ * @public
+ */
+export const decryptObject: webDecryptObjectType = (async <T extends Record<string, any>>(data: Record<string, any>, key: WebKeyInput = DEFAULT_KEY, options: WebObjectCryptOptions = {}): Promise<T> => {
+    if (data == null) return data as T
+    const selection: FieldSelection = objectSelection(options)
+    if (options.mac) {
+        const { mac, header, rest } = readObjectMac(data, options.macField)
+        checkObjectMac(mac, await objectMac(rest, selection, decryptionKey(key, header.kid), header, options.documentId))
+        data = rest
+    }
+    return mapFields(data, [], selection, async (leaf: unknown, path: string[]): Promise<unknown> => {
+        if (typeof leaf !== 'string') return leaf
+        const aad: Uint8Array | undefined = fieldAad(path, options),
+            bytes: Uint8Array | null = envelopeBytes(leaf.trim())
+        if (bytes === null) {
+            if (aad !== undefined) throw new IntegrityError('Authentication failed: the ciphertext is not bound to its field path')
+            return decrypt(leaf, { key, allowLegacy: options.allowLegacy })
+        }
+        const { header, plaintext } = await openPayload(bytes, key, aad)
+        return leafValue(plaintext, header.ty)
+    })
+}) as webDecryptObjectType
+
+/**
+ * Raw key bytes are used as they are and key strings as their UTF-8 bytes, as in the Node build.
+ */
+const tokenKey = (secret: WebSecretKey, usage: 'sign' | 'verify'): Promise<CryptoKey> =>
+    hmacKey(secret instanceof Uint8Array ? secret : utf8(secret), usage)
+
+/**
+ * Creates a signed, optionally expiring HS256 token with Web Crypto, like the Node build's
+ * `signToken`. Tokens verify with either build.
+ *
+ * @param {Record<string, any>} payload - Custom claims to embed (readable by anyone holding the token).
+ * @param {WebKeyInput} key - Signing key string, raw key bytes or keyring.
+ * @param {SignTokenOptions} [options] - Standard claims.
+ * @returns {Promise<string>} The signed token.
+ * @throws {Error} If the payload is not an object or a duration is invalid.
+ *
+ * @example
+ * const token = await signToken({ userId: 42 }, env.TOKEN_KEY, { expiresIn: '15m' })
+ *
+ * @since 1.1.0
+ * @category Web
+ * @public
+ */
+export const signToken: webSignTokenType = async (payload: Record<string, any>, key: WebKeyInput, options: SignTokenOptions = {}): Promise<string> => {
+    const { secret, kid } = encryptionKey(key),
+        input: string = tokenSigningInput(payload, options, kid),
+        signature: ArrayBuffer = await subtle().sign('HMAC', await tokenKey(secret, 'sign'), utf8(input))
+    return `${input}.${toBase64(new Uint8Array(signature), true)}`
+}
+
+/**
+ * Verifies an HS256 token with Web Crypto, like the Node build's `verifyToken`: failures are
+ * returned as typed errors, not thrown.
+ *
+ * @template T - The expected payload type.
+ * @param {string} token - The token to verify.
+ * @param {WebKeyInput} key - Signing key string, raw key bytes or keyring.
+ * @param {VerifyTokenOptions} [options] - Expected claims and clock tolerance.
+ * @returns {Promise<VerifyTokenResult<T>>} `{ valid: true, payload }` or `{ valid: false, error }`.
+ *
+ * @example
+ * const result = await verifyToken<{ userId: number }>(token, env.TOKEN_KEY, { audience: 'api' })
+ *
+ * @since 1.1.0
+ * @category Web
+ * @public
+ */
+export const verifyToken: webVerifyTokenType = async <T extends Record<string, any> = Record<string, any>>(token: string, key: WebKeyInput, options: VerifyTokenOptions = {}): Promise<VerifyTokenResult<T>> => {
+    try {
+        const { header, payload, input, signature } = parseToken(token)
+        let secret: WebSecretKey
+        try {
+            secret = decryptionKey(key, typeof header.kid === 'string' ? header.kid : undefined)
+        } catch {
+            throw new TokenSignatureError(`Unknown signing key ID "${header.kid}"`)
+        }
+        let signatureBytes: Uint8Array
+        try {
+            signatureBytes = fromBase64(signature)
+        } catch {
+            throw new TokenSignatureError()
+        }
+        if (!await subtle().verify('HMAC', await tokenKey(secret, 'verify'), signatureBytes, utf8(input))) throw new TokenSignatureError()
+        checkTokenClaims(payload, options)
+        return { valid: true, payload: payload as T & TokenPayload }
+    } catch (err) {
+        if (err instanceof TokenError) return { valid: false, error: err }
+        throw err
+    }
+}
+
+/**
+ * Returns a uniformly random integer below `size`, rejecting the values that would bias the modulo.
+ */
+const randomIndex = (size: number): number => {
+    const limit: number = Math.floor(0x100000000 / size) * size,
+        value: Uint32Array = new Uint32Array(1)
+    do {
+        webCrypto().getRandomValues(value)
+    } while (value[0] >= limit)
+    return value[0] % size
+}
+
+/**
+ * Generates a random token with `crypto.getRandomValues`, with the same options and guarantees
+ * as the Node build's `tokenGenerator`.
+ *
+ * @param {number} length - The desired length of the generated token (without `prefix`).
+ * @param {CharacterSetType | TokenOptions} [type_='defaultSet'] - The character set to use, or token options.
+ * @returns {string} A random token string.
+ * @throws {Error} If the length is invalid or the alphabet has fewer than two characters.
+ *
+ * @example
+ * tokenGenerator(24, { alphabet: 'abcdef0123456789', prefix: 'sk_' })
+ *
+ * @since 1.1.0
+ * @category Web
+ * @public
+ */
+export const tokenGenerator: tokenGeneratorType = (length: number, type_: CharacterSetType | TokenOptions = 'defaultSet'): string => {
+    if (!Number.isInteger(length) || length < 0) throw new Error('Token length must be a non-negative integer')
+    const { alphabet, first } = tokenAlphabet(type_),
+        prefix: string = typeof type_ === 'object' ? type_.prefix ?? '' : ''
+    if (first.length === 0) throw new Error('The alphabet has no characters allowed in the first position')
+    let token: string = ''
+    for (let i: number = 0; i < length; i++) {
+        const set: string[] = i === 0 ? first : alphabet
+        token += set[randomIndex(set.length)]
+    }
+    return prefix + token
+}
+
+export { setLogger } from './logger.js'
+export { IntegrityError, InvalidKeyError, MalformedCiphertextError, MalformedTokenError, TokenClaimError, TokenError, TokenExpiredError, TokenNotActiveError, TokenSignatureError, UnsupportedVersionError, ZexsonError } from './errors.js'
+export type { CharacterSetType, CiphertextEncoding, Encrypted, EncryptionSchema, FieldSelectionOptions, Logger, SignTokenOptions, TokenOptions, TokenPayload, VerifyTokenOptions, VerifyTokenResult, WebDecryptOptions, WebEncryptOptions, WebIsEqualOptions, WebKeyInput, WebKeyring, WebObjectCryptOptions, WebSecretKey } from './types.js'
@@ -0,0 +1,22 @@
+import { parentPort } from 'node:worker_threads'
+import { setStrictMode } from './keys'
+import { receiveKey, runTask, sendError } from './pool'
+import type { WorkerRequest, WorkerResponse } from './pool'
+
+/*
+ * Worker thread entry of `createWorkerPool`: runs the batches it receives and posts back
+ * their results, or the error that stopped them.
+ */
+
+// Keys are resolved, and checked against strict mode, on the thread that submits the batch
+setStrictMode(false)
+
+parentPort?.on('message', ({ id, task, key }: WorkerRequest): void => {
+    let response: WorkerResponse
+    try {
+        response = { id, result: runTask(task, receiveKey(key)) }
+    } catch (err) {
+        response = { id, error: sendError(err) }
+    }
+    parentPort?.postMessage(response)
+})
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { createKeyring, createWorkerPool, decrypt, decryptMany, decryptObject, decryptObjectAsync, deriveKey, encrypt, encryptMany, encryptObjectAsync, IntegrityError, MalformedCiphertextError } from '../index'
+import type { WorkerPool } from '../index'
+
+const ROWS: Record<string, any>[] = Array.from({ length: 20 }, (_: unknown, i: number) => ({ id: i, email: `user${i}@example.com`, age: 20 + i }))
+
+describe('encryptObjectAsync / decryptObjectAsync', () => {
+    test('match the synchronous functions, in batches with progress', async () => {
+        const document = { id: 'd1', rows: ROWS },
+            options = { exclude: ['id', 'rows[*].id'], documentId: 'd1', mac: true },
+            progress: number[] = []
+        const stored: Record<string, any> = await encryptObjectAsync(document, 'k', { ...options, batchSize: 16, onProgress: ({ done }) => void progress.push(done) })
+        assert.deepEqual(progress, [16, 32, 40])
+        assert.equal(stored.id, 'd1')
+        assert.deepEqual(decryptObject(stored, 'k', options), document)
+        assert.deepEqual(await decryptObjectAsync(stored, 'k', options), document)
+        await assert.rejects(decryptObjectAsync({ ...stored, id: 'd2' }, 'k', { ...options, documentId: 'd2' }), IntegrityError)
+    })
+
+    test('reject legacy values with allowLegacy: false', async () => {
+        const legacy: string = encrypt('old', { key: 'k', version: 1 }) as string
+        assert.deepEqual(await decryptObjectAsync({ note: legacy }, 'k'), { note: 'old' })
+        await assert.rejects(decryptObjectAsync({ note: legacy }, 'k', { allowLegacy: false }), MalformedCiphertextError)
+    })
+
+    test('stop when the signal aborts', async () => {
+        const controller: AbortController = new AbortController()
+        controller.abort(new Error('cancelled'))
+        await assert.rejects(encryptObjectAsync({ rows: ROWS }, 'k', { signal: controller.signal }), /cancelled/)
+        await assert.rejects(encryptMany(['a'], { key: 'k', batchSize: 0 }), RangeError)
+    })
+})
+
+describe('encryptMany / decryptMany', () => {
+    test('keep the order of the values', async () => {
+        const values: string[] = ROWS.map((row: Record<string, any>): string => row.email),
+            ciphertexts: unknown[] = await encryptMany(values, { key: 'k', batchSize: 3 })
+        assert.equal(decrypt(ciphertexts[7] as string, { key: 'k' }), values[7])
+        assert.deepEqual(await decryptMany(ciphertexts as string[], { key: 'k', batchSize: 3 }), values)
+    })
+})
+
+describe('createWorkerPool', () => {
+    test('runs batches on worker threads with keyrings and key objects', async () => {
+        const pool: WorkerPool = createWorkerPool({ concurrency: 2 })
+        try {
+            const keyring = createKeyring({ keys: { a: 'first', b: deriveKey('passphrase', { cost: 2 ** 10 }) }, active: 'b' }),
+                values: string[] = ROWS.map((row: Record<string, any>): string => row.email),
+                ciphertexts = await encryptMany(values, { key: keyring, pool, batchSize: 4 }) as string[]
+            assert.deepEqual(await decryptMany(ciphertexts, { key: keyring, pool, batchSize: 4 }), values)
+            const stored: Record<string, any> = await encryptObjectAsync({ rows: ROWS }, keyring, { pool, bind: true })
+            assert.deepEqual(await decryptObjectAsync(stored, keyring, { pool, bind: true }), { rows: ROWS })
+            await assert.rejects(decryptMany(ciphertexts, { key: 'other', pool }), IntegrityError)
+        } finally {
+            await pool.destroy()
+        }
+        await assert.rejects(encryptMany(['a'], { key: 'k', pool }), /destroyed/)
+        assert.throws(() => createWorkerPool({ concurrency: 0 }), RangeError)
+    })
+})
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict'
+import { spawnSync } from 'node:child_process'
+import type { SpawnSyncReturns } from 'node:child_process'
+import { join } from 'node:path'
+import { describe, test } from 'node:test'
+import { decrypt, encrypt } from '../index'
+
+const CLI: string = join(__dirname, '..', 'src', 'cli.js'),
+    KEY: string = 'cli-key'
+
+type Run = { status: number | null, stdout: string, stderr: string }
+
+/**
+ * Runs the compiled CLI with `ZEXSON_KEY` set unless `env` overrides it.
+ */
+const zexson = (args: string[], input: string = '', env: Record<string, string | undefined> = { ZEXSON_KEY: KEY }): Run => {
+    const result: SpawnSyncReturns<string> = spawnSync(process.execPath, [CLI, ...args], { input, encoding: 'utf8', env: { PATH: process.env.PATH, ...env } })
+    return { status: result.status, stdout: result.stdout, stderr: result.stderr }
+}
+
+describe('zexson encrypt / decrypt', () => {
+    test('encrypts stdin without its trailing newline and decrypts it back', () => {
+        const encrypted: Run = zexson(['encrypt'], 'secret value\n')
+        assert.equal(encrypted.status, 0)
+        assert.equal(decrypt(encrypted.stdout.trim(), { key: KEY }), 'secret value')
+        const decrypted: Run = zexson(['decrypt'], encrypted.stdout)
+        assert.equal(decrypted.status, 0)
+        assert.equal(decrypted.stdout, 'secret value\n')
+    })
+
+    test('prints JSON results and honours --key over the environment', () => {
+        const { status, stdout } = zexson(['decrypt', '--json', '--key', 'other'], encrypt('hi', { key: 'other' }) as string)
+        assert.equal(status, 0)
+        assert.deepEqual(JSON.parse(stdout), { value: 'hi' })
+    })
+
+    test('fails with exit code 1 without printing the key', () => {
+        const { status, stderr } = zexson(['decrypt'], encrypt('hi', { key: 'other' }) as string)
+        assert.equal(status, 1)
+        assert.match(stderr, /^zexson: /)
+        assert.doesNotMatch(stderr, new RegExp(KEY))
+    })
+})
+
+describe('zexson encrypt-json / decrypt-json', () => {
+    test('round-trips the selected paths of a document', () => {
+        const document = { id: 7, user: { email: 'a@b.c', name: 'Ann' } },
+            encrypted: Run = zexson(['encrypt-json', '--include', 'user.email'], JSON.stringify(document)),
+            data = JSON.parse(encrypted.stdout)
+        assert.equal(encrypted.status, 0)
+        assert.equal(data.user.name, 'Ann')
+        assert.notEqual(data.user.email, 'a@b.c')
+        assert.deepEqual(JSON.parse(zexson(['decrypt-json', '--include', 'user.email'], encrypted.stdout).stdout), document)
+    })
+
+    test('rejects input that is not JSON', () => {
+        const { status, stderr } = zexson(['encrypt-json'], 'not json')
+        assert.equal(status, 1)
+        assert.match(stderr, /not valid JSON/)
+    })
+})
+
+describe('zexson token / compare', () => {
+    test('generates the requested number and type of tokens', () => {
+        const uuids: string[] = zexson(['token', '--type', 'uuid', '--count', '3']).stdout.trim().split('\n')
+        assert.equal(uuids.length, 3)
+        for (const uuid of uuids) assert.match(uuid, /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/)
+        assert.match(zexson(['token', '--length', '10', '--prefix', 'sk_']).stdout, /^sk_.{10}\n$/)
+    })
+
+    test('exits 0 for equal values and 1 otherwise', () => {
+        assert.equal(zexson(['compare', encrypt('same', { key: KEY }) as string, 'same']).status, 0)
+        assert.equal(zexson(['compare', 'same', 'other']).status, 1)
+        assert.equal(zexson(['compare', 'Same', '-', '--ignore-case'], 'same\n').status, 0)
+    })
+})
+
+describe('zexson usage errors', () => {
+    test('exit with code 2', () => {
+        for (const args of [['unknown'], ['toString'], ['constructor'], ['token', '--nope'], ['token', '--count', 'x'], ['compare', 'a'], []])
+            assert.equal(zexson(args).status, 2, args.join(' '))
+        assert.match(zexson(['encrypt'], 'x', {}).stderr, /No key given/)
+        assert.equal(zexson(['--help']).status, 0)
+    })
+})
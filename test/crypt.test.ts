@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { decrypt, decryptObject, encrypt, encryptObject, isEqual } from '../index'
+
+// Ciphertexts of "hello" under "test-key" in the first v2 envelope format (no salt)
+const GCM_VECTOR: string = 'WlgCABF7ImFsZyI6IkEyNTZHQ00ifWid0EqXu9zoZCy0p-sYr6mNvw5xR7KTHDvzH-Jg8MwtFQ',
+    C20P_VECTOR: string = 'WlgCAA57ImFsZyI6IkMyMFAifTdDOyvVhuAk3AMnTo5IwNhve14rvWnAO4t-7MLi1bzuuw',
+    // "legacy" under "test-key" in the legacy (v1) character shifting format
+    LEGACY_VECTOR: string = 'WkPZVVJ6V4RiOZNDbYQPRIfy]kOp\\4tGf6F0ZZgzQkD6fzeFdKs6SZZYWmUVR3y}h2:uQqVCRW4='
+
+const flipByte = (ciphertext: string, index: number): string => {
+    const bytes: Buffer = Buffer.from(ciphertext, 'base64url')
+    bytes[index] ^= 0x01
+    return bytes.toString('base64url')
+}
+
+describe('encrypt', () => {
+    test('round-trips strings with the default and a custom key', () => {
+        assert.equal(decrypt(encrypt('hello') as string), 'hello')
+        assert.equal(decrypt(encrypt('héllo wörld', { key: 'k' }) as string, { key: 'k' }), 'héllo wörld')
+    })
+
+    test('round-trips nested objects', () => {
+        const data = { username: 'JohnDoe', about: { age: '12' }, hobbies: ['football'] }
+        assert.deepEqual(decryptObject(encryptObject(data, 'k'), 'k'), data)
+    })
+
+    test('compares a ciphertext with its plaintext', () => {
+        assert.equal(isEqual(encrypt('same', { key: 'k' }) as string, 'same', { key: 'k' }).isEqual, true)
+        assert.equal(isEqual('same', 'other', { key: 'k' }).isEqual, false)
+    })
+})
+
+describe('envelope', () => {
+    test('decrypts the format vectors', () => {
+        assert.equal(decrypt(GCM_VECTOR, { key: 'test-key' }), 'hello')
+        assert.equal(decrypt(C20P_VECTOR, { key: 'test-key' }), 'hello')
+    })
+
+    test('round-trips with both algorithms', () => {
+        for (const algorithm of ['aes-256-gcm', 'chacha20-poly1305'] as const)
+            assert.equal(decrypt(encrypt('héllo wörld', { key: 'k', algorithm }) as string, { key: 'k' }), 'héllo wörld')
+    })
+
+    test('uses a fresh nonce for every ciphertext', () => {
+        assert.notEqual(encrypt('same', { key: 'k' }), encrypt('same', { key: 'k' }))
+    })
+
+    test('rejects a wrong key and any modified byte', () => {
+        assert.throws(() => decrypt(GCM_VECTOR, { key: 'other-key' }), /Authentication failed/)
+        const length: number = Buffer.from(GCM_VECTOR, 'base64url').length
+        for (const index of [length - 20, length - 1])
+            assert.throws(() => decrypt(flipByte(GCM_VECTOR, index), { key: 'test-key' }), /Authentication failed/)
+    })
+
+    test('rejects unknown versions', () => {
+        const bytes: Buffer = Buffer.from(GCM_VECTOR, 'base64url')
+        bytes[2] = 3
+        assert.throws(() => decrypt(bytes.toString('base64url'), { key: 'test-key' }), /version/)
+    })
+})
+
+describe('legacy (v1) format', () => {
+    test('still decrypts', () => {
+        assert.equal(decrypt(LEGACY_VECTOR, { key: 'test-key' }), 'legacy')
+    })
+
+    test('is refused with allowLegacy: false', () => {
+        assert.throws(() => decrypt(LEGACY_VECTOR, { key: 'test-key', allowLegacy: false }), /legacy \(v1\) decoding is disabled/)
+        assert.equal(decrypt(GCM_VECTOR, { key: 'test-key', allowLegacy: false }), 'hello')
+    })
+
+    test('round-trips with version 1', () => {
+        assert.equal(decrypt(encrypt('old format', { key: 'k', version: 1 }) as string, { key: 'k' }), 'old format')
+    })
+})
+
+describe('binary payloads and encodings', () => {
+    test('round-trips bytes exactly', () => {
+        const bytes: Buffer = Buffer.from([0, 255, 10, 13, 0x80, 0x7f])
+        const encrypted = encrypt(bytes, { key: 'k', encoding: 'buffer' }) as Buffer
+        assert.equal(Buffer.isBuffer(encrypted), true)
+        assert.deepEqual(decrypt(encrypted, { key: 'k', encoding: 'buffer' }), bytes)
+    })
+
+    test('decrypts every output encoding', () => {
+        for (const encoding of ['base64url', 'base64', 'hex'] as const)
+            assert.equal(decrypt(encrypt('  hello 👋  ', { key: 'k', encoding }) as string, { key: 'k' }), '  hello 👋  ')
+        assert.match(encrypt('hello', { key: 'k', encoding: 'hex' }) as string, /^[0-9a-f]+$/)
+    })
+
+    test('rejects raw bytes without an envelope', () => {
+        assert.throws(() => decrypt(Buffer.from('not a ciphertext'), { key: 'k' }), /missing envelope header/)
+    })
+})
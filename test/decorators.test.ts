@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { decryptInstance, encryptInstance, Field, fromPlain, getFieldMetadata, toPlain, validate, ValidationError } from '../index'
+
+class Address {
+    @Field()
+    city: string = ''
+}
+
+class UserDTO {
+    @Field()
+    username: string = ''
+
+    @Field({ encrypted: true, sensitive: true })
+    email: string = ''
+
+    @Field({ encrypted: true })
+    age: number = 0
+
+    @Field({ type: 'date', name: 'created_at' })
+    createdAt: Date = new Date(0)
+
+    @Field()
+    address: Address = new Address()
+
+    greet(): string {
+        return `hi ${this.username}`
+    }
+}
+
+const user = (): UserDTO => Object.assign(new UserDTO(), { username: 'john', email: 'john@example.com', age: 42, address: Object.assign(new Address(), { city: 'Baku' }) })
+
+describe('getFieldMetadata', () => {
+    test('reports declared types and options', () => {
+        const meta = getFieldMetadata(new UserDTO())
+        assert.deepEqual(meta.map(({ field, type, name, encrypted, sensitive }) => [field, type, name, encrypted, sensitive]), [
+            ['username', 'string', 'username', false, false],
+            ['email', 'string', 'email', true, true],
+            ['age', 'number', 'age', true, false],
+            ['createdAt', 'date', 'created_at', false, false],
+            ['address', 'object', 'address', false, false],
+        ])
+    })
+})
+
+describe('encryptInstance', () => {
+    test('encrypts the marked fields only and keeps the class', () => {
+        const stored: UserDTO = encryptInstance(user(), 'k')
+        assert.ok(stored instanceof UserDTO)
+        assert.equal(stored.username, 'john')
+        assert.notEqual(stored.email, 'john@example.com')
+        assert.equal(typeof stored.age, 'string')
+        const restored: UserDTO = decryptInstance(stored, 'k')
+        assert.equal(restored.email, 'john@example.com')
+        assert.equal(restored.age, 42)
+        assert.equal(restored.greet(), 'hi john')
+    })
+
+    test('throws for a wrong key', () => {
+        assert.throws(() => decryptInstance(encryptInstance(user(), 'k'), 'other'), /Authentication failed/)
+    })
+})
+
+describe('toPlain', () => {
+    test('serializes by the declared fields and leaves sensitive ones out', () => {
+        assert.deepEqual(toPlain(user()), { username: 'john', age: 42, created_at: '1970-01-01T00:00:00.000Z', address: { city: 'Baku' } })
+        assert.equal(toPlain(user(), { includeSensitive: true }).email, 'john@example.com')
+    })
+
+    test('writes null for invalid dates', () => {
+        assert.equal(toPlain(Object.assign(new UserDTO(), { createdAt: new Date(NaN) })).created_at, null)
+    })
+})
+
+class CityDTO {
+    @Field() city: string = ''
+}
+
+class ProfileDTO {
+    @Field() name: string = 'anonymous'
+    @Field() age: number = 0
+    @Field() admin: boolean = false
+    @Field({ name: 'created_at' }) createdAt: Date = new Date(0)
+    @Field(() => CityDTO) address: CityDTO = new CityDTO()
+    @Field(() => CityDTO) addresses: CityDTO[] = []
+    @Field(() => Number) scores: number[] = []
+}
+
+describe('fromPlain', () => {
+    test('coerces values and creates nested DTOs', () => {
+        const dto: ProfileDTO = fromPlain(ProfileDTO, {
+            age: '30', admin: 'on', created_at: '2025-01-01T00:00:00.000Z',
+            address: { city: 'Baku' }, addresses: [{ city: 'Ganja' }], scores: ['1', '2.5'],
+        })
+        assert.ok(dto instanceof ProfileDTO)
+        assert.equal(dto.name, 'anonymous')
+        assert.equal(dto.age, 30)
+        assert.equal(dto.admin, true)
+        assert.deepEqual(dto.createdAt, new Date('2025-01-01T00:00:00.000Z'))
+        assert.ok(dto.address instanceof CityDTO)
+        assert.ok(dto.addresses[0] instanceof CityDTO)
+        assert.equal(dto.addresses[0].city, 'Ganja')
+        assert.deepEqual(dto.scores, [1, 2.5])
+    })
+
+    test('keeps values that cannot be coerced for validate to report', () => {
+        const dto: ProfileDTO = fromPlain(ProfileDTO, { age: 'thirty', scores: ['x'] })
+        assert.deepEqual(validate(dto).errors.map(({ path, rule }) => [path, rule]), [['age', 'type'], ['scores[0]', 'type']])
+    })
+
+    test('drops unknown properties, or rejects them in strict mode', () => {
+        assert.equal((fromPlain(ProfileDTO, { isAdmin: true }) as unknown as Record<string, unknown>).isAdmin, undefined)
+        assert.throws(() => fromPlain(ProfileDTO, { isAdmin: true, address: { zip: '1' } }, { strict: true }), (err: unknown): boolean => {
+            assert.ok(err instanceof ValidationError)
+            assert.deepEqual(err.errors.map(({ path, rule }) => [path, rule]), [['isAdmin', 'unknown'], ['address.zip', 'unknown']])
+            return true
+        })
+    })
+
+    test('rejects input that is not an object', () => {
+        assert.throws(() => fromPlain(ProfileDTO, 'name=john'), ValidationError)
+        assert.throws(() => fromPlain(ProfileDTO, [{ name: 'john' }]), /Expected an object for ProfileDTO/)
+    })
+})
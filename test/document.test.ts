@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { decrypt, decryptDocument, decryptObject, encrypt, encryptDocument, encryptObject, inspectCiphertext, IntegrityError, MalformedCiphertextError } from '../index'
+import * as web from '../src/web'
+
+const REPORT: string = JSON.stringify({ rows: Array.from({ length: 200 }, (_: unknown, i: number) => ({ id: i, status: 'active', region: 'eu-west' })) })
+
+describe('compression', () => {
+    test('shrinks large payloads and inflates them transparently', () => {
+        const plain: string = encrypt(REPORT, { key: 'k' }) as string
+        for (const compress of ['deflate', 'brotli', 'auto'] as const) {
+            const stored: string = encrypt(REPORT, { key: 'k', compress }) as string
+            assert.ok(stored.length < plain.length / 4, compress)
+            assert.equal(decrypt(stored, { key: 'k' }), REPORT)
+        }
+        assert.equal(inspectCiphertext(encrypt(REPORT, { key: 'k', compress: 'brotli' }) as string).compression, 'brotli')
+    })
+
+    test('keeps small values and values of encryptObject below the threshold uncompressed', () => {
+        assert.equal(inspectCiphertext(encrypt('short', { key: 'k', compress: 'auto' }) as string).compression, undefined)
+        const stored: Record<string, any> = encryptObject({ title: 'Hi', body: REPORT }, 'k', { compress: 'deflate', compressThreshold: 100 })
+        assert.equal(inspectCiphertext(stored.title).compression, undefined)
+        assert.equal(inspectCiphertext(stored.body).compression, 'deflate')
+        assert.deepEqual(decryptObject(stored, 'k'), { title: 'Hi', body: REPORT })
+    })
+
+    test('is refused by the web build', async () => {
+        await assert.rejects(web.decrypt(encrypt(REPORT, { key: 'k', compress: 'deflate' }) as string, { key: 'k' }), /Node build/)
+    })
+})
+
+describe('encryptDocument', () => {
+    test('round-trips value types in one ciphertext', () => {
+        const document = { id: 7, big: 10n ** 20n, when: new Date(0), bytes: Buffer.from([1, 2]), nan: NaN, zero: -0, $zx: 'literal', tags: ['a', undefined], skip: undefined }
+        assert.deepEqual(decryptDocument(encryptDocument(document, 'k', { compress: 'auto' }), 'k'),
+            { id: 7, big: 10n ** 20n, when: new Date(0), bytes: Buffer.from([1, 2]), nan: NaN, zero: -0, $zx: 'literal', tags: ['a', null] })
+    })
+
+    test('binds documents to their ID and rejects other ciphertexts', () => {
+        const stored: string = encryptDocument({ a: 1 }, 'k', { documentId: 'doc-1' }) as string
+        assert.deepEqual(decryptDocument(stored, 'k', { documentId: 'doc-1' }), { a: 1 })
+        assert.throws(() => decryptDocument(stored, 'k', { documentId: 'doc-2' }), IntegrityError)
+        assert.throws(() => decryptDocument(stored, 'k'), IntegrityError)
+        assert.throws(() => decryptDocument(encrypt('text', { key: 'k' }) as string, 'k'), MalformedCiphertextError)
+    })
+
+    test('keeps __proto__ keys as own properties', () => {
+        const document: Record<string, any> = JSON.parse('{ "__proto__": { "isAdmin": true }, "nested": { "__proto__": { "polluted": 1 } } }'),
+            restored: Record<string, any> = decryptDocument(encryptDocument(document, 'k'), 'k')
+        assert.equal(Object.getPrototypeOf(restored), Object.prototype)
+        assert.equal(restored.isAdmin, undefined)
+        assert.deepEqual(Object.getOwnPropertyDescriptor(restored, '__proto__')?.value, { isAdmin: true })
+        assert.equal(restored.nested.polluted, undefined)
+        assert.equal(({} as Record<string, any>).polluted, undefined)
+    })
+})
@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict'
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { describe, test } from 'node:test'
+import { encryptEnvFile, EnvDecryptionError, loadEncryptedEnv } from '../index'
+
+const KEY: string = 'config-key'
+
+/**
+ * Writes `content` to a new temporary file and returns its path.
+ */
+const tempFile = (name: string, content: string): string => {
+    const path: string = join(mkdtempSync(join(tmpdir(), 'zexson-env-')), name)
+    writeFileSync(path, content)
+    return path
+}
+
+const ENV_FILE: string = [
+    '# database',
+    'NODE_ENV=production',
+    'export DB_PASSWORD=hunter2 # rotate yearly',
+    "API_TOKEN='a b#c'",
+    'EMPTY=',
+    '',
+].join('\n')
+
+describe('encryptEnvFile', () => {
+    test('encrypts the selected values and keeps comments and formatting', () => {
+        const path: string = tempFile('.env', ENV_FILE)
+        assert.deepEqual(encryptEnvFile(path, KEY, { exclude: ['NODE_ENV'] }), ['DB_PASSWORD', 'API_TOKEN'])
+        const lines: string[] = readFileSync(path, 'utf8').split('\n')
+        assert.equal(lines[0], '# database')
+        assert.equal(lines[1], 'NODE_ENV=production')
+        assert.match(lines[2], /^export DB_PASSWORD=ENC\[[\w-]+\] # rotate yearly$/)
+        assert.match(lines[3], /^API_TOKEN=ENC\[[\w-]+\]$/)
+        assert.equal(lines[4], 'EMPTY=')
+    })
+
+    test('leaves encrypted values alone and only encrypts new ones', () => {
+        const path: string = tempFile('.env', ENV_FILE)
+        encryptEnvFile(path, KEY)
+        const first: string = readFileSync(path, 'utf8')
+        assert.deepEqual(encryptEnvFile(path, KEY), [])
+        writeFileSync(path, `${first}NEW_SECRET=s3cret\n`)
+        assert.deepEqual(encryptEnvFile(path, KEY), ['NEW_SECRET'])
+        assert.ok(readFileSync(path, 'utf8').startsWith(first))
+    })
+})
+
+describe('loadEncryptedEnv', () => {
+    test('decrypts .env values into the target without replacing set variables', () => {
+        const path: string = tempFile('.env', ENV_FILE)
+        encryptEnvFile(path, KEY, { bind: true })
+        const target: Record<string, string | undefined> = { NODE_ENV: 'test' }
+        assert.deepEqual(loadEncryptedEnv(path, KEY, { bind: true, target }),
+            { NODE_ENV: 'production', DB_PASSWORD: 'hunter2', API_TOKEN: 'a b#c', EMPTY: '' })
+        assert.equal(target.NODE_ENV, 'test')
+        assert.equal(target.DB_PASSWORD, 'hunter2')
+    })
+
+    test('restores JSON value types', () => {
+        const config = { db: { host: 'localhost', password: 'hunter2', port: 5432, ssl: true }, replicas: ['a', 'b'] },
+            path: string = tempFile('config.json', JSON.stringify(config, null, 4))
+        assert.deepEqual(encryptEnvFile(path, KEY, { exclude: ['db.host'] }), ['db.password', 'db.port', 'db.ssl', 'replicas[0]', 'replicas[1]'])
+        assert.equal(JSON.parse(readFileSync(path, 'utf8')).db.host, 'localhost')
+        assert.deepEqual(loadEncryptedEnv(path, KEY), config)
+    })
+
+    test('lists every value that fails to decrypt and assigns nothing', () => {
+        const path: string = tempFile('.env', 'A=one\nB=two\nC=three\n')
+        encryptEnvFile(path, KEY, { bind: true })
+        const lines: string[] = readFileSync(path, 'utf8').split('\n'),
+            at: number = lines[0].length - 3,
+            tampered: string = lines[0].slice(0, at) + (lines[0][at] === 'A' ? 'B' : 'A') + lines[0].slice(at + 1),
+            swapped: string = `B=${lines[2].slice(2)}`
+        writeFileSync(path, [tampered, swapped, lines[2], ''].join('\n'))
+        const target: Record<string, string | undefined> = {}
+        assert.throws(() => loadEncryptedEnv(path, KEY, { bind: true, target }), (err: unknown): boolean =>
+            err instanceof EnvDecryptionError && err.code === 'ERR_ENV_DECRYPT' && err.keys.join() === 'A,B')
+        assert.deepEqual(target, {})
+        assert.throws(() => loadEncryptedEnv(path, 'other-key', { target }), EnvDecryptionError)
+    })
+
+    test('rejects multi-line quoted values instead of splitting them', () => {
+        const path: string = tempFile('.env', 'A=one\nCERT="-----BEGIN-----\nMIIB\n-----END-----"\n')
+        for (const run of [(): unknown => encryptEnvFile(path, KEY), (): unknown => loadEncryptedEnv(path, KEY, { target: false })])
+            assert.throws(run, /Unterminated quoted value for CERT on line 2/)
+        assert.equal(readFileSync(path, 'utf8'), 'A=one\nCERT="-----BEGIN-----\nMIIB\n-----END-----"\n')
+        writeFileSync(path, 'CERT="-----BEGIN-----\\nMIIB\\n-----END-----"\n')
+        encryptEnvFile(path, KEY)
+        assert.deepEqual(loadEncryptedEnv(path, KEY, { target: false }), { CERT: '-----BEGIN-----\nMIIB\n-----END-----' })
+    })
+})
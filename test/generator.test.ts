@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { entropyBits, nanoid, tokenGenerator, ulid, uuidv4, uuidv7 } from '../index'
+
+describe('tokenGenerator', () => {
+    test('draws from the character set without a leading zero', () => {
+        for (let i: number = 0; i < 50; i++) assert.match(tokenGenerator(6, 'set1'), /^[1-9][0-9]{5}$/)
+        assert.match(tokenGenerator(32), /^[A-Za-z0-9]{32}$/)
+    })
+
+    test('supports custom alphabets, prefixes and excluding ambiguous characters', () => {
+        assert.match(tokenGenerator(24, { alphabet: 'abcdef0123456789', prefix: 'sk_' }), /^sk_[a-f1-9][a-f0-9]{23}$/)
+        assert.doesNotMatch(tokenGenerator(500, { excludeAmbiguous: true }), /[0O1Il]/)
+    })
+
+    test('rejects invalid lengths and single character alphabets', () => {
+        assert.throws(() => tokenGenerator(-1), /non-negative integer/)
+        assert.throws(() => tokenGenerator(4, { alphabet: 'aaaa' }), /at least two distinct characters/)
+    })
+})
+
+describe('entropyBits', () => {
+    test('reports the entropy of the alphabet', () => {
+        assert.deepEqual(entropyBits(21, { alphabet: 'abcdef0123456789', noLeadingZero: false }), { length: 21, alphabetSize: 16, bits: 84 })
+        assert.equal(entropyBits(0).bits, 0)
+    })
+})
+
+describe('ID generators', () => {
+    test('generate UUIDs of version 4 and 7', () => {
+        assert.match(uuidv4(), /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/)
+        assert.match(uuidv7(), /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/)
+    })
+
+    test('generate time-ordered ULIDs and nanoids', async () => {
+        const first: string = ulid()
+        await new Promise((resolve): void => { setTimeout(resolve, 2) })
+        assert.match(first, /^[0-9A-HJKMNP-TV-Z]{26}$/)
+        assert.ok(first.slice(0, 10) < ulid().slice(0, 10))
+        assert.match(nanoid(), /^[A-Za-z0-9_-]{21}$/)
+        assert.equal(nanoid(8, 'ab').length, 8)
+    })
+})
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { createKeyring, createMockKms, decrypt, decryptObject, encrypt, encryptObject, encryptWithProvider, inspectCiphertext, IntegrityError, InvalidKeyError, MalformedCiphertextError, UnsupportedVersionError, ZexsonError } from '../index'
+
+/**
+ * Sets the version byte of a Base64url envelope.
+ */
+const withVersion = (ciphertext: string, version: number): string => {
+    const bytes: Buffer = Buffer.from(ciphertext, 'base64url')
+    bytes[2] = version
+    return bytes.toString('base64url')
+}
+
+describe('inspectCiphertext', () => {
+    test('reads envelope headers in every encoding without a key', () => {
+        const keyring = createKeyring({ keys: { '2024': 'key-2024' }, active: '2024' }),
+            info = inspectCiphertext(encrypt('hello world', { key: keyring, algorithm: 'chacha20-poly1305' }) as string)
+        assert.deepEqual({ ...info, length: 0 }, { format: 'envelope', version: 2, supported: true, algorithm: 'chacha20-poly1305', keyId: '2024', bound: false, length: 0, plaintextLength: 11 })
+        for (const encoding of ['base64', 'hex', 'buffer'] as const)
+            assert.equal(inspectCiphertext(encrypt('hello', { key: 'k', encoding }) as string | Buffer).plaintextLength, 5)
+    })
+
+    test('reports value types and binding of object fields', () => {
+        const stored: Record<string, any> = encryptObject({ age: 42 }, 'k', { bind: true })
+        assert.equal(inspectCiphertext(stored.age).valueType, 'n')
+        assert.equal(inspectCiphertext(stored.age).bound, true)
+    })
+
+    test('reads the master key ID of key provider ciphertexts', async () => {
+        const info = inspectCiphertext(await encryptWithProvider('hello', createMockKms()) as string)
+        assert.equal(info.format, 'provider')
+        assert.equal(info.keyId, 'mock-1')
+        assert.equal(info.plaintextLength, 5)
+    })
+
+    test('reports legacy strings, unknown bytes and newer versions', () => {
+        assert.equal(inspectCiphertext(encrypt('hello', { key: 'k', version: 1 }) as string).format, 'legacy')
+        assert.deepEqual(inspectCiphertext(Buffer.from('plain bytes')), { format: 'unknown', supported: false, length: 11 })
+        const newer = inspectCiphertext(withVersion(encrypt('hello', { key: 'k' }) as string, 3))
+        assert.equal(newer.supported, false)
+        assert.equal(newer.version, 3)
+    })
+
+    test('throws for truncated headers and non-ciphertext types', () => {
+        const bytes: Buffer = encrypt('hello', { key: 'k', encoding: 'buffer' }) as Buffer
+        assert.throws(() => inspectCiphertext(bytes.subarray(0, 8)), MalformedCiphertextError)
+        assert.throws(() => inspectCiphertext(42 as unknown as string), TypeError)
+    })
+})
+
+describe('typed errors', () => {
+    const stored: string = encrypt('hello', { key: 'k' }) as string
+
+    test('tell a wrong key or tampering from malformed input', () => {
+        assert.throws(() => decrypt(stored, { key: 'other' }), (err: unknown): boolean =>
+            err instanceof IntegrityError && err instanceof ZexsonError && err.code === 'ERR_INTEGRITY')
+        assert.throws(() => decrypt(Buffer.from('not a ciphertext'), { key: 'k' }), (err: unknown): boolean =>
+            err instanceof MalformedCiphertextError && err.code === 'ERR_MALFORMED_CIPHERTEXT')
+        assert.throws(() => decrypt('Y2lwaGVy', { key: 'k', allowLegacy: false }), MalformedCiphertextError)
+        assert.throws(() => decryptObject({ a: encryptObject({ a: 'x' }, 'k').a }, 'other'), IntegrityError)
+    })
+
+    test('name newer format versions and unusable keys', () => {
+        assert.throws(() => decrypt(withVersion(stored, 3), { key: 'k' }), (err: unknown): boolean =>
+            err instanceof UnsupportedVersionError && err.version === 3 && err.code === 'ERR_UNSUPPORTED_VERSION')
+        assert.throws(() => decrypt(encrypt('hello', { key: createKeyring({ keys: { a: 'key-a' }, active: 'a' }) }) as string, { key: createKeyring({ keys: { b: 'key-b' }, active: 'b' }) }),
+            (err: unknown): boolean => err instanceof InvalidKeyError && err.code === 'ERR_INVALID_KEY')
+        assert.throws(() => decrypt(null as unknown as string), TypeError)
+    })
+})
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { createKeyring, decrypt, decryptObject, encrypt, encryptObject, reencrypt, rotateObject } from '../index'
+
+describe('createKeyring', () => {
+    test('decrypts old ciphertexts after a rotation', () => {
+        const keyring = createKeyring({ keys: { old: 'old-key' }, active: 'old' }),
+            stored = encrypt('hello', { key: keyring }) as string
+        keyring.add('new', 'new-key', { active: true })
+        assert.equal(keyring.activeKeyId, 'new')
+        assert.equal(decrypt(stored, { key: keyring }), 'hello')
+        assert.equal(decrypt(encrypt('hello', { key: keyring }) as string, { key: 'new-key' }), 'hello')
+    })
+
+    test('uses the legacy key ID for ciphertexts without a key ID', () => {
+        const keyring = createKeyring({ keys: { old: 'old-key', new: 'new-key' }, active: 'new', legacyKeyId: 'old' })
+        assert.equal(decrypt(encrypt('hello', { key: 'old-key' }) as string, { key: keyring }), 'hello')
+    })
+
+    test('rejects unknown key IDs and removing the active key', () => {
+        const keyring = createKeyring({ keys: { a: 'key-a' }, active: 'a' }),
+            other = createKeyring({ keys: { b: 'key-b' }, active: 'b' })
+        assert.throws(() => decrypt(encrypt('hello', { key: other }) as string, { key: keyring }), /Unknown key ID "b"/)
+        assert.throws(() => keyring.remove('a'), /Cannot remove the active key/)
+        assert.throws(() => createKeyring({ keys: { a: 'key-a' }, active: 'b' }), /not in the keyring/)
+    })
+})
+
+describe('rotation', () => {
+    test('reencrypts strings and objects under the active key', () => {
+        const keyring = createKeyring({ keys: { old: 'old-key' }, active: 'old' }),
+            stored = encrypt('hello', { key: keyring }) as string,
+            document = encryptObject({ name: 'Jane', tags: ['a'] }, keyring)
+        keyring.add('new', 'new-key', { active: true }).remove('old')
+        assert.throws(() => decrypt(stored, { key: keyring }), /Unknown key ID "old"/)
+        keyring.add('old', 'old-key')
+        const upgraded: string = reencrypt(stored, keyring),
+            upgradedDocument = rotateObject(document, keyring)
+        keyring.remove('old')
+        assert.equal(decrypt(upgraded, { key: keyring }), 'hello')
+        assert.deepEqual(decryptObject(upgradedDocument, keyring), { name: 'Jane', tags: ['a'] })
+    })
+})
@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict'
+import { randomBytes } from 'node:crypto'
+import { describe, test } from 'node:test'
+import { decrypt, deriveKey, encrypt, importKey, isZexsonKey, setStrictMode } from '../index'
+
+describe('deriveKey', () => {
+    test('round-trips with scrypt and PBKDF2 keys', () => {
+        for (const key of [deriveKey('passphrase', { cost: 2 ** 10 }), deriveKey('passphrase', { kdf: 'pbkdf2', iterations: 1000 })]) {
+            assert.equal(isZexsonKey(key), true)
+            assert.equal(decrypt(encrypt('héllo', { key }) as string, { key }), 'héllo')
+        }
+    })
+
+    test('re-derives the key from the passphrase and the header parameters', () => {
+        const encrypted = encrypt('hello', { key: deriveKey('passphrase', { cost: 2 ** 10 }) }) as string
+        assert.equal(decrypt(encrypted, { key: 'passphrase' }), 'hello')
+        assert.throws(() => decrypt(encrypted, { key: 'other passphrase' }), /Authentication failed/)
+    })
+
+    test('re-derives passphrase strings only up to the default cost', () => {
+        const key = deriveKey('passphrase', { kdf: 'pbkdf2', iterations: 600001 }),
+            encrypted = encrypt('hello', { key }) as string
+        assert.throws(() => decrypt(encrypted, { key: 'passphrase' }), /above the default cost/)
+        assert.equal(decrypt(encrypted, { key }), 'hello')
+    })
+
+    test('refuses a key derived with other parameters', () => {
+        const encrypted = encrypt('hello', { key: deriveKey('passphrase', { cost: 2 ** 10 }) }) as string
+        assert.throws(() => decrypt(encrypted, { key: deriveKey('passphrase', { cost: 2 ** 10 }) }), /do not match/)
+    })
+
+    test('rejects an empty passphrase', () => {
+        assert.throws(() => deriveKey(''), /non-empty passphrase/)
+    })
+})
+
+describe('importKey', () => {
+    test('accepts 32 raw bytes and their hex encoding', () => {
+        const raw: Buffer = randomBytes(32),
+            encrypted = encrypt('hello', { key: importKey(raw) }) as string
+        assert.equal(decrypt(encrypted, { key: importKey(raw.toString('hex')) }), 'hello')
+    })
+
+    test('rejects material of the wrong length', () => {
+        assert.throws(() => importKey(randomBytes(16)), /exactly 32 bytes/)
+    })
+})
+
+describe('strict mode', () => {
+    test('refuses the built-in default key', () => {
+        setStrictMode(true)
+        try {
+            assert.throws(() => encrypt('hello'), /Strict mode/)
+            assert.equal(decrypt(encrypt('hello', { key: 'k' }) as string, { key: 'k' }), 'hello')
+        } finally {
+            setStrictMode(false)
+        }
+    })
+})
@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict'
+import { createServer, request } from 'node:http'
+import type { Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { describe, test } from 'node:test'
+import { createDtoMiddleware, decryptObject, encrypt, encryptResponse, Field, IsEmail, MinLength, Required, sendEncrypted } from '../index'
+import type { DtoMiddleware, DtoRequest } from '../index'
+
+class UserDTO {
+    @Required() @MinLength(3) @Field() username: string = ''
+    @IsEmail() @Field({ encrypted: true }) email: string = ''
+    @Field({ sensitive: true }) note: string = ''
+}
+
+const KEY: string = 'middleware-key'
+
+type Reply = { status: number, json: Record<string, any> }
+
+/**
+ * Serves the middleware on a random port for the duration of `run`.
+ */
+const withServer = async (middleware: DtoMiddleware, run: (post: (body: string) => Promise<Reply>, url: string) => Promise<void>): Promise<void> => {
+    const server: Server = createServer((req: DtoRequest, res) => middleware(req, res, (err?: unknown) => {
+        if (err) return void res.writeHead(500).end()
+        assert.ok(req.body instanceof UserDTO)
+        sendEncrypted(res, req.body, KEY, { status: 201 })
+    }))
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    const url: string = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`
+    try {
+        await run(async (body: string): Promise<Reply> => {
+            const response: Response = await fetch(url, { method: 'POST', body, headers: { 'Content-Type': 'application/json' } })
+            return { status: response.status, json: await response.json() as Record<string, any> }
+        }, url)
+    } finally {
+        await new Promise<void>((resolve) => server.close(() => resolve()))
+    }
+}
+
+/**
+ * Streams a request body in chunks with `node:http`, resolving with the response even if the
+ * server closes the connection before the body is sent.
+ */
+const postChunks = (url: string, chunks: string[], headers: Record<string, string | number> = {}): Promise<Reply> =>
+    new Promise((resolve, reject): void => {
+        const req = request(url, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers } }, (res) => {
+            let text: string = ''
+            res.setEncoding('utf8')
+            res.on('data', (chunk: string) => { text += chunk })
+            res.on('end', () => resolve({ status: res.statusCode as number, json: JSON.parse(text) }))
+        })
+        req.on('error', (err: NodeJS.ErrnoException) => {
+            if (err.code !== 'ECONNRESET' && err.code !== 'EPIPE') reject(err)
+        })
+        for (const chunk of chunks) req.write(chunk)
+        req.end()
+    })
+
+describe('createDtoMiddleware', () => {
+    test('decrypts, hydrates and validates the body', () => withServer(createDtoMiddleware(UserDTO, KEY), async (post) => {
+        const { status, json } = await post(JSON.stringify({ username: 'john', email: encrypt('john@example.com', { key: KEY }), note: 'hi' }))
+        assert.equal(status, 201)
+        assert.equal(json.username, 'john')
+        assert.deepEqual(decryptObject(json, KEY, { include: ['email', 'note'] }), { username: 'john', email: 'john@example.com', note: 'hi' })
+    }))
+
+    test('responds 400 with the validation errors', () => withServer(createDtoMiddleware(UserDTO, KEY), async (post) => {
+        const { status, json } = await post(JSON.stringify({ username: 'jo', email: encrypt('not an email', { key: KEY }) }))
+        assert.equal(status, 400)
+        assert.deepEqual(json.errors.map(({ path, rule }: { path: string, rule: string }) => [path, rule]), [['username', 'minLength'], ['email', 'email']])
+    }))
+
+    test('responds 400 for malformed JSON and undecryptable fields', () => withServer(createDtoMiddleware(UserDTO, KEY), async (post) => {
+        assert.equal((await post('{"username":')).json.errors[0].rule, 'json')
+        assert.equal((await post(JSON.stringify({ username: 'john', email: encrypt('john@example.com', { key: 'other' }) }))).json.errors[0].rule, 'decrypt')
+        assert.equal((await post('[]')).json.errors[0].rule, 'type')
+    }))
+
+    test('rejects legacy (v1) values in encrypted fields', () => withServer(createDtoMiddleware(UserDTO, KEY), async (post) => {
+        const { status, json } = await post(JSON.stringify({ username: 'john', email: encrypt('john@example.com', { key: KEY, version: 1 }) }))
+        assert.equal(status, 400)
+        assert.equal(json.errors[0].rule, 'decrypt')
+    }))
+
+    test('rejects non-string values in encrypted fields', () => withServer(createDtoMiddleware(UserDTO, KEY), async (post) => {
+        for (const email of [42, true, null, { address: 42 }]) {
+            const { status, json } = await post(JSON.stringify({ username: 'john', email }))
+            assert.equal(status, 400)
+            assert.equal(json.errors[0].rule, 'decrypt')
+            assert.match(json.errors[0].path, /^email/)
+        }
+    }))
+})
+
+describe('request body limit', () => {
+    const middleware: DtoMiddleware = createDtoMiddleware(UserDTO, KEY, { limit: 64 })
+
+    test('responds 413 for an announced Content-Length over the limit', () => withServer(middleware, async (_post, url) => {
+        const { status, json } = await postChunks(url, ['{"username":"john"}'], { 'Content-Length': 1000 })
+        assert.equal(status, 413)
+        assert.deepEqual(json.errors, [{ path: '', rule: 'size', message: 'Request body exceeds 64 bytes' }])
+    }))
+
+    test('responds 413 once a streamed body exceeds the limit', () => withServer(middleware, async (_post, url) => {
+        const { status } = await postChunks(url, ['{"username":"', 'x'.repeat(100), '"}'], { 'Transfer-Encoding': 'chunked' })
+        assert.equal(status, 413)
+    }))
+
+    test('accepts bodies within the limit', () => withServer(middleware, async (post) => {
+        assert.equal((await post(JSON.stringify({ username: 'john' }))).status, 201)
+    }))
+})
+
+describe('encryptResponse', () => {
+    test('encrypts encrypted and sensitive fields', () => {
+        const body: Record<string, any> = encryptResponse(Object.assign(new UserDTO(), { username: 'john', email: 'john@example.com', note: 'hi' }), KEY)
+        assert.equal(body.username, 'john')
+        assert.notEqual(body.email, 'john@example.com')
+        assert.notEqual(body.note, 'hi')
+    })
+})
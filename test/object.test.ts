@@ -0,0 +1,148 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { blindIndex, decryptObject, encrypt, encryptObject } from '../index'
+
+describe('encryptObject', () => {
+    test('restores value types', () => {
+        const value = { n: -0, b: false, i: 10n ** 20n, d: new Date(0), x: new Uint8Array([1, 2]), s: '', nested: { keep: null } },
+            decrypted = decryptObject<typeof value>(encryptObject(value, 'k'), 'k')
+        assert.ok(Object.is(decrypted.n, -0))
+        assert.deepEqual({ ...decrypted, x: Array.from(decrypted.x) }, { ...value, x: [1, 2] })
+    })
+
+    test('round-trips nested objects and arrays', () => {
+        const value = { user: { name: 'Jane', scores: [1, 2.5] }, rows: [['a', true], [{ deep: 'b' }]] },
+            encrypted: Record<string, any> = encryptObject(value, 'k')
+        assert.equal(typeof encrypted.user.scores[0], 'string')
+        assert.deepEqual(decryptObject(encrypted, 'k'), value)
+    })
+
+    test('returns untyped ciphertexts as strings', () => {
+        assert.deepEqual(decryptObject({ age: encrypt('42', { key: 'k' }) as string }, 'k'), { age: '42' })
+    })
+
+    test('refuses legacy (v1) values with allowLegacy: false', () => {
+        const legacy = { age: encrypt('42', { key: 'k', version: 1 }) as string }
+        assert.deepEqual(decryptObject(legacy, 'k'), { age: '42' })
+        assert.throws(() => decryptObject(legacy, 'k', { allowLegacy: false }), /legacy \(v1\) decoding is disabled/)
+    })
+
+    test('throws for a wrong key', () => {
+        assert.throws(() => decryptObject(encryptObject({ age: 42 }, 'k'), 'other'), /Authentication failed/)
+    })
+})
+
+describe('field selection', () => {
+    const order = { _id: 'o-1', user: { name: 'Jane', ssn: '123-45-6789' }, cards: [{ number: '4111', exp: '12/30' }] }
+
+    test('encrypts only the included paths', () => {
+        const fields = { include: ['user.ssn', 'cards[*].number'] },
+            encrypted: Record<string, any> = encryptObject(order, 'k', fields)
+        assert.equal(encrypted._id, 'o-1')
+        assert.equal(encrypted.user.name, 'Jane')
+        assert.equal(encrypted.cards[0].exp, '12/30')
+        assert.notEqual(encrypted.user.ssn, '123-45-6789')
+        assert.notEqual(encrypted.cards[0].number, '4111')
+        assert.deepEqual(decryptObject(encrypted, 'k', fields), order)
+    })
+
+    test('accepts the same selection as a schema, or excluded paths', () => {
+        const bySchema: Record<string, any> = encryptObject(order, 'k', { schema: { user: { ssn: true }, cards: [{ number: true }] } }),
+            byExclusion: Record<string, any> = encryptObject(order, 'k', { exclude: ['_id', 'user.name', 'cards[*].exp'] })
+        for (const encrypted of [bySchema, byExclusion]) {
+            assert.equal(encrypted.user.name, 'Jane')
+            assert.deepEqual(decryptObject(encrypted, 'k', { include: ['user.ssn', 'cards[*].number'] }), order)
+        }
+    })
+
+    test('passes class instances through as the same instance', () => {
+        class ObjectId { constructor(public readonly id: string) { } }
+        const _id: ObjectId = new ObjectId('o-1'),
+            encrypted: Record<string, any> = encryptObject({ _id, name: 'Jane' }, 'k')
+        assert.equal(encrypted._id, _id)
+        assert.equal(encryptObject({ _id }, 'k', { include: ['_id'] })._id, _id)
+        assert.equal(decryptObject(encrypted, 'k')._id, _id)
+    })
+
+    test('rejects invalid paths', () => {
+        assert.throws(() => encryptObject(order, 'k', { include: ['user..ssn'] }), /Invalid field path/)
+    })
+})
+
+describe('binding and object MAC', () => {
+    const user = { id: 'user-1', email: 'a@b.c', age: 42, tags: ['x'] },
+        options = { exclude: ['id'], documentId: 'user-1', mac: true }
+
+    test('round-trips with the same options', () => {
+        const stored: Record<string, any> = encryptObject(user, 'k', options)
+        assert.equal(typeof stored._mac, 'string')
+        assert.deepEqual(decryptObject(stored, 'k', options), user)
+    })
+
+    test('binds values to their path', () => {
+        const encrypted: Record<string, any> = encryptObject({ a: 'first', b: 'second' }, 'k', { bind: true })
+        assert.throws(() => decryptObject({ a: encrypted.b, b: encrypted.a }, 'k', { bind: true }), /Authentication failed/)
+        assert.throws(() => decryptObject(encrypted, 'k'), /bound to a field path/)
+    })
+
+    test('keeps paths with dots and brackets apart', () => {
+        const encrypted: Record<string, any> = encryptObject({ 'a.b': 'dotted', a: { b: 'nested' } }, 'k', { bind: true })
+        assert.throws(() => decryptObject({ 'a.b': encrypted.a.b, a: { b: encrypted['a.b'] } }, 'k', { bind: true }), /Authentication failed/)
+    })
+
+    test('binds values to their document', () => {
+        const stored: Record<string, any> = encryptObject(user, 'k', { ...options, mac: false })
+        assert.throws(() => decryptObject({ ...stored, id: 'user-2' }, 'k', { ...options, mac: false, documentId: 'user-2' }), /Authentication failed/)
+    })
+
+    test('detects removed, added and missing fields with the object MAC', () => {
+        const { tags, ...withoutTags } = encryptObject(user, 'k', options) as Record<string, any>,
+            stored: Record<string, any> = { ...withoutTags, tags }
+        assert.throws(() => decryptObject(withoutTags, 'k', options), /Integrity check failed/)
+        assert.throws(() => decryptObject({ ...stored, tags: [...tags, tags[0]] }, 'k', options), /Integrity check failed/)
+        assert.throws(() => decryptObject({ ...stored, _mac: undefined }, 'k', options), /object MAC is missing/)
+    })
+})
+
+describe('blind indexes', () => {
+    const blindIndexOptions = { key: 'index-key', fields: ['email', 'contacts[*].email'], normalize: true, context: 'users.email' }
+
+    test('are deterministic per key, context and normalized value', () => {
+        const index: string = blindIndex('John@Example.com', 'index-key', { normalize: true, context: 'users.email' })
+        assert.equal(blindIndex(' john@example.com ', 'index-key', { normalize: true, context: 'users.email' }), index)
+        assert.notEqual(blindIndex('John@Example.com', 'index-key', { context: 'users.email' }), index)
+        assert.notEqual(blindIndex('John@Example.com', 'index-key', { normalize: true, context: 'orders.email' }), index)
+        assert.notEqual(blindIndex('John@Example.com', 'other-key', { normalize: true, context: 'users.email' }), index)
+        assert.equal(Buffer.from(blindIndex('x', 'index-key', { length: 8 }), 'base64url').length, 8)
+        assert.throws(() => blindIndex('x', 'index-key', { length: 4 }), /between 8 and 32/)
+    })
+
+    test('are stored next to the configured fields and left alone on decryption', () => {
+        const user = { email: 'John@Example.com', name: 'John', contacts: [{ email: 'ann@example.com' }] },
+            stored: Record<string, any> = encryptObject(user, 'k', { blindIndex: blindIndexOptions, mac: true })
+        assert.equal(stored.email_bidx, blindIndex('john@example.com', 'index-key', { context: 'users.email' }))
+        assert.equal(stored.contacts[0].email_bidx, blindIndex('ann@example.com', 'index-key', { normalize: true, context: 'users.email' }))
+        assert.equal(stored.name_bidx, undefined)
+        assert.deepEqual(decryptObject(stored, 'k', { blindIndex: blindIndexOptions, mac: true }),
+            { ...user, email_bidx: stored.email_bidx, contacts: [{ ...user.contacts[0], email_bidx: stored.contacts[0].email_bidx }] })
+    })
+
+    test('only exempt the companions of configured fields', () => {
+        const stored: Record<string, any> = encryptObject({ email: 'a@b.c', notes_bidx: 'my own field' }, 'k', { blindIndex: blindIndexOptions })
+        assert.notEqual(stored.notes_bidx, 'my own field')
+        assert.equal(decryptObject(stored, 'k', { blindIndex: blindIndexOptions }).notes_bidx, 'my own field')
+        assert.notEqual(encryptObject({ email_bidx: 'plain' }, 'k').email_bidx, 'plain')
+    })
+
+    test('leave class instances such as database IDs as they are', () => {
+        class ObjectId { constructor(readonly id: string) { } }
+        const _id: ObjectId = new ObjectId('64f1'),
+            stored: Record<string, any> = encryptObject({ _id, email: 'a@b.c' }, 'k', { exclude: ['_id'], blindIndex: blindIndexOptions })
+        assert.equal(stored._id, _id)
+        assert.equal(typeof stored.email_bidx, 'string')
+    })
+
+    test('refuse array elements as fields', () => {
+        assert.throws(() => encryptObject({ emails: ['a@b.c'] }, 'k', { blindIndex: { key: 'index-key', fields: ['emails[*]'] } }), /object properties/)
+    })
+})
@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { generateTotpSecret, hotp, otpauthUri, totp, verifyHotp, verifyTotp } from '../index'
+import type { OtpAlgorithm } from '../index'
+
+const ascii = (text: string): Uint8Array => new Uint8Array(Buffer.from(text, 'ascii'))
+
+describe('hotp', () => {
+    // RFC 4226, Appendix D
+    const secret: Uint8Array = ascii('12345678901234567890'),
+        codes: string[] = ['755224', '287082', '359152', '969429', '338314', '254676', '287922', '162583', '399871', '520489']
+
+    test('matches the RFC 4226 test vectors', () => {
+        codes.forEach((code: string, counter: number) => assert.equal(hotp(secret, counter), code))
+    })
+
+    test('accepts the same secret as Base32', () => {
+        assert.equal(hotp('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ', 0), '755224')
+    })
+
+    test('verifies codes inside the look-ahead window only', () => {
+        assert.deepEqual(verifyHotp('969429', secret, 1, { window: 2 }), { valid: true, counter: 3, delta: 2 })
+        assert.equal(verifyHotp('969429', secret, 0, { window: 2 }).valid, false)
+        assert.equal(verifyHotp('96942', secret, 3).valid, false)
+    })
+
+    test('rejects invalid counters and digit counts', () => {
+        assert.throws(() => hotp(secret, -1))
+        assert.throws(() => hotp(secret, 0, { digits: 5 }))
+    })
+})
+
+describe('totp', () => {
+    // RFC 6238, Appendix B: each algorithm uses a seed of its own output length
+    const seeds: Record<OtpAlgorithm, Uint8Array> = {
+        sha1: ascii('12345678901234567890'),
+        sha256: ascii('12345678901234567890123456789012'),
+        sha512: ascii('1234567890123456789012345678901234567890123456789012345678901234'),
+    }
+    const vectors: [number, string, OtpAlgorithm][] = [
+        [59, '94287082', 'sha1'],
+        [59, '46119246', 'sha256'],
+        [59, '90693936', 'sha512'],
+        [1111111109, '07081804', 'sha1'],
+        [1111111109, '68084774', 'sha256'],
+        [1111111109, '25091201', 'sha512'],
+        [1111111111, '14050471', 'sha1'],
+        [1111111111, '67062674', 'sha256'],
+        [1111111111, '99943326', 'sha512'],
+        [1234567890, '89005924', 'sha1'],
+        [1234567890, '91819424', 'sha256'],
+        [1234567890, '93441116', 'sha512'],
+        [2000000000, '69279037', 'sha1'],
+        [2000000000, '90698825', 'sha256'],
+        [2000000000, '38618901', 'sha512'],
+        [20000000000, '65353130', 'sha1'],
+        [20000000000, '77737706', 'sha256'],
+        [20000000000, '47863826', 'sha512'],
+    ]
+
+    test('matches the RFC 6238 test vectors', () => {
+        for (const [time, code, algorithm] of vectors)
+            assert.equal(totp(seeds[algorithm], { timestamp: time * 1000, digits: 8, algorithm }), code, `${algorithm} at ${time}`)
+    })
+
+    test('accepts one step of drift and reports the matched counter', () => {
+        const secret: Uint8Array = seeds.sha1,
+            code: string = totp(secret, { timestamp: 59000 })
+        assert.deepEqual(verifyTotp(code, secret, { timestamp: 89000 }), { valid: true, counter: 1, delta: -1 })
+        assert.equal(verifyTotp(code, secret, { timestamp: 119000 }).valid, false)
+    })
+
+    test('refuses replayed counters', () => {
+        const secret: Uint8Array = seeds.sha1,
+            code: string = totp(secret, { timestamp: 59000 })
+        assert.deepEqual(verifyTotp(code, secret, { timestamp: 59000, isReplay: (counter: number) => counter <= 1 }), { valid: false, replayed: true })
+    })
+})
+
+describe('enrollment', () => {
+    test('generates Base32 secrets usable for codes', () => {
+        const secret: string = generateTotpSecret()
+        assert.match(secret, /^[A-Z2-7]+$/)
+        assert.match(totp(secret), /^\d{6}$/)
+    })
+
+    test('builds otpauth URIs', () => {
+        assert.equal(otpauthUri({ secret: 'jbsw y3dp', label: 'john@example.com', issuer: 'Zexson', digits: 8 }),
+            'otpauth://totp/Zexson:john%40example.com?secret=JBSWY3DP&issuer=Zexson&digits=8')
+        assert.equal(otpauthUri({ secret: 'JBSWY3DP', label: 'john', type: 'hotp' }), 'otpauth://hotp/john?secret=JBSWY3DP&counter=0')
+    })
+})
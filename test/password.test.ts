@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { hashPassword, needsRehash, verifyPassword } from '../index'
+
+const FAST = { cost: 2 ** 10 }
+
+describe('hashPassword', () => {
+    test('verifies the right password only', () => {
+        const stored: string = hashPassword('correct horse', FAST)
+        assert.match(stored, /^\$scrypt\$ln=10,r=8,p=1\$/)
+        assert.equal(verifyPassword('correct horse', stored), true)
+        assert.equal(verifyPassword('wrong horse', stored), false)
+    })
+
+    test('salts every hash', () => {
+        assert.notEqual(hashPassword('same', FAST), hashPassword('same', FAST))
+    })
+
+    test('rejects a cost that is not a power of two', () => {
+        assert.throws(() => hashPassword('password', { cost: 1000 }), /power of two/)
+    })
+})
+
+describe('verifyPassword', () => {
+    test('throws for a string that is not a password hash', () => {
+        assert.throws(() => verifyPassword('password', 'not a hash'), /Malformed password hash/)
+    })
+
+    test('throws for degenerate hashes instead of matching any password', () => {
+        const salt: string = Buffer.from('saltsalt').toString('base64').replace(/=+$/, ''),
+            derived: string = Buffer.alloc(32).toString('base64').replace(/=+$/, '')
+        for (const hash of [
+            `$scrypt$ln=4,r=8,p=1$${salt}$A`,
+            `$scrypt$ln=4,r=8,p=1$${salt}$${Buffer.alloc(8).toString('base64').replace(/=+$/, '')}`,
+            `$scrypt$ln=4,r=8,p=1$c2FsdA$${derived}`,
+            `$scrypt$ln=0,r=8,p=1$${salt}$${derived}`,
+            `$scrypt$ln=99,r=8,p=1$${salt}$${derived}`,
+            `$scrypt$ln=4,r=0,p=1$${salt}$${derived}`,
+        ])
+            assert.throws(() => verifyPassword('any password', hash), /Malformed password hash/, hash)
+    })
+})
+
+describe('needsRehash', () => {
+    test('reports changed parameters', () => {
+        const stored: string = hashPassword('password', FAST)
+        assert.equal(needsRehash(stored, FAST), false)
+        assert.equal(needsRehash(stored, { cost: 2 ** 11 }), true)
+        assert.equal(needsRehash('not a hash'), true)
+    })
+})
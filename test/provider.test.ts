@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict'
+import { mkdtempSync, readFileSync, statSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { describe, test } from 'node:test'
+import { createEnvKeyProvider, createFileKeyProvider, createMockKms, decryptWithProvider, encryptWithProvider, rewrapKey } from '../index'
+import type { KeyProvider, MockKms } from '../index'
+
+const keystorePath = (): string => join(mkdtempSync(join(tmpdir(), 'zexson-keystore-')), 'keystore.json')
+
+describe('encryptWithProvider', () => {
+    test('round-trips strings and bytes with every encoding', async () => {
+        const kms: MockKms = createMockKms()
+        for (const encoding of ['base64url', 'base64', 'hex'] as const)
+            assert.equal(await decryptWithProvider(await encryptWithProvider('sensitive data', kms, { encoding }), kms), 'sensitive data')
+        const bytes: Buffer = Buffer.from([0, 1, 255]),
+            stored: Buffer = await encryptWithProvider(bytes, kms, { encoding: 'buffer', algorithm: 'chacha20-poly1305' }) as Buffer
+        assert.deepEqual(await decryptWithProvider(stored, kms, { encoding: 'buffer' }), bytes)
+        assert.deepEqual(kms.calls, { wrap: 4, unwrap: 4 })
+    })
+
+    test('rejects other providers, modified payloads and foreign ciphertexts', async () => {
+        const kms: MockKms = createMockKms(),
+            stored: Buffer = await encryptWithProvider('value', kms, { encoding: 'buffer' }) as Buffer
+        await assert.rejects(decryptWithProvider(stored, createMockKms()), /Authentication failed/)
+        stored[stored.length - 1] ^= 0x01
+        await assert.rejects(decryptWithProvider(stored, kms), /Authentication failed/)
+        await assert.rejects(decryptWithProvider('bm90IGEgY2lwaGVydGV4dA', kms), /not encrypted with a key provider/)
+    })
+})
+
+describe('rewrapKey', () => {
+    test('rewraps the data key with the active master key and keeps the payload', async () => {
+        const kms: MockKms = createMockKms(),
+            stored: Buffer = await encryptWithProvider('value', kms, { encoding: 'buffer' }) as Buffer
+        assert.equal(await kms.rotate(), 'mock-2')
+        const rewrapped: Buffer = await rewrapKey(stored, kms, { encoding: 'buffer' }) as Buffer
+        assert.match(rewrapped.toString('latin1'), /"kid":"mock-2"/)
+        assert.deepEqual(rewrapped.subarray(-40), stored.subarray(-40))
+        assert.equal(await decryptWithProvider(rewrapped, kms), 'value')
+        assert.deepEqual(kms.keyIds(), ['mock-1', 'mock-2'])
+    })
+})
+
+describe('data keys', () => {
+    test('are zeroed once encryption, decryption and rewrapping are done', async () => {
+        const kms: MockKms = createMockKms(),
+            seen: Buffer[] = [],
+            spy: KeyProvider = {
+                wrapKey: (dataKey: Buffer) => {
+                    seen.push(dataKey)
+                    return kms.wrapKey(dataKey)
+                },
+                unwrapKey: async (wrapped) => {
+                    const dataKey: Buffer = await kms.unwrapKey(wrapped)
+                    seen.push(dataKey)
+                    return dataKey
+                },
+            }
+        const stored: string = await encryptWithProvider('value', spy) as string
+        assert.equal(await decryptWithProvider(stored, spy), 'value')
+        await rewrapKey(stored, spy)
+        await assert.rejects(rewrapKey(stored, { ...spy, wrapKey: () => Promise.reject(new Error('KMS unavailable')) }), /KMS unavailable/)
+        assert.equal(seen.length, 5)
+        for (const dataKey of seen) assert.ok(dataKey.every((byte: number): boolean => byte === 0))
+    })
+})
+
+describe('key providers', () => {
+    test('read master keys from environment variables', async () => {
+        const env: Record<string, string> = { ZEXSON_MASTER_KEY_2024: 'old master key', ZEXSON_MASTER_KEY_2025: 'new master key' },
+            old: KeyProvider = createEnvKeyProvider({ active: '2024', env }),
+            current: KeyProvider = createEnvKeyProvider({ active: '2025', env })
+        const stored: string = await encryptWithProvider('value', old) as string
+        assert.equal(await decryptWithProvider(await rewrapKey(stored, current), createEnvKeyProvider({ active: '2025', env: { ZEXSON_MASTER_KEY_2025: env.ZEXSON_MASTER_KEY_2025 } })), 'value')
+        await assert.rejects(encryptWithProvider('value', createEnvKeyProvider({ env })), /set the active key ID/)
+        await assert.rejects(encryptWithProvider('value', createEnvKeyProvider({ env: {} })), /No master keys found/)
+        await assert.rejects(decryptWithProvider(stored, createEnvKeyProvider({ env: { ZEXSON_MASTER_KEY_2025: 'new master key' } })), /Unknown master key ID "2024"/)
+    })
+
+    test('create, rotate and read a keystore file', async () => {
+        const path: string = keystorePath()
+        await assert.rejects(encryptWithProvider('value', createFileKeyProvider(path)), /ENOENT/)
+        const provider = createFileKeyProvider(path, { create: true }),
+            stored: string = await encryptWithProvider('value', provider) as string
+        assert.equal(statSync(path).mode & 0o777, 0o600)
+        const first: string = JSON.parse(readFileSync(path, 'utf8')).active,
+            second: string = await provider.rotate(),
+            keystore = JSON.parse(readFileSync(path, 'utf8'))
+        assert.equal(keystore.active, second)
+        assert.deepEqual(Object.keys(keystore.keys).sort(), [first, second].sort())
+        assert.equal(await decryptWithProvider(await rewrapKey(stored, provider), createFileKeyProvider(path)), 'value')
+    })
+})
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { encrypt, Field, isEqual, redact, setLogger } from '../index'
+
+class CardDTO {
+    @Field({ sensitive: true })
+    number: string = ''
+
+    @Field()
+    brand: string = ''
+}
+
+class CustomerDTO {
+    @Field()
+    name: string = ''
+
+    @Field({ encrypted: true })
+    email: string = ''
+
+    @Field(() => CardDTO)
+    card: CardDTO = new CardDTO()
+}
+
+describe('redact', () => {
+    test('masks the given paths and keeps just enough to recognize a value', () => {
+        const body = { user: { email: 'john@example.com', name: 'John' }, cards: [{ number: '4111 1111 1111 1234', cvc: '123' }], pin: 1234 }
+        assert.deepEqual(redact(body, { paths: ['user.email', 'cards[*]', 'pin'] }), {
+            user: { email: 'j***@example.com', name: 'John' },
+            cards: [{ number: '****1234', cvc: '****' }],
+            pin: '****',
+        })
+        assert.equal(body.user.email, 'john@example.com')
+    })
+
+    test('masks the sensitive and encrypted fields of decorated instances', () => {
+        const customer: CustomerDTO = Object.assign(new CustomerDTO(), {
+            name: 'Ann', email: 'ann@example.com', card: Object.assign(new CardDTO(), { number: '5500000000000004', brand: 'mc' }),
+        })
+        assert.deepEqual(redact(customer), { name: 'Ann', email: 'a***@example.com', card: { number: '****0004', brand: 'mc' } })
+        assert.deepEqual(redact(customer, { useFieldMetadata: false, paths: ['name'], mask: (_value: unknown, path: string): string => `<${path}>` }),
+            { name: '<name>', email: 'ann@example.com', card: customer.card })
+    })
+
+    test('masks whatever lies below the depth limit', () => {
+        const deep: Record<string, any> = { secret: 'hunter2' }
+        let value: Record<string, any> = deep
+        for (let i: number = 0; i < 40; i++) value = { next: value }
+        assert.doesNotMatch(JSON.stringify(redact(value, { paths: [`${'next.'.repeat(40)}secret`] })), /hunter2/)
+        const cyclic: Record<string, any> = { password: 'hunter2' }
+        cyclic.self = cyclic
+        assert.doesNotMatch(JSON.stringify(redact(cyclic, { paths: ['password', 'self'] })), /hunter2/)
+    })
+
+    test('keeps empty values and leaves unselected branches as they are', () => {
+        const created: Date = new Date(0)
+        assert.deepEqual(redact({ token: null, meta: { created } }, { paths: ['token'] }), { token: null, meta: { created } })
+    })
+})
+
+describe('setLogger', () => {
+    test('receives isEqual diagnostics without plaintext values', () => {
+        const messages: unknown[][] = []
+        setLogger({ debug: (...args: unknown[]) => void messages.push(args) })
+        try {
+            isEqual(encrypt('top secret', { key: 'k' }) as string, 'top secret', { key: 'k', log: true })
+            isEqual('top secret', 'other secret', { key: 'k', log: true })
+            setLogger(null)
+            isEqual('top secret', 'top secret', { key: 'k', log: true })
+        } finally {
+            setLogger(console)
+        }
+        assert.equal(messages.length, 2)
+        assert.match(String(messages[0][0]), /^isEqual: match found/)
+        assert.equal(messages[1][0], 'isEqual: no match found')
+        assert.doesNotMatch(JSON.stringify(messages), /secret/)
+    })
+})
@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict'
+import { randomBytes } from 'node:crypto'
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Readable, Transform } from 'node:stream'
+import { describe, test } from 'node:test'
+import { createDecryptStream, createEncryptStream, decryptFile, encryptFile } from '../index'
+
+const collect = async (source: Buffer, ...transforms: Transform[]): Promise<Buffer> => {
+    const chunks: Buffer[] = []
+    let stream: NodeJS.ReadableStream = Readable.from([source])
+    for (const transform of transforms) stream = stream.pipe(transform)
+    for await (const chunk of stream) chunks.push(chunk as Buffer)
+    return Buffer.concat(chunks)
+}
+
+describe('streams', () => {
+    test('round-trip across chunk boundaries', async () => {
+        for (const length of [0, 1, 64, 65, 1000]) {
+            const data: Buffer = randomBytes(length),
+                encrypted: Buffer = await collect(data, createEncryptStream({ key: 'k', chunkSize: 64 }))
+            assert.deepEqual(await collect(encrypted, createDecryptStream({ key: 'k' })), data)
+        }
+    })
+
+    test('reject a wrong key, a truncated stream and a modified byte', async () => {
+        const encrypted: Buffer = await collect(randomBytes(300), createEncryptStream({ key: 'k', chunkSize: 64 })),
+            tampered: Buffer = Buffer.from(encrypted)
+        tampered[tampered.length - 100] ^= 0x01
+        await assert.rejects(collect(encrypted, createDecryptStream({ key: 'other' })), /Authentication failed/)
+        await assert.rejects(collect(encrypted.subarray(0, encrypted.length - 80), createDecryptStream({ key: 'k' })), /Authentication failed|truncated/)
+        await assert.rejects(collect(tampered, createDecryptStream({ key: 'k' })), /Authentication failed/)
+    })
+})
+
+describe('file helpers', () => {
+    test('round-trip a file and remove the output on failure', async () => {
+        const dir: string = mkdtempSync(join(tmpdir(), 'zexson-')),
+            data: Buffer = randomBytes(5000)
+        try {
+            writeFileSync(join(dir, 'plain'), data)
+            await encryptFile(join(dir, 'plain'), join(dir, 'plain.zx'), 'k', { chunkSize: 1024 })
+            await decryptFile(join(dir, 'plain.zx'), join(dir, 'out'), 'k')
+            assert.deepEqual(readFileSync(join(dir, 'out')), data)
+            await assert.rejects(decryptFile(join(dir, 'plain.zx'), join(dir, 'bad'), 'other'), /Authentication failed/)
+            assert.equal(existsSync(join(dir, 'bad')), false)
+        } finally {
+            rmSync(dir, { recursive: true, force: true })
+        }
+    })
+})
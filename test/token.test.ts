@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { MalformedTokenError, signToken, TokenClaimError, TokenExpiredError, TokenNotActiveError, TokenSignatureError, verifyToken } from '../index'
+
+describe('signToken', () => {
+    test('round-trips the payload and the registered claims', () => {
+        const token: string = signToken({ userId: 42 }, 'k', { expiresIn: '15m', audience: 'api', issuer: 'auth', timestamp: 1700000000000 }),
+            result = verifyToken<{ userId: number }>(token, 'k', { audience: 'api', issuer: 'auth', timestamp: 1700000000000 })
+        assert.equal(result.valid, true)
+        assert.equal(result.payload?.userId, 42)
+        assert.equal(result.payload?.exp, 1700000000 + 15 * 60)
+    })
+
+    test('rejects payloads that are not plain objects', () => {
+        assert.throws(() => signToken([] as unknown as Record<string, unknown>, 'k'), /plain object/)
+    })
+})
+
+describe('verifyToken', () => {
+    const token: string = signToken({ userId: 42 }, 'k', { expiresIn: 60, notBefore: 10, audience: 'api', timestamp: 1700000000000 })
+
+    test('returns typed errors instead of throwing', () => {
+        assert.ok(verifyToken(token, 'other', { timestamp: 1700000020000 }).error instanceof TokenSignatureError)
+        assert.ok(verifyToken(token, 'k', { timestamp: 1700000000000 }).error instanceof TokenNotActiveError)
+        assert.ok(verifyToken(token, 'k', { timestamp: 1700000060000 }).error instanceof TokenExpiredError)
+        assert.ok(verifyToken(token, 'k', { audience: 'admin', timestamp: 1700000020000 }).error instanceof TokenClaimError)
+        assert.ok(verifyToken('not.a.token', 'k').error instanceof MalformedTokenError)
+    })
+
+    test('rejects a modified payload', () => {
+        const [header, , signature] = token.split('.'),
+            forged: string = Buffer.from(JSON.stringify({ userId: 1, aud: 'api' })).toString('base64url')
+        assert.ok(verifyToken(`${header}.${forged}.${signature}`, 'k', { timestamp: 1700000020000 }).error instanceof TokenSignatureError)
+    })
+
+    test('honors the clock tolerance', () => {
+        assert.equal(verifyToken(token, 'k', { timestamp: 1700000061000, clockTolerance: 5 }).valid, true)
+    })
+})
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { Field, IsEmail, IsIn, Max, MaxLength, Min, MinLength, Pattern, Required, validate, Validate } from '../index'
+
+class AddressDTO {
+    @Required() @Pattern(/^\d{5}$/, { message: 'zip must be 5 digits' }) @Field() zip: string = ''
+}
+
+class SignupDTO {
+    @Required() @MinLength(3) @MaxLength(20) @Field() username: string = ''
+    @Required() @IsEmail() @Field() email: string = ''
+    @Min(18) @Max(130) @Field() age: number = 0
+    @IsIn(['user', 'admin']) @Field() role: string = 'user'
+    @Field() password: string = ''
+    @Validate((value: string, dto: SignupDTO): boolean => value === dto.password, { rule: 'matches', message: 'Passwords do not match' }) @Field() repeat: string = ''
+    @Field() addresses: AddressDTO[] = []
+}
+
+const signup = (fields: Partial<SignupDTO>): SignupDTO =>
+    Object.assign(new SignupDTO(), { username: 'john', email: 'john@example.com', age: 30, password: 'secret', repeat: 'secret' }, fields)
+
+describe('validate', () => {
+    test('accepts a valid instance', () => {
+        assert.deepEqual(validate(signup({ addresses: [Object.assign(new AddressDTO(), { zip: '12345' })] })), { valid: true, errors: [] })
+    })
+
+    test('reports every failed rule with its path', () => {
+        const { valid, errors } = validate(signup({
+            username: 'jo',
+            email: 'not an email',
+            age: 17,
+            role: 'root',
+            repeat: 'other',
+            addresses: [Object.assign(new AddressDTO(), { zip: '12345' }), Object.assign(new AddressDTO(), { zip: 'abc' })],
+        }))
+        assert.equal(valid, false)
+        assert.deepEqual(errors, [
+            { path: 'username', rule: 'minLength', message: 'username must be at least 3 characters long' },
+            { path: 'email', rule: 'email', message: 'email must be a valid email address' },
+            { path: 'age', rule: 'min', message: 'age must be at least 18' },
+            { path: 'role', rule: 'isIn', message: 'role must be one of: user, admin' },
+            { path: 'repeat', rule: 'matches', message: 'Passwords do not match' },
+            { path: 'addresses[1].zip', rule: 'pattern', message: 'zip must be 5 digits' },
+        ])
+    })
+
+    test('reports the declared type before other rules', () => {
+        assert.deepEqual(validate(signup({ age: '30' as unknown as number })).errors, [{ path: 'age', rule: 'type', message: 'age must be of type number' }])
+    })
+
+    test('requires required fields only', () => {
+        assert.deepEqual(validate(signup({ username: '', age: undefined })).errors.map(({ path, rule }) => [path, rule]), [['username', 'required']])
+    })
+})
+
+describe('cyclic graphs', () => {
+    class NodeDTO {
+        @Required() @Field() name: string = ''
+        @Field() parent?: NodeDTO
+        @Field() children: NodeDTO[] = []
+    }
+
+    test('are validated once instead of recursing forever', () => {
+        const root: NodeDTO = Object.assign(new NodeDTO(), { name: 'root' }),
+            child: NodeDTO = Object.assign(new NodeDTO(), { name: '', parent: root })
+        root.children.push(child)
+        root.parent = root
+        assert.deepEqual(validate(root).errors, [{ path: 'children[0].name', rule: 'required', message: 'children[0].name is required' }])
+    })
+})
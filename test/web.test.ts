@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import * as node from '../index'
+import { base64Decode as nodeBase64Decode, base64Encode as nodeBase64Encode } from '../src/crypt'
+import * as web from '../src/web'
+
+// Legacy (v1) ciphertext of "secret" under "test-key"
+const LEGACY_VECTOR: string = 'WXPOW2[[hoNrVXxBe5EGbx?@'
+
+describe('web build interop', () => {
+    const keyring = { keys: { a: 'first', b: 'second' }, active: 'b' },
+        nodeKeyring = node.createKeyring(keyring)
+
+    test('ciphertexts decrypt with the other build', async () => {
+        assert.equal(node.decrypt(await web.encrypt('from web', { key: 'k' }), { key: 'k' }), 'from web')
+        assert.equal(await web.decrypt(node.encrypt('from node', { key: 'k' }) as string, { key: 'k' }), 'from node')
+        assert.equal(node.decrypt(await web.encrypt('rotated', { key: keyring }), { key: nodeKeyring }), 'rotated')
+        assert.equal(await web.decrypt(node.encrypt('rotated', { key: nodeKeyring }) as string, { key: keyring }), 'rotated')
+    })
+
+    test('web refuses what Web Crypto cannot decrypt and costly header key derivations', async () => {
+        await assert.rejects(web.decrypt(node.encrypt('x', { key: 'k', algorithm: 'chacha20-poly1305' }) as string, { key: 'k' }), /Web Crypto/)
+        const stored: string = node.encrypt('x', { key: node.deriveKey('passphrase', { kdf: 'pbkdf2', iterations: 600001 }) }) as string
+        await assert.rejects(web.decrypt(stored, { key: 'passphrase' }), node.InvalidKeyError)
+    })
+
+    test('bound objects with a MAC are interchangeable', async () => {
+        const document = { id: 'd1', email: 'a@b.c', age: 7, when: new Date(0), list: ['x', 'y'] },
+            options = { include: ['email', 'age', 'when', 'list[*]'], documentId: 'd1', mac: true }
+        assert.deepEqual(node.decryptObject(await web.encryptObject(document, 'k', options), 'k', options), document)
+        const encrypted: Record<string, any> = node.encryptObject(document, 'k', options)
+        assert.deepEqual(await web.decryptObject(encrypted, 'k', options), document)
+        await assert.rejects(web.decryptObject({ ...encrypted, email: encrypted.list[0] }, 'k', options), node.IntegrityError)
+    })
+
+    test('keys containing dots are bound to the same paths in both builds', async () => {
+        const document = { 'a.b': 'dotted', a: { b: 'nested' } },
+            options = { bind: true, mac: true }
+        assert.deepEqual(node.decryptObject(await web.encryptObject(document, 'k', options), 'k', options), document)
+        const encrypted: Record<string, any> = node.encryptObject(document, 'k', options)
+        await assert.rejects(web.decryptObject({ ...encrypted, 'a.b': encrypted.a.b, a: { b: encrypted['a.b'] } }, 'k', { bind: true }), node.IntegrityError)
+    })
+
+    test('tokens verify with the other build', async () => {
+        const webToken: string = await web.signToken({ from: 'web' }, keyring, { expiresIn: '5m', audience: 'api' }),
+            nodeToken: string = node.signToken({ from: 'node' }, nodeKeyring, { expiresIn: '5m', audience: 'api' })
+        assert.equal(node.verifyToken(webToken, nodeKeyring, { audience: 'api' }).valid, true)
+        assert.equal((await web.verifyToken(nodeToken, keyring, { audience: 'api' })).valid, true)
+        const rejected = await web.verifyToken(nodeToken, keyring, { audience: 'web' })
+        assert.ok(!rejected.valid && rejected.error.code === node.verifyToken(nodeToken, nodeKeyring, { audience: 'web' }).error?.code)
+    })
+
+    test('legacy encodings match', async () => {
+        for (const text of ['hello', 'héllo wörld', ''])
+            assert.equal(web.base64Encode(text, 'k'), nodeBase64Encode(text, 'k'))
+        assert.equal(web.base64Decode(nodeBase64Encode('héllo', 'k'), 'k'), 'héllo')
+        assert.equal(nodeBase64Decode(web.base64Encode('héllo', 'k'), 'k'), 'héllo')
+        assert.equal(node.decrypt(LEGACY_VECTOR, { key: 'test-key' }), 'secret')
+        assert.equal(await web.decrypt(LEGACY_VECTOR, { key: 'test-key' }), 'secret')
+        await assert.rejects(web.decrypt(LEGACY_VECTOR, { key: 'test-key', allowLegacy: false }), node.MalformedCiphertextError)
+        await assert.rejects(web.decryptObject({ a: LEGACY_VECTOR }, 'test-key', { allowLegacy: false }), node.MalformedCiphertextError)
+    })
+})